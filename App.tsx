@@ -1,132 +1,273 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Reader from './components/Reader';
 import Toolbar from './components/Toolbar';
 import Loupe from './components/Loupe';
-import { DEFAULT_SETTINGS, ReaderSettings, Highlight } from './types';
+import Library from './components/Library';
+import ImportProgress from './components/ImportProgress';
+import ExportDialog from './components/ExportDialog';
+import ThemeEditor from './components/ThemeEditor';
+import TypographyPanel from './components/TypographyPanel';
+import ProfileManager from './components/ProfileManager';
+import ShortcutsDialog from './components/ShortcutsDialog';
+import HistoryDialog from './components/HistoryDialog';
+import { ThemeMode, LoupeMode, ReaderSettings, SettingsProfile, Highlight, HighlightCategory, Note, DocumentFormat, LibraryDocument, Block, Chapter, ExtractedDocument, ScrollPosition, ReadingStats } from './types';
 import { SAMPLE_TEXT, THEME_STYLES } from './constants';
+import { saveDocument, updateDocument } from './services/library';
+import { textToBlocks, extractPdfDocument, extractDocxBlocks, extractMarkdownBlocks, extractHtmlDocument } from './services/loaders';
+import { extractImageDocument } from './services/ocr';
+import { extractEpub } from './services/epub';
+import { AnnotationImport } from './services/exporter';
+import { EMPTY_READING_STATS } from './services/progress';
+import { resolveThemeColors, getThemeVariables } from './services/themes';
+import { ProfileStore, loadProfileStore, saveProfileStore, getActiveProfile } from './services/profiles';
+import { LoupeText, getWordAt, getLineAt } from './services/loupe';
+import { findShortcut } from './services/shortcuts';
+import { HighlightRange, loadHighlightCategories, saveHighlightCategories, getHighlightGroupIds, getHighlightCategory } from './services/highlights';
+import { createNote, findNote, getNoteAnchor, mergeNotes, reanchorNotes } from './services/notes';
+import {
+  EMPTY_HISTORY,
+  HistoryStack,
+  HistoryState,
+  recordChange,
+  moveInHistory,
+  keepSettingsHistory,
+  describeSettingsChange,
+  getChangedSettings,
+} from './services/history';
 
 // Declare globals for the CDN libraries
 declare global {
   interface Window {
     pdfjsLib: any;
     mammoth: any;
+    JSZip: any;
+    marked: any;
+    DOMPurify: any;
+    Tesseract: any;
+    UTIF: any;
   }
 }
 
+// Built-in themes in toolbar order, then the saved custom themes
+const getNextTheme = (s: ReaderSettings): ReaderSettings => {
+  const options = [
+    ...(Object.values(ThemeMode) as ThemeMode[]).filter(mode => mode !== ThemeMode.CUSTOM).map(mode => ({ theme: mode, customThemeId: s.customThemeId })),
+    ...s.customThemes.map(custom => ({ theme: ThemeMode.CUSTOM, customThemeId: custom.id })),
+  ];
+  const current = options.findIndex(option =>
+    option.theme === s.theme && (s.theme !== ThemeMode.CUSTOM || option.customThemeId === s.customThemeId)
+  );
+  return { ...s, ...options[(current + 1) % options.length] };
+};
+
 const App: React.FC = () => {
-  const [content, setContent] = useState<string>(SAMPLE_TEXT);
-  const [settings, setSettings] = useState<ReaderSettings>(() => {
-    const saved = localStorage.getItem('access-reader-settings');
-    return saved ? JSON.parse(saved) : DEFAULT_SETTINGS;
-  });
-  const [hoveredText, setHoveredText] = useState<string>('');
+  const [blocks, setBlocks] = useState<Block[]>(() => textToBlocks(SAMPLE_TEXT));
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  // Named settings profiles; `settings` always mirrors the active one
+  const [profileStore, setProfileStore] = useState<ProfileStore>(loadProfileStore);
+  const [settings, setSettings] = useState<ReaderSettings>(() => getActiveProfile(profileStore).settings);
+  const [loupeText, setLoupeText] = useState<LoupeText | null>(null);
+  const [loupeAnchor, setLoupeAnchor] = useState<{ x: number; y: number } | null>(null); // Caret browsing position
   
-  // Map paragraph index to annotation text
-  const [annotations, setAnnotations] = useState<Record<number, string>>({});
+  // Notes on paragraphs and on highlights
+  const [notes, setNotes] = useState<Note[]>([]);
   
   // Map paragraph index to list of highlights
   const [highlights, setHighlights] = useState<Record<number, Highlight[]>>({});
+  // Shared by every document
+  const [highlightCategories, setHighlightCategories] = useState<HighlightCategory[]>(loadHighlightCategories);
+  // Undo/redo of note, highlight and settings changes
+  const [history, setHistory] = useState<HistoryStack>(EMPTY_HISTORY);
+
+  // Library state: the sample text has no document id and is never stored
+  const [documentId, setDocumentId] = useState<string | null>(null);
+  const [documentTitle, setDocumentTitle] = useState('Welcome to AccessReader');
+  const [initialParagraphIndex, setInitialParagraphIndex] = useState<number | null>(null);
+  const [lastParagraphIndex, setLastParagraphIndex] = useState<number | null>(null);
+  const [initialScrollPosition, setInitialScrollPosition] = useState<ScrollPosition | null>(null);
+  const [lastScrollPosition, setLastScrollPosition] = useState<ScrollPosition | null>(null);
+  const [readingStats, setReadingStats] = useState<ReadingStats>(EMPTY_READING_STATS);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isThemeEditorOpen, setIsThemeEditorOpen] = useState(false);
+  const [isTypographyOpen, setIsTypographyOpen] = useState(false);
+  const [isProfileManagerOpen, setIsProfileManagerOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  // Progress of a long-running import (PDF reading, OCR)
+  const [importStatus, setImportStatus] = useState<{ message: string; progress: number } | null>(null);
+  const reportProgress = useCallback((message: string, progress: number) => {
+    setImportStatus({ message, progress });
+  }, []);
 
-  // Persist settings
+  // Keep the active profile in step with the live settings
   useEffect(() => {
-    localStorage.setItem('access-reader-settings', JSON.stringify(settings));
+    setProfileStore(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(profile => profile.id === prev.activeProfileId ? { ...profile, settings } : profile),
+    }));
   }, [settings]);
 
-  // Handle global key shortcuts for zoom
+  // Persist profiles
   useEffect(() => {
-    const handleKey = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && (e.key === '=' || e.key === '+')) {
-        e.preventDefault();
-        setSettings(s => ({ ...s, fontSize: Math.min(s.fontSize + 2, 72) }));
-      }
-      if ((e.ctrlKey || e.metaKey) && (e.key === '-')) {
-        e.preventDefault();
-        setSettings(s => ({ ...s, fontSize: Math.max(s.fontSize - 2, 12) }));
-      }
+    saveProfileStore(profileStore);
+  }, [profileStore]);
+
+  useEffect(() => {
+    saveHighlightCategories(highlightCategories);
+  }, [highlightCategories]);
+
+  const handleSwitchProfile = useCallback((profile: SettingsProfile) => {
+    setProfileStore(prev => ({ ...prev, activeProfileId: profile.id }));
+    setSettings(profile.settings);
+  }, []);
+
+  const handleUpdateProfiles = useCallback((profiles: SettingsProfile[]) => {
+    setProfileStore(prev => ({ ...prev, profiles }));
+  }, []);
+
+  // The save waiting out the debounce below. It runs early when another document is
+  // opened or the page is closed, so the last edits aren't lost.
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+
+  const flushPendingSave = useCallback(() => {
+    const save = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    save?.();
+  }, []);
+
+  // Persist study data for the open document (debounced so note typing doesn't hammer IndexedDB)
+  useEffect(() => {
+    if (!documentId) return;
+    pendingSaveRef.current = () => {
+      updateDocument(documentId, { notes, highlights, lastParagraphIndex, lastScrollPosition, readingStats })
+        .catch(err => console.error("Error saving document:", err));
     };
+    const timer = window.setTimeout(flushPendingSave, 500);
+    return () => window.clearTimeout(timer);
+  }, [documentId, notes, highlights, lastParagraphIndex, lastScrollPosition, readingStats, flushPendingSave]);
+
+  // Leaving a document writes its pending edits before the next one's take over
+  useEffect(() => flushPendingSave, [documentId, flushPendingSave]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingSave);
+    window.addEventListener('beforeunload', flushPendingSave);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSave);
+      window.removeEventListener('beforeunload', flushPendingSave);
+    };
+  }, [flushPendingSave]);
+
+  // Applies a change to notes, highlights or settings and records it for undo.
+  // Changes with the same `key` in quick succession become one undo step.
+  const commitChange = (next: Partial<HistoryState>, label: string, key?: string) => {
+    setHistory(recordChange(history, { notes, highlights, settings }, next, label, key, Date.now()));
+    if (next.notes) setNotes(next.notes);
+    if (next.highlights) setHighlights(next.highlights);
+    if (next.settings) setSettings(next.settings);
+  };
+
+  // Every settings control goes through here; switching profiles doesn't
+  const updateSettings = (next: ReaderSettings) => {
+    commitChange({ settings: next }, describeSettingsChange(settings, next), `settings:${getChangedSettings(settings, next).join(',')}`);
+  };
+
+  // Undoes (negative) or redoes `steps` changes. Returns the label of the last one, or null if there was none.
+  const moveHistory = (steps: number) => {
+    const result = moveInHistory(history, { notes, highlights, settings }, steps);
+    if (result.entries.length === 0) return null;
+    setHistory(result.stack);
+    setNotes(result.state.notes);
+    setHighlights(result.state.highlights);
+    setSettings(result.state.settings);
+    return result.entries[result.entries.length - 1].label;
+  };
+
+  const undo = () => moveHistory(-1);
+  const redo = () => moveHistory(1);
+
+  // Global shortcuts for settings, undo and dialogs; the Reader handles its own commands.
+  // The listener goes through a ref so changes are recorded against the current state.
+  const runGlobalShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+
+  runGlobalShortcutRef.current = (e: KeyboardEvent) => {
+    if (e.defaultPrevented) return;
+    const command = findShortcut(e, settings.keyBindings, 'global');
+    switch (command) {
+      case 'increaseFontSize':
+        updateSettings({ ...settings, fontSize: Math.min(settings.fontSize + 2, 72) });
+        break;
+      case 'decreaseFontSize':
+        updateSettings({ ...settings, fontSize: Math.max(settings.fontSize - 2, 12) });
+        break;
+      case 'nextTheme':
+        updateSettings(getNextTheme(settings));
+        break;
+      case 'toggleMagnifier':
+        updateSettings({ ...settings, isLoupeActive: !settings.isLoupeActive });
+        break;
+      case 'toggleRuler':
+        updateSettings({ ...settings, isReadingRuler: !settings.isReadingRuler });
+        break;
+      case 'toggleFocusMode':
+        updateSettings({ ...settings, isFocusMode: !settings.isFocusMode });
+        break;
+      case 'toggleBionic':
+        updateSettings({ ...settings, isBionicReading: !settings.isBionicReading });
+        break;
+      case 'undo':
+      case 'redo':
+        // One-line fields (search, tags) keep the browser's own undo; notes use the history
+        if (e.target instanceof HTMLInputElement && e.target.selectionStart !== null) return;
+        if (command === 'undo') undo();
+        else redo();
+        break;
+      case 'showShortcuts':
+        setIsShortcutsOpen(open => !open);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => runGlobalShortcutRef.current(e);
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
   }, []);
 
   // --- Global Magnifier Logic ---
+  // Region mode magnifies pixels inside the Loupe itself and needs no text
   useEffect(() => {
-    if (!settings.isLoupeActive) {
-      setHoveredText('');
+    if (!settings.isLoupeActive || settings.loupeMode === LoupeMode.REGION) {
+      setLoupeText(null);
       return;
     }
 
-    const extractWord = (text: string, offset: number) => {
-      // Improved word extraction that handles boundaries better
-      if (!text) return '';
-      const isWordChar = (char: string) => /[\w\u00C0-\u00FF\u4e00-\u9fff]/.test(char);
-      
-      let start = offset;
-      let end = offset;
-      
-      // If we clicked strictly between words, check surrounding
-      if (!isWordChar(text[start]) && start > 0 && isWordChar(text[start-1])) {
-          start--;
-      }
-      
-      while (start > 0 && isWordChar(text[start - 1])) start--;
-      while (end < text.length && isWordChar(text[end])) end++;
-      
-      const word = text.slice(start, end).trim();
-      // Only return if it's a meaningful chunk
-      return word.length > 0 ? word : '';
-    };
-
+    const getText = settings.loupeMode === LoupeMode.LINE ? getLineAt : getWordAt;
     const handleGlobalMouseMove = (e: MouseEvent) => {
-      let foundText = '';
-
-      // 1. Try Standard Range API (Best for text nodes)
-      // @ts-ignore
-      if (document.caretRangeFromPoint) {
-        // @ts-ignore
-        const range = document.caretRangeFromPoint(e.clientX, e.clientY);
-        if (range && range.startContainer.nodeType === Node.TEXT_NODE) {
-          foundText = extractWord(range.startContainer.textContent || '', range.startOffset);
-        }
-      } 
-      // Fallback for some browsers
-      // @ts-ignore
-      else if (document.caretPositionFromPoint) {
-         // @ts-ignore
-         const pos = document.caretPositionFromPoint(e.clientX, e.clientY);
-         if (pos && pos.offsetNode.nodeType === Node.TEXT_NODE) {
-           foundText = extractWord(pos.offsetNode.textContent || '', pos.offset);
-         }
-      }
-
-      // 2. If no text node found, check for interactive elements (Buttons, Labels, Headers)
-      if (!foundText) {
-        const el = document.elementFromPoint(e.clientX, e.clientY) as HTMLElement;
-        if (el) {
-          const tagName = el.tagName;
-          if (['BUTTON', 'LABEL', 'A', 'H1', 'H2', 'H3', 'SPAN', 'MARK'].includes(tagName)) {
-             foundText = el.innerText || el.getAttribute('aria-label') || '';
-             // Limit length for UI elements to avoid massive blocks
-             if (foundText.length > 50) foundText = foundText.substring(0, 50) + '...';
-          } 
-          // REMOVED: Greedy INPUT/TEXTAREA fallback that grabbed the whole value/placeholder.
-          // Now we rely on the caretRange logic above. If it fails (e.g. placeholder), we show nothing,
-          // which is better than showing the entire placeholder text.
-        }
-      }
-
-      setHoveredText(foundText);
+      setLoupeText(getText(e.clientX, e.clientY));
     };
 
     window.addEventListener('mousemove', handleGlobalMouseMove);
     return () => window.removeEventListener('mousemove', handleGlobalMouseMove);
-  }, [settings.isLoupeActive]);
+  }, [settings.isLoupeActive, settings.loupeMode]);
+
+  // The keyboard caret drives the magnifier too; whichever moved last wins
+  useEffect(() => {
+    if (!loupeAnchor || !settings.isLoupeActive || settings.loupeMode === LoupeMode.REGION) return;
+    const getText = settings.loupeMode === LoupeMode.LINE ? getLineAt : getWordAt;
+    setLoupeText(getText(loupeAnchor.x, loupeAnchor.y));
+  }, [loupeAnchor, settings.isLoupeActive, settings.loupeMode]);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-
-    setAnnotations({});
-    setHighlights({});
+    // Allow re-selecting the same file later
+    e.target.value = '';
 
     const fileType = file.type;
     const fileName = file.name.toLowerCase();
@@ -138,37 +279,148 @@ const App: React.FC = () => {
       fileName.endsWith('.docx')
     ) {
       handleDocxUpload(file);
+    } else if (fileType === 'application/epub+zip' || fileName.endsWith('.epub')) {
+      handleEpubUpload(file);
+    } else if (fileType === 'text/markdown' || /\.(md|markdown)$/.test(fileName)) {
+      handleMarkdownUpload(file);
+    } else if (fileType === 'text/html' || /\.(html?|xhtml)$/.test(fileName)) {
+      handleHtmlUpload(file);
+    } else if (fileType.startsWith('image/') || /\.(png|jpe?g|tiff?)$/.test(fileName)) {
+      handleImageUpload(file);
     } else {
       const reader = new FileReader();
       reader.onload = (event) => {
         const text = event.target?.result;
         if (typeof text === 'string') {
-          setContent(text);
-          window.scrollTo(0, 0);
+          openNewDocument(file, DocumentFormat.TEXT, { blocks: textToBlocks(text) });
         }
       };
       reader.readAsText(file);
     }
   };
 
+  // Show a freshly extracted document and add it to the library
+  const openNewDocument = (file: File, format: DocumentFormat, extracted: ExtractedDocument) => {
+    const now = Date.now();
+    const doc: LibraryDocument = {
+      id: now.toString(),
+      title: extracted.title || file.name.replace(/\.[^.]+$/, '') || file.name,
+      format,
+      blocks: extracted.blocks,
+      chapters: extracted.chapters || [],
+      notes: [],
+      highlights: {},
+      lastParagraphIndex: null,
+      lastScrollPosition: null,
+      readingStats: EMPTY_READING_STATS,
+      createdAt: now,
+      updatedAt: now,
+    };
+    loadDocument(doc);
+    saveDocument(doc).catch(err => {
+      console.error("Error saving document:", err);
+      alert("Could not save document to the library.");
+    });
+    if (extracted.warnings && extracted.warnings.length > 0) {
+      alert(extracted.warnings.join('\n'));
+    }
+  };
+
+  const loadDocument = (doc: LibraryDocument) => {
+    // Notes and highlights of the previous document can't be restored into this one
+    setHistory(keepSettingsHistory);
+    setDocumentId(doc.id);
+    setDocumentTitle(doc.title);
+    setNotes(reanchorNotes(doc.notes, doc.blocks, doc.highlights).notes);
+    setHighlights(doc.highlights);
+    setInitialParagraphIndex(doc.lastParagraphIndex);
+    setLastParagraphIndex(doc.lastParagraphIndex);
+    setInitialScrollPosition(doc.lastScrollPosition);
+    setLastScrollPosition(doc.lastScrollPosition);
+    setReadingStats(doc.readingStats);
+    setBlocks(doc.blocks);
+    setChapters(doc.chapters);
+  };
+
+  const recordReading = useCallback((words: number, ms: number) => {
+    setReadingStats(prev => ({ wordsRead: prev.wordsRead + words, activeMs: prev.activeMs + ms }));
+  }, []);
+
+  const handleOpenFromLibrary = (doc: LibraryDocument) => {
+    loadDocument(doc);
+    setIsLibraryOpen(false);
+  };
+
+  // Deleting the open document leaves its text on screen but detaches it from storage
+  const handleDocumentDeleted = (id: string) => {
+    if (id === documentId) setDocumentId(null);
+  };
+
+  const handleDocumentRenamed = (id: string, title: string) => {
+    if (id === documentId) setDocumentTitle(title);
+  };
+
+  // Saves first, so the library lists the latest note and highlight counts
+  const handleOpenLibrary = () => {
+    flushPendingSave();
+    setIsLibraryOpen(true);
+  };
+
+  const handleCloseLibrary = useCallback(() => setIsLibraryOpen(false), []);
+
+  const handleCloseExport = useCallback(() => setIsExportOpen(false), []);
+
+  const handleCloseThemeEditor = useCallback(() => setIsThemeEditorOpen(false), []);
+  const handleCloseTypography = useCallback(() => setIsTypographyOpen(false), []);
+  const handleCloseProfileManager = useCallback(() => setIsProfileManagerOpen(false), []);
+  const handleCloseShortcuts = useCallback(() => setIsShortcutsOpen(false), []);
+  const handleCloseHistory = useCallback(() => setIsHistoryOpen(false), []);
+
+  // Merge a JSON backup into the open document without duplicating what's already there
+  const handleImportAnnotations = (imported: AnnotationImport) => {
+    // Highlights that are already here keep their id, and notes on them follow it
+    const existingIds: Record<string, string> = {};
+    const added: Record<number, Highlight[]> = {};
+    Object.entries(imported.highlights).forEach(([key, list]) => {
+      const index = Number(key);
+      list.forEach(h => {
+        const existing = (highlights[index] || []).find(c => c.start === h.start && c.end === h.end);
+        if (existing) existingIds[h.id] = existing.id;
+        else added[index] = [...(added[index] || []), h];
+      });
+    });
+    const nextHighlights = { ...highlights };
+    Object.entries(added).forEach(([key, list]) => {
+      nextHighlights[Number(key)] = [...(nextHighlights[Number(key)] || []), ...list];
+    });
+    const nextNotes = mergeNotes(notes, imported.notes.map(note =>
+      note.highlightId && existingIds[note.highlightId] ? { ...note, highlightId: existingIds[note.highlightId] } : note
+    ));
+    commitChange({ notes: nextNotes, highlights: nextHighlights }, 'Imported notes and highlights');
+    // Categories from the backup that aren't here yet, matched by id
+    setHighlightCategories(prev => [
+      ...prev,
+      ...imported.categories.filter(category => !prev.some(c => c.id === category.id)),
+    ]);
+  };
+
   const handlePdfUpload = (file: File) => {
     const reader = new FileReader();
     reader.onload = async (event) => {
       const arrayBuffer = event.target?.result;
       if (window.pdfjsLib && arrayBuffer) {
         try {
+          reportProgress('Opening PDF...', 0);
           const loadingTask = window.pdfjsLib.getDocument(arrayBuffer);
           const pdf = await loadingTask.promise;
-          let fullText = '';
-          for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map((item: any) => item.str).join(' ');
-            fullText += pageText + '\n\n';
-          }
-          setContent(fullText);
-          window.scrollTo(0, 0);
+          const extracted = await extractPdfDocument(pdf, {
+            ocrLanguage: settings.ocrLanguage,
+            onProgress: reportProgress,
+          });
+          setImportStatus(null);
+          openNewDocument(file, DocumentFormat.PDF, extracted);
         } catch (error) {
+          setImportStatus(null);
           console.error("Error reading PDF:", error);
           alert("Could not read PDF file.");
         }
@@ -183,11 +435,10 @@ const App: React.FC = () => {
     const reader = new FileReader();
     reader.onload = (event) => {
       const arrayBuffer = event.target?.result;
-      if (window.mammoth && arrayBuffer) {
-        window.mammoth.extractRawText({ arrayBuffer: arrayBuffer })
-          .then((result: any) => {
-            setContent(result.value);
-            window.scrollTo(0, 0);
+      if (window.mammoth && arrayBuffer instanceof ArrayBuffer) {
+        extractDocxBlocks(arrayBuffer)
+          .then((extracted) => {
+            openNewDocument(file, DocumentFormat.DOCX, { blocks: extracted });
           })
           .catch((err: any) => {
             console.error("Error reading Word file:", err);
@@ -200,56 +451,305 @@ const App: React.FC = () => {
     reader.readAsArrayBuffer(file);
   };
 
-  const updateAnnotation = (index: number, text: string) => {
-    setAnnotations(prev => ({ ...prev, [index]: text }));
+  const handleEpubUpload = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const arrayBuffer = event.target?.result;
+      if (window.JSZip && arrayBuffer instanceof ArrayBuffer) {
+        extractEpub(arrayBuffer)
+          .then((extracted) => {
+            openNewDocument(file, DocumentFormat.EPUB, extracted);
+          })
+          .catch((err: any) => {
+            console.error("Error reading EPUB file:", err);
+            alert("Could not read EPUB file.");
+          });
+      } else {
+        alert("EPUB library not loaded yet.");
+      }
+    };
+    reader.readAsArrayBuffer(file);
   };
 
-  const addHighlight = (index: number, start: number, end: number, text: string) => {
-    setHighlights(prev => {
-      const current = prev[index] || [];
-      return {
-        ...prev,
-        [index]: [...current, { start, end, text, id: Date.now().toString() }]
+  const handleMarkdownUpload = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = event.target?.result;
+      if (window.marked && window.DOMPurify && typeof text === 'string') {
+        try {
+          openNewDocument(file, DocumentFormat.MARKDOWN, { blocks: extractMarkdownBlocks(text) });
+        } catch (error) {
+          console.error("Error reading Markdown file:", error);
+          alert("Could not read Markdown file.");
+        }
+      } else {
+        alert("Markdown library not loaded yet.");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleHtmlUpload = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = event.target?.result;
+      if (window.DOMPurify && typeof text === 'string') {
+        try {
+          openNewDocument(file, DocumentFormat.HTML, extractHtmlDocument(text));
+        } catch (error) {
+          console.error("Error reading HTML file:", error);
+          alert("Could not read HTML file.");
+        }
+      } else {
+        alert("HTML sanitizer not loaded yet.");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleImageUpload = async (file: File) => {
+    if (!window.Tesseract) {
+      alert("OCR library not loaded yet.");
+      return;
+    }
+    if (/\.tiff?$/i.test(file.name) && !window.UTIF) {
+      alert("TIFF library not loaded yet.");
+      return;
+    }
+    try {
+      const extracted = await extractImageDocument(file, settings.ocrLanguage, reportProgress);
+      setImportStatus(null);
+      openNewDocument(file, DocumentFormat.IMAGE, extracted);
+    } catch (error) {
+      setImportStatus(null);
+      console.error("Error reading image:", error);
+      alert("Could not recognize text in this image.");
+    }
+  };
+
+  // Creates, edits or (once emptied) removes the note on a paragraph or on one of its highlights.
+  // Each call carries the note's whole text, so when several come in one event (dictation)
+  // the last one, built on the others, is what is kept.
+  const updateNote = (paragraph: number, highlightId: string | undefined, changes: Partial<Pick<Note, 'text' | 'tags'>>) => {
+    const highlight = highlightId ? highlights[paragraph]?.find(h => h.id === highlightId) : undefined;
+    const existing = findNote(notes, paragraph, highlightId);
+    const note: Note = {
+      ...(existing || createNote(blocks, paragraph, highlight)),
+      ...changes,
+      ...getNoteAnchor(blocks, paragraph, highlight),
+      updatedAt: Date.now(),
+    };
+    const isEmpty = !note.text.trim() && note.tags.length === 0;
+    if (isEmpty && !existing) return;
+    const next = isEmpty
+      ? notes.filter(n => n !== existing)
+      : existing ? notes.map(n => (n === existing ? note : n)) : [...notes, note];
+    const target = `note on ${highlight ? 'a highlight in ' : ''}paragraph ${paragraph + 1}`;
+    // Keystrokes in one note become a single undo step
+    commitChange({ notes: next }, `${isEmpty ? 'Deleted' : 'Edited'} ${target}`, `note:${paragraph}:${highlightId ?? ''}`);
+  };
+
+
+  // A selection across paragraphs becomes one highlight per paragraph, grouped so they act as one
+  const addHighlight = (ranges: HighlightRange[], categoryId: string) => {
+    if (ranges.length === 0) return;
+    const id = Date.now().toString();
+    const groupId = ranges.length > 1 ? id : undefined;
+    const next = { ...highlights };
+    ranges.forEach((range, i) => {
+      const highlight: Highlight = {
+        start: range.start,
+        end: range.end,
+        text: blocks[range.index].text.slice(range.start, range.end),
+        id: groupId ? `${id}-${i}` : id,
+        createdAt: Number(id),
+        categoryId,
+        groupId,
       };
+      next[range.index] = [...(next[range.index] || []), highlight];
+    });
+    const first = ranges[0].index + 1;
+    const last = ranges[ranges.length - 1].index + 1;
+    commitChange({ highlights: next }, `Highlighted ${first === last ? `paragraph ${first}` : `paragraphs ${first}–${last}`}`);
+  };
+
+  // Deletes several notes and highlights in one go. Highlights across paragraphs go as a
+  // whole, and notes on removed highlights go with them.
+  const removeAnnotations = (noteIds: string[], highlightIds: string[]) => {
+    const removed = getHighlightGroupIds(highlights, highlightIds);
+    const nextHighlights: Record<number, Highlight[]> = {};
+    Object.entries(highlights).forEach(([key, list]: [string, Highlight[]]) => {
+      nextHighlights[Number(key)] = list.filter(h => !removed.includes(h.id));
     });
+    const count = noteIds.length + highlightIds.length;
+    const label = count > 1
+      ? `Deleted ${count} notes and highlights`
+      : noteIds.length > 0 ? 'Deleted a note' : 'Removed a highlight';
+    commitChange({
+      notes: notes.filter(n => !noteIds.includes(n.id) && !(n.highlightId && removed.includes(n.highlightId))),
+      highlights: nextHighlights,
+    }, label);
   };
 
   const removeHighlight = (paragraphIndex: number, id: string) => {
-     setHighlights(prev => {
-      const current = prev[paragraphIndex] || [];
-      return {
-        ...prev,
-        [paragraphIndex]: current.filter(h => h.id !== id)
-      };
-     });
+    removeAnnotations([], [id]);
   };
 
+  // A highlight across paragraphs changes category as a whole
+  const changeHighlightCategory = (paragraphIndex: number, id: string, categoryId: string) => {
+    const ids = getHighlightGroupIds(highlights, [id]);
+    const next: Record<number, Highlight[]> = {};
+    Object.entries(highlights).forEach(([key, list]: [string, Highlight[]]) => {
+      next[Number(key)] = list.map(h => (ids.includes(h.id) ? { ...h, categoryId } : h));
+    });
+    commitChange({ highlights: next }, `Changed highlight to “${getHighlightCategory(highlightCategories, categoryId).name}”`);
+  };
+
+  // CSS variables consumed by the custom theme classes
+  const themeColors = resolveThemeColors(settings);
+
   return (
-    <div className={`h-screen flex flex-col transition-colors duration-300 overflow-hidden ${THEME_STYLES[settings.theme]}`}>
+    <div
+      className={`h-screen flex flex-col transition-colors duration-300 overflow-hidden ${THEME_STYLES[settings.theme]} ${settings.theme === ThemeMode.CUSTOM ? 'theme-custom' : ''}`}
+      style={getThemeVariables(themeColors)}
+    >
+      {/* Floating lens, or a docked panel that takes space above the text */}
+      <Loupe
+        content={loupeText}
+        theme={settings.theme}
+        mode={settings.loupeMode}
+        zoom={settings.loupeZoom}
+        size={settings.loupeSize}
+        isDocked={settings.isLoupeDocked}
+        visible={settings.isLoupeActive}
+        anchor={loupeAnchor}
+      />
+
       <div className="flex-1 overflow-hidden relative">
         <Reader 
-          content={content} 
+          blocks={blocks}
+          chapters={chapters}
           settings={settings} 
-          onUpdateSettings={setSettings}
-          annotations={annotations}
-          onUpdateAnnotation={updateAnnotation}
+          onUpdateSettings={updateSettings}
+          notes={notes}
+          onUpdateNote={updateNote}
+          onRemoveAnnotations={removeAnnotations}
           highlights={highlights}
           onAddHighlight={addHighlight}
           onRemoveHighlight={removeHighlight}
+          onChangeHighlightCategory={changeHighlightCategory}
+          highlightCategories={highlightCategories}
+          onUpdateHighlightCategories={setHighlightCategories}
+          initialParagraphIndex={initialParagraphIndex}
+          initialScrollPosition={initialScrollPosition}
+          onActiveParagraphChange={setLastParagraphIndex}
+          onScrollPositionChange={setLastScrollPosition}
+          readingStats={readingStats}
+          onRecordReading={recordReading}
+          onCaretMove={setLoupeAnchor}
+          onUndo={undo}
+          onRedo={redo}
         />
       </div>
       
-      <Loupe 
-        activeText={hoveredText} 
-        theme={settings.theme} 
-        visible={settings.isLoupeActive && !!hoveredText}
-      />
 
       <Toolbar 
         settings={settings} 
-        onUpdateSettings={setSettings} 
+        onUpdateSettings={updateSettings} 
         onFileUpload={handleFileUpload}
+        onOpenLibrary={handleOpenLibrary}
+        onOpenExport={() => setIsExportOpen(true)}
+        onOpenThemeEditor={() => setIsThemeEditorOpen(true)}
+        onOpenTypography={() => setIsTypographyOpen(open => !open)}
+        profiles={profileStore.profiles}
+        activeProfileId={profileStore.activeProfileId}
+        onSwitchProfile={handleSwitchProfile}
+        onOpenProfiles={() => setIsProfileManagerOpen(true)}
+        onOpenShortcuts={() => setIsShortcutsOpen(true)}
+        undoLabel={history.past[history.past.length - 1]?.label}
+        redoLabel={history.future[0]?.label}
+        onUndo={undo}
+        onRedo={redo}
+        onOpenHistory={() => setIsHistoryOpen(true)}
       />
+
+      {importStatus && (
+        <ImportProgress
+          message={importStatus.message}
+          progress={importStatus.progress}
+          theme={settings.theme}
+        />
+      )}
+
+      {isLibraryOpen && (
+        <Library
+          theme={settings.theme}
+          currentDocumentId={documentId}
+          onOpenDocument={handleOpenFromLibrary}
+          onDocumentDeleted={handleDocumentDeleted}
+          onDocumentRenamed={handleDocumentRenamed}
+          onClose={handleCloseLibrary}
+        />
+      )}
+
+      {isExportOpen && (
+        <ExportDialog
+          theme={settings.theme}
+          themeColors={themeColors}
+          fontFamily={settings.fontFamily}
+          title={documentTitle}
+          blocks={blocks}
+          notes={notes}
+          highlights={highlights}
+          highlightCategories={highlightCategories}
+          onImport={handleImportAnnotations}
+          onClose={handleCloseExport}
+        />
+      )}
+
+      {isThemeEditorOpen && (
+        <ThemeEditor
+          settings={settings}
+          onUpdateSettings={updateSettings}
+          onClose={handleCloseThemeEditor}
+        />
+      )}
+
+      {isTypographyOpen && (
+        <TypographyPanel
+          settings={settings}
+          onUpdateSettings={updateSettings}
+          onClose={handleCloseTypography}
+        />
+      )}
+
+      {isProfileManagerOpen && (
+        <ProfileManager
+          settings={settings}
+          profiles={profileStore.profiles}
+          activeProfileId={profileStore.activeProfileId}
+          onSwitchProfile={handleSwitchProfile}
+          onUpdateProfiles={handleUpdateProfiles}
+          onClose={handleCloseProfileManager}
+        />
+      )}
+
+      {isShortcutsOpen && (
+        <ShortcutsDialog
+          settings={settings}
+          onUpdateSettings={updateSettings}
+          onClose={handleCloseShortcuts}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <HistoryDialog
+          theme={settings.theme}
+          history={history}
+          onMove={moveHistory}
+          onClose={handleCloseHistory}
+        />
+      )}
     </div>
   );
 };
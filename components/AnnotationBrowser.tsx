@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { Highlight, HighlightCategory, Note } from '../types';
+import {
+  AnnotationItem,
+  AnnotationKind,
+  AnnotationSort,
+  ANNOTATION_SORTS,
+  collectAnnotations,
+  filterAnnotations,
+  sortAnnotations,
+} from '../services/annotations';
+
+interface AnnotationBrowserProps {
+  notes: Note[];
+  highlights: Record<number, Highlight[]>;
+  categories: HighlightCategory[];
+  hiddenCategoryIds: string[]; // Categories hidden by the highlight legend
+  onJump: (index: number) => void;
+  onDelete: (noteIds: string[], highlightIds: string[]) => void;
+  getMarkStyle: (colorId: string) => React.CSSProperties;
+  fieldClass: string; // Themed classes for inputs and selects
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatParagraphs = (paragraphs: number[]) => {
+  const first = paragraphs[0] + 1;
+  const last = paragraphs[paragraphs.length - 1] + 1;
+  return first === last ? `¶${first}` : `¶${first}–${last}`;
+};
+
+// Every note and highlight in the document, with filtering, sorting and bulk delete
+const AnnotationBrowser: React.FC<AnnotationBrowserProps> = ({
+  notes,
+  highlights,
+  categories,
+  hiddenCategoryIds,
+  onJump,
+  onDelete,
+  getMarkStyle,
+  fieldClass,
+}) => {
+  const [query, setQuery] = useState('');
+  const [kind, setKind] = useState<AnnotationKind | 'all'>('all');
+  const [sort, setSort] = useState<AnnotationSort>('document');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const items = useMemo(
+    () => collectAnnotations(notes, highlights, categories),
+    [notes, highlights, categories]
+  );
+  const visible = useMemo(
+    () => items.filter(item => !item.category || !hiddenCategoryIds.includes(item.category.id)),
+    [items, hiddenCategoryIds]
+  );
+  const shown = useMemo(
+    () => sortAnnotations(filterAnnotations(visible, query, kind), sort),
+    [visible, query, kind, sort]
+  );
+  // Selections stay while filtering, but only what is shown gets deleted
+  const selectedShown = shown.filter(item => selected.includes(item.key));
+  const isAllSelected = shown.length > 0 && selectedShown.length === shown.length;
+
+  const toggleItem = (key: string) => {
+    setSelected(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const toggleAll = () => {
+    const keys = shown.map(item => item.key);
+    setSelected(prev => isAllSelected ? prev.filter(k => !keys.includes(k)) : [...new Set([...prev, ...keys])]);
+  };
+
+  const handleDelete = () => {
+    const count = selectedShown.length;
+    if (!window.confirm(`Delete ${count} selected ${count === 1 ? 'item' : 'items'}? You can undo this from History.`)) return;
+    onDelete(
+      selectedShown.flatMap(item => item.noteId ? [item.noteId] : []),
+      selectedShown.flatMap(item => item.highlightId ? [item.highlightId] : [])
+    );
+    setSelected(prev => prev.filter(k => !selectedShown.some(item => item.key === k)));
+  };
+
+  const renderLabel = (item: AnnotationItem) => item.kind === 'note'
+    ? <span className="truncate">📝 {item.quote ? `Note on “${item.quote}”` : 'Note'}</span>
+    : <mark className="px-1 rounded-sm" style={getMarkStyle(item.category!.color)}>{item.category!.name}</mark>;
+
+  return (
+    <section aria-labelledby="annotation-browser-heading" className="w-full flex flex-col gap-3 text-sm">
+      <h3 id="annotation-browser-heading" className="border-b border-current pb-2 font-bold">
+        Notes & highlights <span className="font-normal opacity-70">({items.length})</span>
+      </h3>
+
+      {items.length === 0 ? (
+        <p className="opacity-70">Nothing yet. Click a paragraph to write a note, or turn on Marker Mode to highlight text.</p>
+      ) : (
+        <>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter by text, category or #tag"
+            className={`w-full p-2 rounded border text-sm ${fieldClass}`}
+            aria-label="Filter notes and highlights"
+          />
+          <div className="flex gap-2">
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as AnnotationKind | 'all')}
+              className={`flex-1 min-w-0 p-2 rounded border text-sm appearance-none cursor-pointer ${fieldClass}`}
+              aria-label="Show"
+            >
+              <option value="all">Notes and highlights</option>
+              <option value="note">Notes only</option>
+              <option value="highlight">Highlights only</option>
+            </select>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as AnnotationSort)}
+              className={`flex-1 min-w-0 p-2 rounded border text-sm appearance-none cursor-pointer ${fieldClass}`}
+              aria-label="Sort by"
+            >
+              {ANNOTATION_SORTS.map(s => (
+                <option key={s.id} value={s.id}>{s.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 cursor-pointer opacity-80 hover:opacity-100">
+              <input
+                type="checkbox"
+                checked={isAllSelected}
+                onChange={toggleAll}
+                disabled={shown.length === 0}
+                className="w-4 h-4 rounded"
+              />
+              Select all shown
+            </label>
+            <button
+              onClick={handleDelete}
+              disabled={selectedShown.length === 0}
+              className="ms-auto px-3 py-1 rounded border border-current font-medium text-red-500 opacity-80 hover:opacity-100 disabled:opacity-30"
+            >
+              Delete selected{selectedShown.length > 0 ? ` (${selectedShown.length})` : ''}
+            </button>
+          </div>
+
+          {visible.length < items.length && (
+            <p className="text-xs opacity-70">{items.length - visible.length} hidden by the highlight legend</p>
+          )}
+
+          {shown.length === 0 ? (
+            <p className="opacity-70">Nothing matches the filter.</p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {shown.map(item => (
+                <li key={item.key} className="flex flex-wrap items-start gap-x-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(item.key)}
+                    onChange={() => toggleItem(item.key)}
+                    className="w-4 h-4 rounded mt-2"
+                    aria-label={`Select ${item.kind} in ${formatParagraphs(item.paragraphs)}`}
+                  />
+                  <button
+                    onClick={() => onJump(item.paragraphs[0])}
+                    className="flex-1 min-w-0 p-2 rounded text-start hover:bg-current/5 focus:bg-current/5"
+                    title="Scroll to this paragraph"
+                  >
+                    <span className="flex items-center gap-2 text-xs opacity-80">
+                      <span className="font-mono">{formatParagraphs(item.paragraphs)}</span>
+                      {renderLabel(item)}
+                      {item.time !== undefined && <span className="ms-auto opacity-70">{formatTime(item.time)}</span>}
+                    </span>
+                    <span className={`block mt-1 line-clamp-3 ${item.kind === 'highlight' ? 'italic' : ''}`}>
+                      {item.kind === 'highlight' ? `“${item.text}”` : item.text}
+                    </span>
+                  </button>
+                  {item.tags.length > 0 && (
+                    <span className="basis-full ps-6 flex flex-wrap gap-1">
+                      {item.tags.map(tag => (
+                        <button
+                          key={tag}
+                          onClick={() => setQuery(`#${tag}`)}
+                          className="px-2 rounded-full border border-current text-xs opacity-70 hover:opacity-100"
+                          title={`Show everything tagged ${tag}`}
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default AnnotationBrowser;
@@ -0,0 +1,123 @@
+import React from 'react';
+import { ThemeMode, KeyBindings } from '../types';
+import { MIN_AUTO_SCROLL_WPM, MAX_AUTO_SCROLL_WPM } from '../services/autoScroll';
+import { getShortcutHint } from '../services/shortcuts';
+
+interface AutoScrollControlsProps {
+  theme: ThemeMode;
+  wordsPerMinute: number;
+  isPaused: boolean;
+  isHeld: boolean; // Pointer is resting on the text
+  isGuideVisible: boolean;
+  keyBindings: KeyBindings; // For the key hints in tooltips
+  onTogglePause: () => void;
+  onSlower: () => void;
+  onFaster: () => void;
+  onToggleGuide: () => void;
+  onStop: () => void;
+}
+
+const AutoScrollControls: React.FC<AutoScrollControlsProps> = ({
+  theme,
+  wordsPerMinute,
+  isPaused,
+  isHeld,
+  isGuideVisible,
+  keyBindings,
+  onTogglePause,
+  onSlower,
+  onFaster,
+  onToggleGuide,
+  onStop
+}) => {
+  const getPanelClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-800 border border-gray-600 text-gray-100';
+      case ThemeMode.SEPIA: return 'bg-[#eaddc5] border border-[#d8cba8] text-[#3e3025]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-900';
+    }
+  };
+
+  const getPrimaryButtonClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-yellow-400 text-black';
+      case ThemeMode.SEPIA: return 'bg-[#5b4636] text-[#f4ecd8]';
+      case ThemeMode.INK: return 'bg-black text-white';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-accent)] text-[var(--theme-background)] hover:opacity-90';
+      default: return 'bg-blue-600 text-white hover:bg-blue-700';
+    }
+  };
+
+  const getStatus = () => {
+    if (isPaused) return 'Paused · Space to resume';
+    if (isHeld) return 'Holding while the pointer is on the text';
+    return 'Scrolling';
+  };
+
+  const stepButtonClass = 'w-8 h-8 flex items-center justify-center rounded border border-current font-bold opacity-80 hover:opacity-100 disabled:opacity-30';
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Auto-scroll"
+      className={`absolute top-10 right-6 z-[60] p-3 rounded-xl shadow-2xl flex flex-col gap-2 ${getPanelClass()}`}
+    >
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onTogglePause}
+          className={`w-10 h-8 rounded font-bold transition-colors ${getPrimaryButtonClass()}`}
+          title={`${isPaused ? 'Resume' : 'Pause'}${getShortcutHint(keyBindings, 'autoScrollPause')}`}
+          aria-label={isPaused ? 'Resume auto-scroll' : 'Pause auto-scroll'}
+        >
+          {isPaused ? '▶' : '⏸'}
+        </button>
+        <button
+          onClick={onSlower}
+          disabled={wordsPerMinute <= MIN_AUTO_SCROLL_WPM}
+          className={stepButtonClass}
+          title={`Slower${getShortcutHint(keyBindings, 'autoScrollSlower')}`}
+          aria-label="Slower"
+        >
+          −
+        </button>
+        <span className="min-w-[6rem] text-center font-mono text-sm font-bold" aria-live="polite">
+          {wordsPerMinute} wpm
+        </span>
+        <button
+          onClick={onFaster}
+          disabled={wordsPerMinute >= MAX_AUTO_SCROLL_WPM}
+          className={stepButtonClass}
+          title={`Faster${getShortcutHint(keyBindings, 'autoScrollFaster')}`}
+          aria-label="Faster"
+        >
+          +
+        </button>
+        <button
+          onClick={onStop}
+          className="p-1 opacity-60 hover:opacity-100"
+          title={`Stop auto-scroll${getShortcutHint(keyBindings, 'autoScrollStop')}`}
+          aria-label="Stop auto-scroll"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+      <div className="flex items-center justify-between gap-4 text-xs">
+        <span className="opacity-70" aria-live="polite">{getStatus()}</span>
+        <label className="flex items-center gap-1 cursor-pointer opacity-80 hover:opacity-100 font-medium">
+          <input
+            type="checkbox"
+            checked={isGuideVisible}
+            onChange={onToggleGuide}
+            className="w-3.5 h-3.5 rounded accent-current"
+          />
+          Guide line
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default AutoScrollControls;
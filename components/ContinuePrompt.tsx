@@ -0,0 +1,72 @@
+import React, { useEffect, useRef } from 'react';
+import { ThemeMode } from '../types';
+
+interface ContinuePromptProps {
+  theme: ThemeMode;
+  description: string; // Where reading would continue, e.g. "Paragraph 12 · 35%"
+  onContinue: () => void;
+  onStartOver: () => void;
+}
+
+const ContinuePrompt: React.FC<ContinuePromptProps> = ({ theme, description, onContinue, onStartOver }) => {
+  const continueRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    continueRef.current?.focus();
+  }, []);
+
+  const getPanelClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-800 border border-gray-600 text-gray-100';
+      case ThemeMode.SEPIA: return 'bg-[#eaddc5] border border-[#d8cba8] text-[#3e3025]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-blue-200 text-gray-900';
+    }
+  };
+
+  const getPrimaryButtonClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-yellow-400 text-black';
+      case ThemeMode.SEPIA: return 'bg-[#5b4636] text-[#f4ecd8]';
+      case ThemeMode.INK: return 'bg-black text-white';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-accent)] text-[var(--theme-background)] hover:opacity-90';
+      default: return 'bg-blue-600 text-white hover:bg-blue-700';
+    }
+  };
+
+  return (
+    <div
+      role="alertdialog"
+      aria-labelledby="continue-title"
+      aria-describedby="continue-description"
+      className={`absolute top-12 left-1/2 -translate-x-1/2 z-[60] w-[min(90%,32rem)] p-4 rounded-xl shadow-2xl flex flex-wrap items-center gap-4 ${getPanelClass()}`}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onStartOver();
+      }}
+    >
+      <div className="flex-1 min-w-[12rem]">
+        <p id="continue-title" className="font-bold">Continue where you left off?</p>
+        <p id="continue-description" className="text-sm opacity-70">{description}</p>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={onStartOver}
+          className="px-3 py-2 rounded-lg border border-current font-medium opacity-70 hover:opacity-100"
+        >
+          Start over
+        </button>
+        <button
+          ref={continueRef}
+          onClick={onContinue}
+          className={`px-4 py-2 rounded-lg font-bold transition-colors ${getPrimaryButtonClass()}`}
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ContinuePrompt;
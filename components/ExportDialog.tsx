@@ -0,0 +1,186 @@
+import React, { useEffect, useRef } from 'react';
+import { Block, Highlight, HighlightCategory, Note, ThemeMode, ThemeColors, FontFamily } from '../types';
+import {
+  DigestSource,
+  AnnotationImport,
+  buildMarkdownDigest,
+  buildJsonExport,
+  buildPrintableHtml,
+  parseJsonExport,
+  downloadFile,
+  printHtml,
+  toFileName,
+} from '../services/exporter';
+import { FONT_STACKS } from '../constants';
+import { countHighlights } from '../services/highlights';
+
+interface ExportDialogProps {
+  theme: ThemeMode;
+  themeColors: ThemeColors; // Concrete colours for the printable page
+  fontFamily: FontFamily;
+  title: string;
+  blocks: Block[];
+  notes: Note[];
+  highlights: Record<number, Highlight[]>;
+  highlightCategories: HighlightCategory[];
+  onImport: (imported: AnnotationImport) => void;
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  theme,
+  themeColors,
+  fontFamily,
+  title,
+  blocks,
+  notes,
+  highlights,
+  highlightCategories,
+  onImport,
+  onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const source: DigestSource = { title, blocks, notes, highlights, categories: highlightCategories };
+  const fileName = toFileName(title);
+  const noteCount = source.notes.filter(note => note.text.trim() || note.tags.length > 0).length;
+  const highlightCount = countHighlights(source.highlights);
+
+  const printFont = FONT_STACKS[fontFamily] || FONT_STACKS.sans;
+
+  const handlePrint = () => {
+    try {
+      printHtml(buildPrintableHtml(source, themeColors, printFont));
+    } catch (error) {
+      console.error("Error opening print view:", error);
+      alert("Could not open the print view. Please allow pop-ups for this page.");
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = event.target?.result;
+      if (typeof text !== 'string') return;
+      try {
+        const imported = parseJsonExport(text, blocks);
+        if (!imported.documentMatches && !window.confirm(
+          "These notes were exported from a different version of this document. Import the ones that can be matched?"
+        )) return;
+        onImport(imported);
+        if (imported.dropped > 0) {
+          alert(`${imported.dropped} note(s) or highlight(s) could not be matched to this document and were skipped.`);
+        }
+      } catch (error) {
+        console.error("Error importing notes:", error);
+        alert(error instanceof Error ? error.message : "Could not import notes.");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const getPanelClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-900 border border-gray-700 text-gray-200';
+      case ThemeMode.SEPIA: return 'bg-[#f4ecd8] border border-[#d8cba8] text-[#5b4636]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-800';
+    }
+  };
+
+  const optionClass = 'w-full p-4 rounded-lg border border-current border-opacity-20 text-left hover:border-opacity-100 transition-colors';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-title"
+        className={`w-full max-w-lg max-h-[80vh] flex flex-col rounded-xl shadow-2xl ${getPanelClass()}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-current border-opacity-20">
+          <div>
+            <h2 id="export-title" className="text-xl font-bold">Export Notes</h2>
+            <p className="text-xs opacity-60 mt-1">{title} · {noteCount} notes · {highlightCount} highlights</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 opacity-60 hover:opacity-100"
+            aria-label="Close Export"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          <button
+            onClick={() => downloadFile(`${fileName}-notes.md`, buildMarkdownDigest(source), 'text/markdown')}
+            className={optionClass}
+          >
+            <span className="font-bold block">Markdown study digest</span>
+            <span className="text-sm opacity-70">Highlights and notes with their paragraph for context.</span>
+          </button>
+          <button
+            onClick={handlePrint}
+            className={optionClass}
+          >
+            <span className="font-bold block">Print</span>
+            <span className="text-sm opacity-70">Printable page in the current theme, or save it as PDF.</span>
+          </button>
+          <button
+            onClick={() => downloadFile(`${fileName}-notes.html`, buildPrintableHtml(source, themeColors, printFont), 'text/html')}
+            className={optionClass}
+          >
+            <span className="font-bold block">HTML page</span>
+            <span className="text-sm opacity-70">The printable page as a standalone file.</span>
+          </button>
+          <button
+            onClick={() => downloadFile(`${fileName}-notes.json`, buildJsonExport(source), 'application/json')}
+            className={optionClass}
+          >
+            <span className="font-bold block">JSON backup</span>
+            <span className="text-sm opacity-70">Can be imported again into this document later.</span>
+          </button>
+        </div>
+
+        <div className="p-6 border-t border-current border-opacity-20 flex items-center justify-between gap-4">
+          <p className="text-sm opacity-70">Restore notes and highlights from a JSON backup.</p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-sm px-3 py-2 rounded border border-current font-medium opacity-80 hover:opacity-100 whitespace-nowrap"
+          >
+            Import JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { HighlightCategory } from '../types';
+import { HIGHLIGHT_COLORS } from '../constants';
+
+interface HighlightLegendProps {
+  categories: HighlightCategory[];
+  counts: Record<string, number>; // Highlights per category in the open document
+  hiddenCategoryIds: string[];
+  onToggleCategory: (id: string) => void;
+  onUpdateCategories: (categories: HighlightCategory[]) => void;
+  getMarkStyle: (colorId: string) => React.CSSProperties; // Same look as highlights in the text
+  fieldClass: string; // Themed classes for inputs and selects
+}
+
+// What each highlight colour means, which ones are shown, and editing the categories
+const HighlightLegend: React.FC<HighlightLegendProps> = ({
+  categories,
+  counts,
+  hiddenCategoryIds,
+  onToggleCategory,
+  onUpdateCategories,
+  getMarkStyle,
+  fieldClass,
+}) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(HIGHLIGHT_COLORS[0].id);
+
+  const updateCategory = (id: string, changes: Partial<HighlightCategory>) => {
+    onUpdateCategories(categories.map(c => (c.id === id ? { ...c, ...changes } : c)));
+  };
+
+  const handleRename = (category: HighlightCategory, input: HTMLInputElement) => {
+    const trimmed = input.value.trim();
+    if (!trimmed) input.value = category.name;
+    else if (trimmed !== category.name) updateCategory(category.id, { name: trimmed });
+  };
+
+  const handleDelete = (category: HighlightCategory) => {
+    const remaining = categories.filter(c => c.id !== category.id);
+    if (!window.confirm(`Delete the category "${category.name}"? Its highlights will show as "${remaining[0].name}".`)) return;
+    onUpdateCategories(remaining);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onUpdateCategories([...categories, { id: `category-${Date.now()}`, name: trimmed, color }]);
+    setName('');
+  };
+
+  return (
+    <div className="mb-4 px-1 flex flex-col gap-2 text-sm">
+      <h3 className="font-bold opacity-80">Highlight legend</h3>
+      <ul className="flex flex-col gap-1" aria-label="Show highlights by category">
+        {categories.map(category => (
+          <li key={category.id}>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!hiddenCategoryIds.includes(category.id)}
+                onChange={() => onToggleCategory(category.id)}
+                className="w-4 h-4 rounded"
+              />
+              <mark className="px-1 rounded-sm" style={getMarkStyle(category.color)}>{category.name}</mark>
+              <span className="ms-auto text-xs opacity-60">{counts[category.id] || 0}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <details>
+        <summary className="cursor-pointer font-bold opacity-80">Edit categories</summary>
+        <ul className="mt-2 flex flex-col gap-2">
+          {categories.map(category => (
+            <li key={category.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                defaultValue={category.name}
+                onBlur={(e) => handleRename(category, e.target)}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className={`flex-1 min-w-0 p-1 rounded border text-sm ${fieldClass}`}
+                aria-label={`Name of ${category.name}`}
+              />
+              <select
+                value={category.color}
+                onChange={(e) => updateCategory(category.id, { color: e.target.value })}
+                className={`p-1 rounded border text-sm appearance-none cursor-pointer ${fieldClass}`}
+                aria-label={`Colour of ${category.name}`}
+              >
+                {HIGHLIGHT_COLORS.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleDelete(category)}
+                disabled={categories.length === 1}
+                className="px-1 opacity-50 hover:opacity-100 disabled:opacity-20"
+                aria-label={`Delete category ${category.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={handleAdd} className="mt-2 flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Key date"
+            className={`flex-1 min-w-0 p-1 rounded border text-sm ${fieldClass}`}
+            aria-label="New category name"
+          />
+          <select
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            className={`p-1 rounded border text-sm appearance-none cursor-pointer ${fieldClass}`}
+            aria-label="New category colour"
+          >
+            {HIGHLIGHT_COLORS.map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+          <button type="submit" className="px-3 py-1 rounded border border-current font-medium opacity-80 hover:opacity-100">
+            Add
+          </button>
+        </form>
+        <p className="mt-1 text-xs opacity-60">Categories are shared by all your documents.</p>
+      </details>
+    </div>
+  );
+};
+
+export default HighlightLegend;
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef } from 'react';
+import { ThemeMode } from '../types';
+import { HistoryEntry, HistoryStack } from '../services/history';
+
+interface HistoryDialogProps {
+  theme: ThemeMode;
+  history: HistoryStack;
+  onMove: (steps: number) => void; // Negative undoes, positive redoes
+  onClose: () => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString(undefined, { timeStyle: 'short' });
+
+// Changes to notes, highlights and settings, newest first. Choosing one undoes
+// everything after it, or redoes everything up to it.
+const HistoryDialog: React.FC<HistoryDialogProps> = ({ theme, history, onMove, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const { past, future } = history;
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const getPanelClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-900 border border-gray-700 text-gray-200';
+      case ThemeMode.SEPIA: return 'bg-[#f4ecd8] border border-[#d8cba8] text-[#5b4636]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-800';
+    }
+  };
+
+  // Steps from the current state to just after `entry`
+  const renderEntry = (entry: HistoryEntry, steps: number) => {
+    const isUndone = steps > 0;
+    const isCurrent = steps === 0;
+    return (
+      <li key={entry.id}>
+        <button
+          onClick={() => onMove(steps)}
+          disabled={isCurrent}
+          aria-current={isCurrent ? 'step' : undefined}
+          className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-start hover:bg-current/5 focus:bg-current/5 ${isCurrent ? 'font-bold border border-current' : ''} ${isUndone ? 'opacity-60' : ''}`}
+          title={isCurrent ? 'The current state' : isUndone ? `Redo up to here (${steps})` : `Undo back to here (${-steps})`}
+        >
+          <span className={`flex-1 ${isUndone ? 'line-through' : ''}`}>{entry.label}</span>
+          {isUndone && <span className="text-xs">Undone</span>}
+          <span className="text-xs opacity-70 font-normal">{formatTime(entry.time)}</span>
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-title"
+        className={`w-full max-w-lg max-h-[90vh] flex flex-col rounded-xl shadow-2xl outline-none ${getPanelClass()}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-current border-opacity-20">
+          <h2 id="history-title" className="text-xl font-bold">History</h2>
+          <button
+            onClick={onClose}
+            className="p-1 opacity-60 hover:opacity-100"
+            aria-label="Close History"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-4">
+          <p className="text-sm opacity-80">
+            Choose a change to go back to just after it. Undone changes can be redone until you make a new one.
+            Typing in a note counts as one change until you pause.
+          </p>
+
+          {past.length === 0 && future.length === 0 ? (
+            <p className="opacity-70">No changes yet.</p>
+          ) : (
+            <ol className="flex flex-col gap-1">
+              {future.map((entry, i) => renderEntry(entry, i + 1)).reverse()}
+              {past.map((entry, i) => renderEntry(entry, i - past.length + 1)).reverse()}
+              <li>
+                <button
+                  onClick={() => onMove(-past.length)}
+                  disabled={past.length === 0}
+                  aria-current={past.length === 0 ? 'step' : undefined}
+                  className={`w-full px-3 py-2 rounded-lg text-start italic hover:bg-current/5 focus:bg-current/5 ${past.length === 0 ? 'font-bold border border-current' : 'opacity-80'}`}
+                >
+                  Before these changes
+                </button>
+              </li>
+            </ol>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2 p-6 border-t border-current border-opacity-20">
+          <button
+            onClick={() => onMove(-1)}
+            disabled={past.length === 0}
+            className="px-4 py-2 rounded-lg border border-current font-medium opacity-80 hover:opacity-100 disabled:opacity-30"
+          >
+            Undo
+          </button>
+          <button
+            onClick={() => onMove(1)}
+            disabled={future.length === 0}
+            className="px-4 py-2 rounded-lg border border-current font-medium opacity-80 hover:opacity-100 disabled:opacity-30"
+          >
+            Redo
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-current font-medium opacity-80 hover:opacity-100"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDialog;
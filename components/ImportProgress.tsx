@@ -0,0 +1,58 @@
+import React from 'react';
+import { ThemeMode } from '../types';
+
+interface ImportProgressProps {
+  message: string;
+  progress: number; // 0 - 1
+  theme: ThemeMode;
+}
+
+const ImportProgress: React.FC<ImportProgressProps> = ({ message, progress, theme }) => {
+  const percent = Math.round(Math.min(Math.max(progress, 0), 1) * 100);
+
+  const getPanelClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-800 border border-gray-600 text-gray-100';
+      case ThemeMode.SEPIA: return 'bg-[#eaddc5] border border-[#d8cba8] text-[#3e3025]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-900';
+    }
+  };
+
+  const getBarClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-yellow-400';
+      case ThemeMode.SEPIA: return 'bg-[#5b4636]';
+      case ThemeMode.INK: return 'bg-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-accent)]';
+      default: return 'bg-blue-600';
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={`fixed top-6 left-1/2 -translate-x-1/2 z-50 w-[min(90vw,28rem)] p-4 rounded-xl shadow-2xl ${getPanelClass()}`}
+    >
+      <div className="flex items-center justify-between gap-4 mb-2 text-sm font-bold">
+        <span className="truncate">{message}</span>
+        <span className="font-mono">{percent}%</span>
+      </div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-label={message}
+        className="h-2 rounded-full bg-current/20 overflow-hidden"
+      >
+        <div className={`h-full transition-all duration-200 ${getBarClass()}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default ImportProgress;
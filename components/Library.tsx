@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { LibraryDocument, ThemeMode } from '../types';
+import { listDocuments, updateDocument, deleteDocument } from '../services/library';
+import { countHighlights } from '../services/highlights';
+
+interface LibraryProps {
+  theme: ThemeMode;
+  currentDocumentId: string | null;
+  onOpenDocument: (doc: LibraryDocument) => void;
+  onDocumentDeleted: (id: string) => void;
+  onDocumentRenamed: (id: string, title: string) => void;
+  onClose: () => void;
+}
+
+const Library: React.FC<LibraryProps> = ({
+  theme,
+  currentDocumentId,
+  onOpenDocument,
+  onDocumentDeleted,
+  onDocumentRenamed,
+  onClose
+}) => {
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = async () => {
+    try {
+      setDocuments(await listDocuments());
+      setError('');
+    } catch (err) {
+      console.error("Error loading library:", err);
+      setError('Could not load the library.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && renamingId === null) onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose, renamingId]);
+
+  const startRename = (doc: LibraryDocument) => {
+    setRenamingId(doc.id);
+    setRenameValue(doc.title);
+  };
+
+  // Enter commits and the blur that follows would too, so the edit ends before saving
+  const commitRename = async () => {
+    if (renamingId === null) return;
+    const id = renamingId;
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (!title) return;
+    try {
+      await updateDocument(id, { title });
+      onDocumentRenamed(id, title);
+      await refresh();
+    } catch (err) {
+      console.error("Error renaming document:", err);
+      setError('Could not rename the document.');
+    }
+  };
+
+  const handleDelete = async (doc: LibraryDocument) => {
+    if (!window.confirm(`Delete "${doc.title}" and all its notes and highlights?`)) return;
+    try {
+      await deleteDocument(doc.id);
+      onDocumentDeleted(doc.id);
+      await refresh();
+    } catch (err) {
+      console.error("Error deleting document:", err);
+      setError('Could not delete the document.');
+    }
+  };
+
+  const getPanelClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-900 border border-gray-700 text-gray-200';
+      case ThemeMode.SEPIA: return 'bg-[#f4ecd8] border border-[#d8cba8] text-[#5b4636]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-800';
+    }
+  };
+
+  const getInputClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-gray-900 text-yellow-400 border-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-800 text-white border-gray-600';
+      case ThemeMode.SEPIA: return 'bg-[#fffdf5] text-[#463529] border-[#d8cba8]';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] text-[var(--theme-text)] border-[var(--theme-accent)] placeholder-current';
+      default: return 'bg-white text-gray-900 border-gray-300';
+    }
+  };
+
+  const countNotes = (doc: LibraryDocument) =>
+    doc.notes.filter(note => note.text.trim() || note.tags.length > 0).length;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="library-title"
+        className={`w-full max-w-2xl max-h-[80vh] flex flex-col rounded-xl shadow-2xl ${getPanelClass()}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-current border-opacity-20">
+          <h2 id="library-title" className="text-xl font-bold">Library</h2>
+          <button
+            onClick={onClose}
+            className="p-1 opacity-60 hover:opacity-100"
+            aria-label="Close Library"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {isLoading && <p className="opacity-60 text-center">Loading...</p>}
+          {error && <p className="text-red-500 text-center">{error}</p>}
+          {!isLoading && !error && documents.length === 0 && (
+            <p className="opacity-60 text-center">No documents yet. Open a file to add it to your library.</p>
+          )}
+
+          <ul className="space-y-3">
+            {documents.map(doc => (
+              <li
+                key={doc.id}
+                className={`p-4 rounded-lg border flex items-center gap-4 ${doc.id === currentDocumentId ? 'border-current' : 'border-current border-opacity-20'}`}
+              >
+                <span className="text-xs font-mono font-bold uppercase opacity-60 w-10">{doc.format}</span>
+
+                <div className="flex-1 min-w-0">
+                  {renamingId === doc.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className={`w-full p-1 rounded border font-bold ${getInputClass()}`}
+                      aria-label="Document title"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => onOpenDocument(doc)}
+                      className="font-bold text-left truncate w-full hover:underline"
+                      title={`Open ${doc.title}`}
+                    >
+                      {doc.title}
+                    </button>
+                  )}
+                  <p className="text-xs opacity-60 mt-1">
+                    {new Date(doc.updatedAt).toLocaleString()} · {countNotes(doc)} notes · {countHighlights(doc.highlights)} highlights
+                  </p>
+                </div>
+
+                <button
+                  onClick={() => startRename(doc)}
+                  className="text-sm px-2 py-1 rounded border border-current opacity-60 hover:opacity-100"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleDelete(doc)}
+                  className="text-sm px-2 py-1 rounded border border-red-500 text-red-500 opacity-80 hover:opacity-100"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Library;
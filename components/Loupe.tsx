@@ -1,15 +1,39 @@
-import React, { useEffect, useState } from 'react';
-import { ThemeMode } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ThemeMode, LoupeMode } from '../types';
+import { LoupeText } from '../services/loupe';
+import { getTextDirection } from '../services/language';
+
+// Page snapshots for region magnification (CDN)
+declare global {
+  interface Window {
+    html2canvas: any;
+  }
+}
 
 interface LoupeProps {
-  activeText: string;
+  content: LoupeText | null; // Word or line under the pointer (word and line modes)
   theme: ThemeMode;
+  mode: LoupeMode;
+  zoom: number;
+  size: number; // Lens size in px; height of the docked panel
+  isDocked: boolean;
   visible: boolean;
+  anchor?: { x: number; y: number } | null; // Keyboard caret position; the pointer takes over when it moves
 }
 
-const Loupe: React.FC<LoupeProps> = ({ activeText, theme, visible }) => {
+const OFFSET = 20;
+const BASE_FONT_PX = 14; // Magnified text size is this times the zoom factor
+const LINE_LENS_RATIO = 2.5; // Line mode lens is this many times wider than tall
+const SNAPSHOT_DELAY_MS = 400; // Quiet time after scrolling or DOM changes before re-capturing
+
+const Loupe: React.FC<LoupeProps> = ({ content, theme, mode, zoom, size, isDocked, visible, anchor }) => {
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [windowSize, setWindowSize] = useState({ width: 0, height: 0 });
+  const [snapshotVersion, setSnapshotVersion] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const snapshotRef = useRef<{ canvas: HTMLCanvasElement; scale: number } | null>(null);
+
+  const isRegion = mode === LoupeMode.REGION;
 
   useEffect(() => {
     // Initial size
@@ -31,55 +55,196 @@ const Loupe: React.FC<LoupeProps> = ({ activeText, theme, visible }) => {
     };
   }, []);
 
-  if (!visible || !activeText) return null;
+  useEffect(() => {
+    if (anchor) setPosition(anchor);
+  }, [anchor]);
+
+  // Region mode magnifies a snapshot of the rendered page, re-captured once the page settles
+  useEffect(() => {
+    if (!visible || !isRegion) return;
+    if (!window.html2canvas) {
+      console.error('Region magnifier unavailable: html2canvas did not load.');
+      return;
+    }
+
+    let timer: number | null = null;
+    let isCancelled = false;
+    const scale = window.devicePixelRatio || 1;
+
+    const capture = async () => {
+      try {
+        const canvas = await window.html2canvas(document.body, {
+          backgroundColor: null,
+          logging: false,
+          scale,
+          x: window.scrollX,
+          y: window.scrollY,
+          width: window.innerWidth,
+          height: window.innerHeight,
+          ignoreElements: (el: Element) => el.hasAttribute('data-loupe'),
+        });
+        if (isCancelled) return;
+        snapshotRef.current = { canvas, scale };
+        setSnapshotVersion(v => v + 1);
+      } catch (error) {
+        console.error('Failed to capture the page for the magnifier:', error);
+      }
+    };
+
+    const scheduleCapture = () => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(capture, SNAPSHOT_DELAY_MS);
+    };
+
+    // The lens itself changes on every pointer move and html2canvas adds a temporary
+    // iframe while capturing; only other changes make the snapshot stale
+    const isSnapshotFrame = (node: Node) =>
+      node instanceof HTMLIFrameElement && node.classList.contains('html2canvas-container');
+    const observer = new MutationObserver(records => {
+      const isStale = records.some(record => {
+        if (record.type === 'childList' &&
+            [...Array.from(record.addedNodes), ...Array.from(record.removedNodes)].every(isSnapshotFrame)) {
+          return false;
+        }
+        const target = record.target instanceof Element ? record.target : record.target.parentElement;
+        return !target?.closest('[data-loupe]');
+      });
+      if (isStale) scheduleCapture();
+    });
+    observer.observe(document.body, { subtree: true, childList: true, characterData: true, attributes: true });
+    window.addEventListener('scroll', scheduleCapture, true);
+    window.addEventListener('resize', scheduleCapture);
+    capture();
+
+    return () => {
+      isCancelled = true;
+      if (timer !== null) window.clearTimeout(timer);
+      observer.disconnect();
+      window.removeEventListener('scroll', scheduleCapture, true);
+      window.removeEventListener('resize', scheduleCapture);
+      snapshotRef.current = null;
+    };
+  }, [visible, isRegion]);
+
+  // Geometry of the lens, or of the docked panel
+  const lensWidth = isDocked
+    ? windowSize.width
+    : mode === LoupeMode.LINE ? Math.min(size * LINE_LENS_RATIO, windowSize.width - OFFSET * 2) : size;
+  const lensHeight = mode === LoupeMode.LINE && !isDocked ? Math.round(size / 2) : size;
+
+  // Draw the magnified part of the snapshot centred on the pointer
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const snapshot = snapshotRef.current;
+    if (!isRegion || !canvas || !snapshot) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const sourceWidth = lensWidth / zoom;
+    const sourceHeight = lensHeight / zoom;
+    const sx = (position.x - sourceWidth / 2) * snapshot.scale;
+    const sy = (position.y - sourceHeight / 2) * snapshot.scale;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(
+      snapshot.canvas,
+      sx, sy, sourceWidth * snapshot.scale, sourceHeight * snapshot.scale,
+      0, 0, canvas.width, canvas.height
+    );
+  }, [isRegion, position, snapshotVersion, lensWidth, lensHeight, zoom]);
 
-  // Configuration for size and offset
-  const LOUPE_SIZE = 256; // 16rem
-  const OFFSET = 20;
+  if (!visible) return null;
+  // The docked panel stays in place while empty so the text below doesn't jump
+  if (!isDocked && !isRegion && !content) return null;
+
+  // Visual styles for the lens
+  const isHighContrast = theme === ThemeMode.HIGH_CONTRAST;
+  const isCustom = theme === ThemeMode.CUSTOM;
+
+  let lensClass = 'bg-white border-4 border-gray-300 text-gray-900 shadow-2xl';
+  if (isHighContrast) lensClass = 'bg-black border-4 border-yellow-400 text-yellow-400 shadow-[0_0_0_2px_rgba(0,0,0,1)]';
+  if (isCustom) lensClass = 'bg-[var(--theme-background)] border-4 border-[var(--theme-accent)] text-[var(--theme-text)] shadow-2xl';
+
+  const fontSize = `${BASE_FONT_PX * zoom}px`;
+
+  const renderContent = () => {
+    if (isRegion) {
+      return (
+        <canvas
+          ref={canvasRef}
+          width={Math.round(lensWidth)}
+          height={Math.round(lensHeight)}
+          className="block w-full h-full"
+        />
+      );
+    }
+    if (!content) {
+      return <p className="text-lg opacity-60">Point at text to magnify it</p>;
+    }
+    if (mode === LoupeMode.LINE) {
+      // The word under the pointer stays centred; the rest of the line runs off both edges
+      return (
+        <div className="flex w-full items-center font-bold leading-tight" style={{ fontSize }} lang={content.language} dir={getTextDirection(content.language)}>
+          <div className="flex flex-1 min-w-0 justify-end overflow-hidden">
+            <span className="whitespace-pre flex-shrink-0 opacity-70">{content.before}</span>
+          </div>
+          <span className="whitespace-pre flex-shrink-0 underline decoration-4 underline-offset-4">{content.word}</span>
+          <div className="flex flex-1 min-w-0 justify-start overflow-hidden">
+            <span className="whitespace-pre flex-shrink-0 opacity-70">{content.after}</span>
+          </div>
+        </div>
+      );
+    }
+    return (
+      <div className="p-6 text-center break-words w-full" lang={content.language} dir={getTextDirection(content.language)}>
+        <p className="font-bold leading-tight" style={{ fontSize }}>
+          {content.word}
+        </p>
+      </div>
+    );
+  };
+
+  if (isDocked) {
+    return (
+      <div
+        data-loupe
+        aria-hidden="true"
+        className={`flex-shrink-0 w-full z-[100] pointer-events-none flex items-center justify-center overflow-hidden !border-x-0 !border-t-0 !shadow-md ${lensClass}`}
+        style={{ height: size }}
+      >
+        {renderContent()}
+      </div>
+    );
+  }
 
   // Calculate position logic to stay on screen
   let left = position.x + OFFSET;
   let top = position.y + OFFSET;
 
   // If going off right edge, flip to left of cursor
-  if (left + LOUPE_SIZE > windowSize.width) {
-    left = position.x - LOUPE_SIZE - OFFSET;
+  if (left + lensWidth > windowSize.width) {
+    left = Math.max(0, position.x - lensWidth - OFFSET);
   }
 
   // If going off bottom edge, flip to above cursor
-  if (top + LOUPE_SIZE > windowSize.height) {
-    top = position.y - LOUPE_SIZE - OFFSET;
+  if (top + lensHeight > windowSize.height) {
+    top = Math.max(0, position.y - lensHeight - OFFSET);
   }
 
-  // Visual styles for the lens
-  const isHighContrast = theme === ThemeMode.HIGH_CONTRAST;
-  
-  const containerStyle = {
-    left: left,
-    top: top,
-  };
-
-  const lensClass = isHighContrast 
-    ? 'bg-black border-4 border-yellow-400 text-yellow-400 shadow-[0_0_0_2px_rgba(0,0,0,1)]' 
-    : 'bg-white border-4 border-gray-300 text-gray-900 shadow-2xl';
-
   return (
     <div
-      className={`fixed z-[100] w-64 h-64 rounded-full pointer-events-none flex items-center justify-center overflow-hidden ${lensClass}`}
-      style={containerStyle}
+      data-loupe
+      aria-hidden="true"
+      className={`fixed z-[100] pointer-events-none flex items-center justify-center overflow-hidden ${mode === LoupeMode.LINE ? 'rounded-3xl' : 'rounded-full'} ${lensClass}`}
+      style={{ left, top, width: lensWidth, height: lensHeight }}
     >
       {/* Glass reflection effect */}
-      {!isHighContrast && (
+      {!isHighContrast && !isCustom && !isRegion && (
         <div className="absolute top-4 left-4 w-16 h-8 bg-white opacity-20 rounded-full blur-sm transform -rotate-45"></div>
       )}
-      
-      <div className="p-6 text-center break-words w-full">
-        <p className="text-4xl font-bold leading-tight">
-          {activeText}
-        </p>
-      </div>
+
+      {renderContent()}
     </div>
   );
 };
 
-export default Loupe;
\ No newline at end of file
+export default Loupe;
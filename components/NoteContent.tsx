@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { Block, BlockType, InlineSpan } from '../types';
+import { parseNoteText } from '../services/notes';
+
+interface NoteContentProps {
+  text: string; // Markdown
+}
+
+const renderSpans = (block: Block) =>
+  (block.spans || [{ text: block.text }]).map((span: InlineSpan, i) => {
+    let node: React.ReactNode = span.text;
+    if (span.code) node = <code className="font-mono text-[0.9em] px-1 rounded bg-current/10">{node}</code>;
+    if (span.bold) node = <strong>{node}</strong>;
+    if (span.italic) node = <em>{node}</em>;
+    if (span.href) {
+      node = <a href={span.href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2">{node}</a>;
+    }
+    return <React.Fragment key={i}>{node}</React.Fragment>;
+  });
+
+// A note's formatted text. Consecutive list items are grouped into one list.
+const NoteContent: React.FC<NoteContentProps> = ({ text }) => {
+  const blocks = useMemo(() => parseNoteText(text), [text]);
+  const nodes: React.ReactNode[] = [];
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    if (block.type === BlockType.LIST_ITEM) {
+      const items: Block[] = [];
+      while (i < blocks.length && blocks[i].type === BlockType.LIST_ITEM && !!blocks[i].ordered === !!block.ordered) {
+        items.push(blocks[i++]);
+      }
+      i--;
+      const List = block.ordered ? 'ol' : 'ul';
+      nodes.push(
+        <List key={i} className={`${block.ordered ? 'list-decimal' : 'list-disc'} ps-5`}>
+          {items.map((item, j) => (
+            <li key={j} value={item.number} style={{ marginInlineStart: `${(item.level || 0) * 1.25}em` }}>
+              {renderSpans(item)}
+            </li>
+          ))}
+        </List>
+      );
+    } else if (block.type === BlockType.CODE) {
+      nodes.push(<pre key={i} className="font-mono text-[0.9em] whitespace-pre-wrap">{block.text}</pre>);
+    } else if (block.type === BlockType.QUOTE) {
+      nodes.push(<blockquote key={i} className="border-s-4 border-current border-opacity-30 ps-3 italic">{renderSpans(block)}</blockquote>);
+    } else if (block.type !== BlockType.TABLE && block.type !== BlockType.IMAGE) {
+      nodes.push(<p key={i} className={block.type === BlockType.HEADING ? 'font-bold' : ''}>{renderSpans(block)}</p>);
+    }
+  }
+
+  // pre-line keeps line breaks within a paragraph
+  return <div dir="auto" className="flex flex-col gap-2 leading-relaxed whitespace-pre-line">{nodes}</div>;
+};
+
+export default NoteContent;
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import NoteContent from './NoteContent';
+import { addTag } from '../services/notes';
+
+interface NoteEditorProps {
+  id?: string; // For a <label htmlFor> outside the editor
+  label?: string; // Accessible name when there is no outside label
+  text: string;
+  tags: string[];
+  onChange: (changes: { text?: string; tags?: string[] }) => void;
+  fieldClass: string; // Themed classes for inputs and textareas
+  placeholder?: string;
+  rows?: number;
+  readOnly?: boolean; // e.g. while dictation shows words that aren't recognised yet
+}
+
+// Markdown note field with a formatting toolbar, a preview and tags
+const NoteEditor: React.FC<NoteEditorProps> = ({
+  id,
+  label,
+  text,
+  tags,
+  onChange,
+  fieldClass,
+  placeholder,
+  rows = 6,
+  readOnly = false,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isPreview, setIsPreview] = useState(false);
+  const [tagDraft, setTagDraft] = useState('');
+
+  // Replaces the selection with `replace(selected)` and selects `select` within the result
+  const editSelection = (replace: (selected: string) => string, select?: (inserted: string) => [number, number]) => {
+    const el = textareaRef.current;
+    if (!el || readOnly) return;
+    const { selectionStart: start, selectionEnd: end } = el;
+    const inserted = replace(text.slice(start, end));
+    onChange({ text: text.slice(0, start) + inserted + text.slice(end) });
+    const [from, to] = select ? select(inserted) : [inserted.length, inserted.length];
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(start + from, start + to);
+    });
+  };
+
+  const wrap = (before: string, after: string, fallback: string) => {
+    editSelection(
+      selected => `${before}${selected || fallback}${after}`,
+      inserted => [before.length, inserted.length - after.length]
+    );
+  };
+
+  // Starts every selected line (or the current one) with a list marker
+  const makeList = (marker: (n: number) => string) => {
+    const el = textareaRef.current;
+    if (!el || readOnly) return;
+    el.setSelectionRange(text.lastIndexOf('\n', el.selectionStart - 1) + 1, el.selectionEnd);
+    editSelection(selected => selected.split('\n').map((line, i) => marker(i + 1) + line).join('\n'));
+  };
+
+  const addLink = () => {
+    const url = window.prompt('Link address', 'https://');
+    if (url && url.trim() !== 'https://') wrap('[', `](${url.trim()})`, 'link text');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return;
+    const key = e.key.toLowerCase();
+    if (key === 'b') wrap('**', '**', 'bold text');
+    else if (key === 'i') wrap('*', '*', 'italic text');
+    else if (key === 'k') addLink();
+    else return;
+    e.preventDefault();
+  };
+
+  const commitTag = () => {
+    const next = addTag(tags, tagDraft);
+    if (next !== tags) onChange({ tags: next });
+    setTagDraft('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitTag();
+    } else if (e.key === 'Backspace' && !tagDraft && tags.length > 0) {
+      onChange({ tags: tags.slice(0, -1) });
+    }
+  };
+
+  const toolButtonClass = 'px-2 py-1 rounded border border-current opacity-70 hover:opacity-100 disabled:opacity-30 min-w-[2rem]';
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-1 text-xs" role="toolbar" aria-label="Formatting">
+        <button onClick={() => wrap('**', '**', 'bold text')} disabled={isPreview} className={`${toolButtonClass} font-bold`} title="Bold (Ctrl+B)">B</button>
+        <button onClick={() => wrap('*', '*', 'italic text')} disabled={isPreview} className={`${toolButtonClass} italic`} title="Italic (Ctrl+I)">I</button>
+        <button onClick={() => makeList(() => '- ')} disabled={isPreview} className={toolButtonClass} title="Bulleted list">•</button>
+        <button onClick={() => makeList(n => `${n}. `)} disabled={isPreview} className={toolButtonClass} title="Numbered list">1.</button>
+        <button onClick={addLink} disabled={isPreview} className={toolButtonClass} title="Link (Ctrl+K)">🔗</button>
+        <button
+          onClick={() => setIsPreview(!isPreview)}
+          aria-pressed={isPreview}
+          className={`ms-auto ${toolButtonClass} ${isPreview ? 'opacity-100 font-bold' : ''}`}
+        >
+          Preview
+        </button>
+      </div>
+
+      {isPreview ? (
+        <div className={`w-full p-4 rounded-lg border text-base min-h-[6rem] ${fieldClass}`} aria-label={label}>
+          {text.trim() ? <NoteContent text={text} /> : <p className="opacity-60">Nothing to preview.</p>}
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          id={id}
+          aria-label={label}
+          dir="auto"
+          className={`w-full p-4 rounded-lg border text-base focus:outline-none focus:ring-2 transition-colors shadow-inner ${fieldClass}`}
+          rows={rows}
+          placeholder={placeholder}
+          value={text}
+          readOnly={readOnly}
+          onChange={(e) => onChange({ text: e.target.value })}
+          onKeyDown={handleKeyDown}
+        />
+      )}
+
+      <div className={`flex flex-wrap items-center gap-1 p-2 rounded-lg border text-xs ${fieldClass}`}>
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 px-2 rounded-full border border-current">
+            #{tag}
+            <button
+              onClick={() => onChange({ tags: tags.filter(t => t !== tag) })}
+              className="opacity-60 hover:opacity-100"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={tagDraft}
+          onChange={(e) => setTagDraft(e.target.value)}
+          onKeyDown={handleTagKeyDown}
+          onBlur={commitTag}
+          placeholder={tags.length === 0 ? 'Add tags, e.g. exam' : 'Add tag'}
+          className="flex-1 min-w-[6rem] bg-transparent focus:outline-none"
+          aria-label={label ? `Tags for ${label.toLowerCase()}` : 'Tags'}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default NoteEditor;
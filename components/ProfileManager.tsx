@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReaderSettings, SettingsProfile, ThemeMode, DEFAULT_SETTINGS } from '../types';
+import { PROFILE_TEMPLATES } from '../constants';
+import { createProfile, getUniqueProfileName, buildProfileExport, parseProfileExport } from '../services/profiles';
+import { downloadFile, toFileName } from '../services/exporter';
+
+interface ProfileManagerProps {
+  settings: ReaderSettings;
+  profiles: SettingsProfile[];
+  activeProfileId: string;
+  onSwitchProfile: (profile: SettingsProfile) => void;
+  onUpdateProfiles: (profiles: SettingsProfile[]) => void;
+  onClose: () => void;
+}
+
+const ProfileManager: React.FC<ProfileManagerProps> = ({
+  settings,
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onUpdateProfiles,
+  onClose
+}) => {
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  // Close on Escape (unless a rename is being cancelled)
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !renamingId) onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose, renamingId]);
+
+  const addProfile = (profile: SettingsProfile, activate: boolean) => {
+    onUpdateProfiles([...profiles, profile]);
+    if (activate) onSwitchProfile(profile);
+  };
+
+  const handleSaveCurrent = () => {
+    const name = getUniqueProfileName(newName.trim() || 'My profile', profiles);
+    addProfile(createProfile(name, settings), true);
+    setNewName('');
+  };
+
+  const handleAddTemplate = (template: typeof PROFILE_TEMPLATES[number]) => {
+    const name = getUniqueProfileName(template.name, profiles);
+    addProfile(createProfile(name, { ...DEFAULT_SETTINGS, ...template.settings }), true);
+  };
+
+  const handleDuplicate = (profile: SettingsProfile) => {
+    addProfile(createProfile(getUniqueProfileName(profile.name, profiles), profile.settings), false);
+  };
+
+  const startRename = (profile: SettingsProfile) => {
+    setRenamingId(profile.id);
+    setRenameValue(profile.name);
+  };
+
+  const commitRename = () => {
+    const name = renameValue.trim();
+    if (renamingId && name) {
+      const others = profiles.filter(profile => profile.id !== renamingId);
+      const unique = getUniqueProfileName(name, others);
+      onUpdateProfiles(profiles.map(profile => profile.id === renamingId ? { ...profile, name: unique } : profile));
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (profile: SettingsProfile) => {
+    if (!window.confirm(`Delete the profile "${profile.name}"?`)) return;
+    onUpdateProfiles(profiles.filter(existing => existing.id !== profile.id));
+  };
+
+  const handleExport = (selected: SettingsProfile[], name: string) => {
+    downloadFile(`${toFileName(name)}.profile.json`, buildProfileExport(selected), 'application/json');
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = event.target?.result;
+      if (typeof text !== 'string') return;
+      try {
+        const imported = parseProfileExport(text);
+        const added: SettingsProfile[] = [];
+        imported.forEach(profile => {
+          added.push({ ...profile, name: getUniqueProfileName(profile.name, [...profiles, ...added]) });
+        });
+        onUpdateProfiles([...profiles, ...added]);
+        // A single handed-over profile is most likely meant to be used straight away
+        if (added.length === 1 && window.confirm(`Switch to the imported profile "${added[0].name}" now?`)) {
+          onSwitchProfile(added[0]);
+        }
+      } catch (error) {
+        console.error("Error importing profile:", error);
+        alert(error instanceof Error ? error.message : "Could not import the profile.");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const getPanelClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-900 border border-gray-700 text-gray-200';
+      case ThemeMode.SEPIA: return 'bg-[#f4ecd8] border border-[#d8cba8] text-[#5b4636]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-800';
+    }
+  };
+
+  const getInputClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-gray-900 text-yellow-400 border-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-800 text-white border-gray-600';
+      case ThemeMode.SEPIA: return 'bg-[#fffdf5] text-[#463529] border-[#d8cba8]';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] text-[var(--theme-text)] border-[var(--theme-accent)]';
+      default: return 'bg-white text-gray-900 border-gray-300';
+    }
+  };
+
+  const getPrimaryButtonClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-yellow-400 text-black';
+      case ThemeMode.SEPIA: return 'bg-[#5b4636] text-[#f4ecd8]';
+      case ThemeMode.INK: return 'bg-black text-white';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-accent)] text-[var(--theme-background)] hover:opacity-90';
+      default: return 'bg-blue-600 text-white hover:bg-blue-700';
+    }
+  };
+
+  const secondaryButtonClass = 'px-2 py-1 rounded border border-current text-xs font-medium opacity-70 hover:opacity-100 disabled:opacity-30';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="profile-manager-title"
+        className={`w-full max-w-2xl max-h-[90vh] flex flex-col rounded-xl shadow-2xl ${getPanelClass()}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-current border-opacity-20">
+          <h2 id="profile-manager-title" className="text-xl font-bold">Settings Profiles</h2>
+          <button
+            onClick={onClose}
+            className="p-1 opacity-60 hover:opacity-100"
+            aria-label="Close Settings Profiles"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-6">
+          {/* Saved profiles */}
+          <ul className="flex flex-col gap-2">
+            {profiles.map(profile => {
+              const isActive = profile.id === activeProfileId;
+              return (
+                <li
+                  key={profile.id}
+                  className={`flex flex-wrap items-center gap-2 p-3 rounded-lg border ${isActive ? 'border-current border-2' : 'border-current border-opacity-20'}`}
+                >
+                  {renamingId === profile.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className={`flex-1 min-w-[8rem] p-1 rounded border ${getInputClass()}`}
+                      aria-label="Profile name"
+                    />
+                  ) : (
+                    <span className="flex-1 min-w-[8rem] font-bold truncate">
+                      {profile.name}
+                      {isActive && <span className="ml-2 text-xs font-medium opacity-70">(active)</span>}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => onSwitchProfile(profile)}
+                    disabled={isActive}
+                    className={secondaryButtonClass}
+                  >
+                    Use
+                  </button>
+                  <button onClick={() => startRename(profile)} className={secondaryButtonClass}>Rename</button>
+                  <button onClick={() => handleDuplicate(profile)} className={secondaryButtonClass}>Duplicate</button>
+                  <button onClick={() => handleExport([profile], profile.name)} className={secondaryButtonClass}>Export</button>
+                  <button
+                    onClick={() => handleDelete(profile)}
+                    disabled={isActive}
+                    className={secondaryButtonClass}
+                    title={isActive ? 'Switch to another profile before deleting this one' : undefined}
+                  >
+                    Delete
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {/* New profile */}
+          <div className="flex flex-col gap-2">
+            <h3 className="text-sm font-bold uppercase tracking-wider opacity-80">New profile</h3>
+            <div className="flex gap-2">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSaveCurrent(); }}
+                placeholder="Profile name"
+                aria-label="New profile name"
+                className={`flex-1 p-2 rounded border ${getInputClass()}`}
+              />
+              <button
+                onClick={handleSaveCurrent}
+                className={`px-4 py-2 rounded-lg font-bold transition-colors ${getPrimaryButtonClass()}`}
+              >
+                Save current settings
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="opacity-70">Or start from:</span>
+              {PROFILE_TEMPLATES.map(template => (
+                <button
+                  key={template.name}
+                  onClick={() => handleAddTemplate(template)}
+                  className="px-3 py-1 rounded-full border border-current opacity-80 hover:opacity-100"
+                >
+                  {template.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 p-6 border-t border-current border-opacity-20">
+          <span className="text-sm opacity-70">Exported profiles can be imported on another device.</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => importRef.current?.click()}
+              className="px-4 py-2 rounded-lg border border-current font-medium opacity-80 hover:opacity-100"
+            >
+              Import…
+            </button>
+            <button
+              onClick={() => handleExport(profiles, 'AccessReader profiles')}
+              className="px-4 py-2 rounded-lg border border-current font-medium opacity-80 hover:opacity-100"
+            >
+              Export all
+            </button>
+          </div>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileManager;
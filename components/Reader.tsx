@@ -1,17 +1,98 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { ReaderSettings, ThemeMode, Highlight } from '../types';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { ReaderSettings, ThemeMode, Highlight, HighlightCategory, Note, Block, BlockType, InlineSpan, Chapter, ScrollPosition, ReadingStats, TextAlign, LoupeMode } from '../types';
+import { FONT_STACKS, RULER_TINTS, HIGHLIGHT_COLORS } from '../constants';
+import { TextRange, getWordRanges, getWordSegments, getSentenceRanges, findRangeAt, findRangeIndexAt } from '../services/text';
+import { detectDocumentLanguages, findVoiceForLanguage, isVoiceForLanguage, getLanguageName, getTextDirection } from '../services/language';
+import { SearchOptions, SearchMatch, DEFAULT_SEARCH_OPTIONS, findMatches, findMatchFrom } from '../services/search';
+import { EMPTY_READING_STATS, getCumulativeWordCounts, getReadingSpeed, isPlausibleReadingSample } from '../services/progress';
+import { AUTO_SCROLL_STEP_WPM, GUIDE_LINE_RATIO, clampAutoScrollSpeed, getPixelsPerWord, getScrollStep } from '../services/autoScroll';
+import SearchBar from './SearchBar';
+import ReadingProgress from './ReadingProgress';
+import ContinuePrompt from './ContinuePrompt';
+import AutoScrollControls from './AutoScrollControls';
+import ReadingRuler from './ReadingRuler';
+import { getCaretAt } from '../services/loupe';
+import { SHORTCUT_COMMANDS, findShortcut, getBindings, formatBinding, getShortcutHint, isTypingTarget } from '../services/shortcuts';
+import { VoiceCommandMatch, resolveVoiceLocale, getVoiceGrammar, matchVoiceCommand, getVoiceResponse, getNotUnderstoodResponse, getHistoryEndResponse, getVoiceExample } from '../services/voiceCommands';
+import { getDictationGrammar, parseDictation, formatDictation, appendDictation, deleteLastWord, deleteLastSentence } from '../services/dictation';
+import VoiceCommandSettings from './VoiceCommandSettings';
+import HighlightLegend from './HighlightLegend';
+import AnnotationBrowser from './AnnotationBrowser';
+import NoteEditor from './NoteEditor';
+import NoteContent from './NoteContent';
+import { findNote } from '../services/notes';
+import { TextPosition, HighlightRange, getHighlightRanges, getHighlightCategory, getHighlightColor, getCoveringHighlights, getHighlightBoundaries, getHighlightKey } from '../services/highlights';
 
 interface ReaderProps {
-  content: string;
+  blocks: Block[];
+  chapters?: Chapter[]; // Table of contents, if the format provides one
   settings: ReaderSettings;
   onUpdateSettings: (s: ReaderSettings) => void;
-  annotations: Record<number, string>;
-  onUpdateAnnotation: (index: number, text: string) => void;
+  notes: Note[];
+  onUpdateNote: (index: number, highlightId: string | undefined, changes: { text?: string; tags?: string[] }) => void; // highlightId undefined: the paragraph's own note
+  onRemoveAnnotations: (noteIds: string[], highlightIds: string[]) => void;
   highlights: Record<number, Highlight[]>;
-  onAddHighlight: (index: number, start: number, end: number, text: string) => void;
-  onRemoveHighlight: (index: number, id: string) => void;
+  onAddHighlight: (ranges: HighlightRange[], categoryId: string) => void;
+  onRemoveHighlight: (index: number, id: string) => void; // Removes the whole highlight if it spans paragraphs
+  onChangeHighlightCategory: (index: number, id: string, categoryId: string) => void;
+  highlightCategories: HighlightCategory[];
+  onUpdateHighlightCategories: (categories: HighlightCategory[]) => void;
+  initialParagraphIndex?: number | null; // Offered for resuming when blocks load
+  initialScrollPosition?: ScrollPosition | null;
+  onActiveParagraphChange?: (index: number | null) => void;
+  onScrollPositionChange?: (position: ScrollPosition) => void;
+  readingStats?: ReadingStats;
+  onRecordReading?: (words: number, ms: number) => void; // A plausible stretch of reading was measured
+  onCaretMove?: (point: { x: number; y: number }) => void; // Viewport centre of the browsing caret, for the magnifier
+  onUndo: () => string | null; // Label of the change taken back, or null if there was none
+  onRedo: () => string | null;
 }
 
+// Word currently being read aloud, as a character range within a block
+interface SpokenWord extends TextRange {
+  index: number;
+}
+
+// Word under the keyboard browsing caret
+interface CaretWord extends TextRange {
+  index: number;
+}
+
+// What was heard last and how the app responded, shown under the microphone button
+interface VoiceFeedback {
+  transcript: string;
+  response: string;
+  isRecognised: boolean;
+}
+
+// Saved position offered by the "continue where you left off" prompt
+interface ResumeOffer {
+  paragraphIndex: number | null;
+  scrollPosition: ScrollPosition | null;
+}
+
+// Where Read Aloud was interrupted, so it can pick up at the same sentence
+interface ResumePoint {
+  index: number;
+  offset: number; // Start of the interrupted sentence
+  continuous: boolean;
+}
+
+// Used to estimate word timing for voices that emit no boundary events
+const ESTIMATED_WORDS_PER_MINUTE = 170;
+const AVERAGE_CHARS_PER_WORD = 6; // Including the following space
+const BOUNDARY_EVENT_GRACE_MS = 600;
+
+// Delay before reporting the scroll position, so scrolling doesn't re-render the app every frame
+const SCROLL_REPORT_DELAY_MS = 300;
+
+// Voice commands are ignored while a confirmation is spoken and briefly after, so the microphone doesn't pick it up
+const VOICE_ECHO_MS = 800;
+const VOICE_ECHO_TIMEOUT_MS = 10000; // In case the confirmation never reports its end
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
 // Polyfill for SpeechRecognition
 declare global {
   interface Window {
@@ -21,56 +102,156 @@ declare global {
 }
 
 const Reader: React.FC<ReaderProps> = ({ 
-  content, 
+  blocks,
+  chapters = [],
   settings, 
   onUpdateSettings,
-  annotations,
-  onUpdateAnnotation,
+  notes,
+  onUpdateNote,
+  onRemoveAnnotations,
   highlights,
   onAddHighlight,
-  onRemoveHighlight
+  onRemoveHighlight,
+  onChangeHighlightCategory,
+  highlightCategories,
+  onUpdateHighlightCategories,
+  initialParagraphIndex = null,
+  initialScrollPosition = null,
+  onActiveParagraphChange,
+  onScrollPositionChange,
+  readingStats = EMPTY_READING_STATS,
+  onRecordReading,
+  onCaretMove,
+  onUndo,
+  onRedo
 }) => {
-  const [paragraphs, setParagraphs] = useState<string[]>([]);
   const [activeParagraphIndex, setActiveParagraphIndex] = useState<number | null>(null);
   const [hoveredParagraphIndex, setHoveredParagraphIndex] = useState<number | null>(null);
   const [isMarkerMode, setIsMarkerMode] = useState(false);
+  const [markerCategoryId, setMarkerCategoryId] = useState(highlightCategories[0]?.id);
+  const [hiddenCategoryIds, setHiddenCategoryIds] = useState<string[]>([]);
+  const [openNoteHighlightId, setOpenNoteHighlightId] = useState<string | null>(null); // Highlight whose note is being edited
   
   // Sidebar State
   const [sidebarWidth, setSidebarWidth] = useState(400);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isDragging, setIsDragging] = useState(false);
+  const [isTocOpen, setIsTocOpen] = useState(true);
+
+  // Search State
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [currentMatchIndex, setCurrentMatchIndex] = useState(-1);
+
+  // Reading Position State
+  const [resumeOffer, setResumeOffer] = useState<ResumeOffer | null>(null);
+  const [topParagraphIndex, setTopParagraphIndex] = useState(0);
+  const [isScrolledToEnd, setIsScrolledToEnd] = useState(false);
+  const scrollFrameRef = useRef<number | null>(null);
+  const scrollReportTimerRef = useRef<number | null>(null);
+  const readingSampleRef = useRef<{ paragraphIndex: number; time: number } | null>(null);
+
+  // Auto-Scroll State
+  const [isAutoScrolling, setIsAutoScrolling] = useState(false);
+  const [isAutoScrollPaused, setIsAutoScrollPaused] = useState(false);
+  const autoScrollFrameRef = useRef<number | null>(null);
+
+  // Caret Browsing State
+  const [isCaretBrowsing, setIsCaretBrowsing] = useState(false);
+  const [caret, setCaret] = useState<CaretWord | null>(null);
 
   // TTS State
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [resumePoint, setResumePoint] = useState<ResumePoint | null>(null);
+  const [spokenWord, setSpokenWord] = useState<SpokenWord | null>(null);
+  const currentUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const speechPositionRef = useRef<SpokenWord | null>(null); // Last word reached by speech
+  const pendingStartOffsetRef = useRef(0); // Start offset for the next auto-advanced paragraph
+  const estimatedClockRef = useRef<{ startedAt: number; pausedAt: number | null }>({ startedAt: 0, pausedAt: null });
+  const boundaryGraceTimerRef = useRef<number | null>(null);
+  const estimatedTimingTimerRef = useRef<number | null>(null);
   
   // Voice Control State
   const [isVoiceControlActive, setIsVoiceControlActive] = useState(false);
-  const [lastVoiceCommand, setLastVoiceCommand] = useState<string>('');
+  const [voiceFeedback, setVoiceFeedback] = useState<VoiceFeedback | null>(null);
   const recognitionRef = useRef<any>(null);
+
+  // Dictation into the active paragraph's note. Interim text is previewed until recognition settles.
+  const [isDictating, setIsDictating] = useState(false);
+  const [dictationInterim, setDictationInterim] = useState('');
+  const dictationUndoRef = useRef<string | null>(null); // Note before the last dictated change, for "scratch that"
+  // Note text dictated since `notes` last changed. One recognition event can carry several final
+  // results, and each must build on the one before rather than on the note as last rendered.
+  const dictatedNoteRef = useRef<{ index: number; text: string } | null>(null);
   
   // Ref to track active state for the closure inside onend
   const isVoiceControlActiveRef = useRef(isVoiceControlActive);
+  const isDictatingRef = useRef(isDictating);
 
   // Refs to handle TTS continuity logic without closure staleness
   const isContinuousRef = useRef(false);
   const isAutoAdvancingRef = useRef(false);
 
   const containerRef = useRef<HTMLDivElement>(null);
-  const paragraphRefs = useRef<(HTMLParagraphElement | null)[]>([]);
+  const readingAreaRef = useRef<HTMLDivElement>(null);
+  const paragraphRefs = useRef<(HTMLElement | null)[]>([]);
 
   // Sync isVoiceControlActive state to Ref
   useEffect(() => {
     isVoiceControlActiveRef.current = isVoiceControlActive;
   }, [isVoiceControlActive]);
 
-  // Parse content into paragraphs
   useEffect(() => {
-    const splitText = content.split('\n').filter(line => line.trim().length > 0);
-    setParagraphs(splitText);
-    setActiveParagraphIndex(null); 
-    handleStop(); // Reset speech on content load
-  }, [content]);
+    isDictatingRef.current = isDictating;
+  }, [isDictating]);
+
+  useEffect(() => {
+    dictatedNoteRef.current = null;
+  }, [notes]);
+
+  // Reset reading state when a new document is loaded
+  useEffect(() => {
+    const restored = initialParagraphIndex !== null && initialParagraphIndex < blocks.length
+      ? initialParagraphIndex
+      : null;
+    const scrollPosition = initialScrollPosition && initialScrollPosition.paragraphIndex < blocks.length
+      ? initialScrollPosition
+      : null;
+
+    containerRef.current?.scrollTo({ top: 0, behavior: 'instant' });
+    setTopParagraphIndex(0);
+    setIsScrolledToEnd(false);
+    readingSampleRef.current = null;
+    setIsDictating(false); // Notes belong to the previous document
+    setDictationInterim('');
+
+    // Only ask when there is somewhere further in to go back to
+    const hasProgress = (restored !== null && restored > 0)
+      || (scrollPosition !== null && (scrollPosition.paragraphIndex > 0 || scrollPosition.offset > 0));
+    setActiveParagraphIndex(hasProgress ? null : restored);
+    setResumeOffer(hasProgress ? { paragraphIndex: restored, scrollPosition } : null);
+
+    handleStop(); // Reset speech on document load
+    setResumePoint(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [blocks]);
+
+  // Report the active paragraph so it can be remembered per document
+  // (not while the saved position is still on offer, or it would be overwritten)
+  useEffect(() => {
+    if (resumeOffer) return;
+    onActiveParagraphChange?.(activeParagraphIndex);
+  }, [activeParagraphIndex, onActiveParagraphChange, resumeOffer]);
+
+  // Language of the document and of each block, for word splitting, text direction and voices
+  const languages = useMemo(() => detectDocumentLanguages(blocks), [blocks]);
+  const documentVoices = useMemo(() => {
+    const language = languages.document;
+    return language ? voices.filter(v => isVoiceForLanguage(v, language)) : [];
+  }, [voices, languages]);
 
   // Load Voices
   useEffect(() => {
@@ -85,34 +266,130 @@ const Reader: React.FC<ReaderProps> = ({
 
   // --- TTS Logic ---
 
-  const speakText = (index: number) => {
-    if (index < 0 || index >= paragraphs.length) return;
+  const stopWordTracking = () => {
+    if (boundaryGraceTimerRef.current !== null) {
+      window.clearTimeout(boundaryGraceTimerRef.current);
+      boundaryGraceTimerRef.current = null;
+    }
+    if (estimatedTimingTimerRef.current !== null) {
+      window.clearInterval(estimatedTimingTimerRef.current);
+      estimatedTimingTimerRef.current = null;
+    }
+  };
 
-    window.speechSynthesis.cancel();
-    
-    const text = paragraphs[index];
+  const updateSpokenWord = (index: number, word: TextRange | null) => {
+    if (!word) return;
+    speechPositionRef.current = { index, ...word };
+    setSpokenWord(prev =>
+      prev && prev.index === index && prev.start === word.start ? prev : { index, ...word }
+    );
+  };
+
+  // Advance the highlight by elapsed time, assuming speech proceeds at a steady character rate
+  const startEstimatedTiming = (index: number, words: TextRange[], rate: number, baseOffset: number) => {
+    const msPerChar = 60000 / (ESTIMATED_WORDS_PER_MINUTE * rate * AVERAGE_CHARS_PER_WORD);
+    estimatedTimingTimerRef.current = window.setInterval(() => {
+      const clock = estimatedClockRef.current;
+      const elapsed = (clock.pausedAt ?? performance.now()) - clock.startedAt;
+      updateSpokenWord(index, findRangeAt(words, baseOffset + elapsed / msPerChar));
+    }, 100);
+  };
+
+  // Utterance using the voice settings. Text in a known language gets a voice that speaks it,
+  // unless automatic voices are off.
+  const createUtterance = (text: string, language?: string | null) => {
     const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = settings.speechRate;
+    utterance.pitch = settings.speechPitch;
+    utterance.volume = settings.speechVolume;
     
     const selectedVoice = voices.find(v => v.voiceURI === settings.speechVoiceURI);
-    if (selectedVoice) {
-        utterance.voice = selectedVoice;
+    const voice = language && settings.isAutoVoice ? findVoiceForLanguage(voices, language, selectedVoice) : selectedVoice;
+    if (voice) {
+        utterance.voice = voice;
     }
+    if (language) utterance.lang = voice ? voice.lang : language;
+    return utterance;
+  };
+
+  // Speak a block from `startOffset` (a character offset into its text) to the end
+  const speakText = (index: number, startOffset = 0) => {
+    if (index < 0 || index >= blocks.length) return;
 
-    utterance.onend = () => {
+    // Detach the previous utterance first so its cancel-triggered events are ignored
+    currentUtteranceRef.current = null;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.resume(); // Some browsers keep the queue paused after cancel
+    stopWordTracking();
+    setSpokenWord(null);
+    setIsPaused(false);
+    setResumePoint(null);
+    
+    const fullText = blocks[index].text;
+    const text = fullText.slice(startOffset);
+    const utterance = createUtterance(text, languages.blocks[index]);
+
+    currentUtteranceRef.current = utterance;
+    speechPositionRef.current = { index, start: startOffset, end: startOffset };
+
+    const handleEnd = () => {
+        if (currentUtteranceRef.current !== utterance) return;
+        currentUtteranceRef.current = null;
+        stopWordTracking();
+        setSpokenWord(null);
         // If continuous mode is on and we are not at the end
-        if (isContinuousRef.current && index < paragraphs.length - 1) {
+        if (isContinuousRef.current && index < blocks.length - 1) {
             isAutoAdvancingRef.current = true;
             setActiveParagraphIndex(index + 1);
             // The useEffect on activeParagraphIndex will trigger the next speech
         } else {
             // Finished or stopped naturally
+            speechPositionRef.current = null;
             setIsSpeaking(false);
             isContinuousRef.current = false;
         }
     };
 
+    // Blocks without text (e.g. images lacking alt text) are skipped over
+    if (!text.trim()) {
+        handleEnd();
+        return;
+    }
+
+    const words = getWordRanges(fullText, languages.blocks[index]).filter(word => word.end > startOffset);
+    let hasBoundaryEvents = false;
+
+    utterance.onboundary = (event) => {
+        if (currentUtteranceRef.current !== utterance) return;
+        if (event.name && event.name !== 'word') return;
+        if (!hasBoundaryEvents) {
+            hasBoundaryEvents = true;
+            stopWordTracking();
+        }
+        updateSpokenWord(index, findRangeAt(words, startOffset + event.charIndex));
+    };
+
+    utterance.onstart = () => {
+        if (currentUtteranceRef.current !== utterance) return;
+        estimatedClockRef.current = { startedAt: performance.now(), pausedAt: null };
+        updateSpokenWord(index, words[0] || null);
+        // Many network voices never fire boundary events; fall back to estimated timing
+        boundaryGraceTimerRef.current = window.setTimeout(() => {
+            boundaryGraceTimerRef.current = null;
+            if (!hasBoundaryEvents) startEstimatedTiming(index, words, utterance.rate, startOffset);
+        }, BOUNDARY_EVENT_GRACE_MS);
+    };
+
+    utterance.onend = handleEnd;
+
     utterance.onerror = () => {
+        if (currentUtteranceRef.current !== utterance) return;
+        currentUtteranceRef.current = null;
+        speechPositionRef.current = null;
+        stopWordTracking();
+        setSpokenWord(null);
         setIsSpeaking(false);
+        setIsPaused(false);
         isContinuousRef.current = false;
     };
     
@@ -120,6 +397,17 @@ const Reader: React.FC<ReaderProps> = ({
     window.speechSynthesis.speak(utterance);
   };
 
+  // Continue speaking at a position, moving the active paragraph if needed
+  const speakFrom = (index: number, offset: number) => {
+    if (index === activeParagraphIndex) {
+        speakText(index, offset);
+    } else {
+        isAutoAdvancingRef.current = true;
+        pendingStartOffsetRef.current = offset;
+        setActiveParagraphIndex(index);
+    }
+  };
+
   const handleSpeakCurrent = () => {
     if (activeParagraphIndex === null) return;
     isContinuousRef.current = false; // Single paragraph mode
@@ -138,13 +426,81 @@ const Reader: React.FC<ReaderProps> = ({
     }
   };
 
+  const handlePause = () => {
+    if (!isSpeaking || isPaused) return;
+    window.speechSynthesis.pause();
+    estimatedClockRef.current.pausedAt = performance.now();
+    setIsPaused(true);
+  };
+
+  const handleResume = () => {
+    if (!isPaused) return;
+    window.speechSynthesis.resume();
+    const clock = estimatedClockRef.current;
+    if (clock.pausedAt !== null) {
+        clock.startedAt += performance.now() - clock.pausedAt;
+        clock.pausedAt = null;
+    }
+    setIsPaused(false);
+  };
+
   const handleStop = () => {
+    // Remember the sentence being read so it can be resumed later
+    const position = speechPositionRef.current;
+    if (currentUtteranceRef.current && position && blocks[position.index]) {
+        const sentence = findRangeAt(getSentenceRanges(blocks[position.index].text), position.start);
+        setResumePoint({
+            index: position.index,
+            offset: sentence ? sentence.start : 0,
+            continuous: isContinuousRef.current,
+        });
+    }
+
+    currentUtteranceRef.current = null;
+    speechPositionRef.current = null;
     window.speechSynthesis.cancel();
+    window.speechSynthesis.resume();
+    stopWordTracking();
+    setSpokenWord(null);
     setIsSpeaking(false);
+    setIsPaused(false);
     isContinuousRef.current = false;
     isAutoAdvancingRef.current = false;
   };
 
+  const handleResumeFromStop = () => {
+    if (!resumePoint) return;
+    isContinuousRef.current = resumePoint.continuous;
+    speakFrom(resumePoint.index, resumePoint.offset);
+  };
+
+  const handleSkipSentence = (direction: 1 | -1) => {
+    const position = speechPositionRef.current;
+    if (!position) return;
+
+    const sentences = getSentenceRanges(blocks[position.index].text);
+    const target = findRangeIndexAt(sentences, position.start) + direction;
+    if (target >= 0 && target < sentences.length) {
+        speakFrom(position.index, sentences[target].start);
+        return;
+    }
+
+    // Cross into the neighbouring paragraph
+    const neighbourIndex = position.index + direction;
+    if (neighbourIndex < 0 || neighbourIndex >= blocks.length) return;
+    const neighbour = getSentenceRanges(blocks[neighbourIndex].text);
+    const offset = direction > 0 || neighbour.length === 0 ? 0 : neighbour[neighbour.length - 1].start;
+    speakFrom(neighbourIndex, offset);
+  };
+
+  const handleSkipParagraph = (direction: 1 | -1) => {
+    const current = speechPositionRef.current?.index ?? activeParagraphIndex;
+    if (current === null) return;
+    const target = current + direction;
+    if (target < 0 || target >= blocks.length) return;
+    speakFrom(target, 0);
+  };
+
   // Watch for active paragraph changes
   useEffect(() => {
     if (activeParagraphIndex === null) return;
@@ -160,7 +516,8 @@ const Reader: React.FC<ReaderProps> = ({
         });
         
         // Continue speaking
-        speakText(activeParagraphIndex);
+        speakText(activeParagraphIndex, pendingStartOffsetRef.current);
+        pendingStartOffsetRef.current = 0;
     } else {
         // Case 2: Change was manual (user clicked or used arrows)
         // If speaking, we should stop (unless we want to immediately read the clicked one, 
@@ -173,69 +530,729 @@ const Reader: React.FC<ReaderProps> = ({
   }, [activeParagraphIndex]);
 
 
-  // --- Voice Control Logic ---
-  
-  // We use a ref to hold the command processor so the SpeechRecognition callback 
-  // can always call the latest version of the function (avoiding stale closures).
-  const processCommandRef = useRef<(cmd: string) => void>(() => {});
+  // Stop speech and timers when the Reader unmounts
+  useEffect(() => () => {
+    currentUtteranceRef.current = null;
+    stopWordTracking();
+    window.speechSynthesis.cancel();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-  const processCommand = useCallback((command: string) => {
-      setLastVoiceCommand(command);
-      
-      // Navigation
-      if (command.includes('next')) {
-          setActiveParagraphIndex(prev => {
-              const current = prev === null ? -1 : prev;
-              const next = Math.min(paragraphs.length - 1, current + 1);
-              if (next !== prev) {
-                  // Manually scroll if we change index (the effect usually handles it but explicit here ensures feedback)
-                  paragraphRefs.current[next]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-              }
-              return next;
-          });
+  // --- Search ---
+
+  const searchResult = useMemo<{ matches: SearchMatch[]; error: string }>(() => {
+    if (!isSearchOpen) return { matches: [], error: '' };
+    try {
+      return { matches: findMatches(blocks, searchQuery, searchOptions), error: '' };
+    } catch {
+      return { matches: [], error: 'Invalid pattern' };
+    }
+  }, [isSearchOpen, blocks, searchQuery, searchOptions]);
+
+  // Search marks per block, with their position in the overall match list
+  const matchesByBlock = useMemo(() => {
+    const byBlock = new Map<number, { match: SearchMatch; position: number }[]>();
+    searchResult.matches.forEach((match, position) => {
+      const list = byBlock.get(match.index) || [];
+      list.push({ match, position });
+      byBlock.set(match.index, list);
+    });
+    return byBlock;
+  }, [searchResult]);
+
+  // A new query starts from the reading position, like find-as-you-type
+  useEffect(() => {
+    setCurrentMatchIndex(findMatchFrom(searchResult.matches, activeParagraphIndex ?? 0));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchResult]);
+
+  // Keep the current match in view
+  useEffect(() => {
+    const match = searchResult.matches[currentMatchIndex];
+    if (!match) return;
+    requestAnimationFrame(() => {
+      const target = paragraphRefs.current[match.index]?.querySelector('[data-search-current]')
+        || paragraphRefs.current[match.index]; // Tables and images have no inline marks
+      target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  }, [searchResult, currentMatchIndex]);
+
+  const goToMatch = (direction: 1 | -1) => {
+    const { matches } = searchResult;
+    if (matches.length === 0) return;
+    const next = currentMatchIndex < 0
+      ? findMatchFrom(matches, activeParagraphIndex ?? 0)
+      : (currentMatchIndex + direction + matches.length) % matches.length;
+    setCurrentMatchIndex(next);
+    setActiveParagraphIndex(matches[next].index);
+  };
+
+  const openSearch = () => {
+    setIsSearchOpen(true);
+    const selected = window.getSelection()?.toString().trim();
+    if (selected && !selected.includes('\n')) setSearchQuery(selected);
+  };
+
+  const closeSearch = useCallback(() => {
+    setIsSearchOpen(false);
+    containerRef.current?.focus();
+  }, []);
+
+  // --- Reading Position & Progress ---
+
+  const wordCounts = useMemo(() => getCumulativeWordCounts(blocks), [blocks]);
+
+  // First paragraph whose bottom is below viewport position `y` (paragraphs are in document order)
+  const findParagraphBelow = (y: number) => {
+    let low = 0;
+    let high = blocks.length - 1;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const el = paragraphRefs.current[mid];
+      if (el && el.getBoundingClientRect().bottom <= y) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  const findTopParagraph = () => {
+    const container = containerRef.current;
+    if (!container || blocks.length === 0) return -1;
+    return findParagraphBelow(container.getBoundingClientRect().top);
+  };
+
+  const getScrollPosition = (): ScrollPosition | null => {
+    const container = containerRef.current;
+    const index = findTopParagraph();
+    const el = paragraphRefs.current[index];
+    if (!container || !el) return null;
+    const offset = container.getBoundingClientRect().top - el.getBoundingClientRect().top;
+    return { paragraphIndex: index, offset: Math.max(0, Math.round(offset)) };
+  };
+
+  const restoreScrollPosition = (position: ScrollPosition) => {
+    const container = containerRef.current;
+    const el = paragraphRefs.current[position.paragraphIndex];
+    if (!container || !el) return;
+    const top = container.scrollTop + el.getBoundingClientRect().top - container.getBoundingClientRect().top;
+    container.scrollTo({ top: top + position.offset, behavior: 'instant' });
+  };
+
+  const updateReadingPosition = () => {
+    const container = containerRef.current;
+    const position = getScrollPosition();
+    if (!container || !position) return;
+
+    setTopParagraphIndex(position.paragraphIndex);
+    setIsScrolledToEnd(container.scrollTop + container.clientHeight >= container.scrollHeight - 4);
+
+    // Measure reading speed from steady forward progress; jumps and idle time are discarded
+    const now = performance.now();
+    const last = readingSampleRef.current;
+    if (!last || last.paragraphIndex !== position.paragraphIndex) {
+      if (last && position.paragraphIndex > last.paragraphIndex) {
+        const words = wordCounts[position.paragraphIndex] - wordCounts[last.paragraphIndex];
+        const ms = now - last.time;
+        if (isPlausibleReadingSample(words, ms)) onRecordReading?.(words, ms);
       }
-      else if (command.includes('previous') || command.includes('back')) {
-          setActiveParagraphIndex(prev => {
-              const current = prev === null ? 0 : prev;
-              const next = Math.max(0, current - 1);
-              if (next !== prev) {
-                  paragraphRefs.current[next]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-              }
-              return next;
-          });
+      readingSampleRef.current = { paragraphIndex: position.paragraphIndex, time: now };
+    }
+
+    if (resumeOffer) return;
+    if (scrollReportTimerRef.current !== null) window.clearTimeout(scrollReportTimerRef.current);
+    scrollReportTimerRef.current = window.setTimeout(() => {
+      scrollReportTimerRef.current = null;
+      onScrollPositionChange?.(position);
+    }, SCROLL_REPORT_DELAY_MS);
+  };
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (resumeOffer && container && container.scrollTop > container.clientHeight / 2) {
+      // Scrolling well into the document answers the prompt: read on from here
+      setResumeOffer(null);
+    }
+    if (scrollFrameRef.current !== null) return;
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      updateReadingPosition();
+    });
+  };
+
+  // Cancel pending position updates on unmount
+  useEffect(() => () => {
+    if (scrollFrameRef.current !== null) cancelAnimationFrame(scrollFrameRef.current);
+    if (scrollReportTimerRef.current !== null) window.clearTimeout(scrollReportTimerRef.current);
+  }, []);
+
+  const handleContinueReading = () => {
+    if (!resumeOffer) return;
+    const { paragraphIndex, scrollPosition } = resumeOffer;
+    setResumeOffer(null);
+    readingSampleRef.current = null;
+    if (paragraphIndex !== null) setActiveParagraphIndex(paragraphIndex);
+    requestAnimationFrame(() => {
+      if (scrollPosition) restoreScrollPosition(scrollPosition);
+      else if (paragraphIndex !== null) paragraphRefs.current[paragraphIndex]?.scrollIntoView({ block: 'center' });
+    });
+  };
+
+  const handleStartOver = () => {
+    setResumeOffer(null);
+    containerRef.current?.focus();
+  };
+
+  const getResumeDescription = (offer: ResumeOffer) => {
+    const index = offer.scrollPosition?.paragraphIndex ?? offer.paragraphIndex ?? 0;
+    const percent = Math.round((wordCounts[index] / Math.max(wordCounts[blocks.length], 1)) * 100);
+    const chapter = [...chapters].reverse().find(c => c.blockIndex <= index);
+    return [chapter?.title, `Paragraph ${index + 1} of ${blocks.length}`, `${percent}% read`].filter(Boolean).join(' · ');
+  };
+
+  const totalWords = wordCounts[blocks.length];
+  const wordsBehind = isScrolledToEnd ? totalWords : wordCounts[Math.min(topParagraphIndex, blocks.length)];
+  const readingSpeed = getReadingSpeed(readingStats);
+
+  // Keep the spoken word in view while reading aloud
+  useEffect(() => {
+    if (!spokenWord) return;
+    const container = containerRef.current;
+    const wordEl = paragraphRefs.current[spokenWord.index]?.querySelector('[data-spoken-word]');
+    if (!container || !wordEl) return;
+
+    const containerRect = container.getBoundingClientRect();
+    const wordRect = wordEl.getBoundingClientRect();
+    const margin = containerRect.height * 0.2;
+    if (wordRect.top < containerRect.top + margin || wordRect.bottom > containerRect.bottom - margin) {
+      wordEl.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [spokenWord]);
+
+  const spokenSentence = useMemo(() => {
+    if (!spokenWord || !settings.isSpokenSentenceHighlight) return null;
+    const block = blocks[spokenWord.index];
+    return block ? findRangeAt(getSentenceRanges(block.text), spokenWord.start) : null;
+  }, [spokenWord, blocks, settings.isSpokenSentenceHighlight]);
+
+  // --- Auto-Scroll (Teleprompter) ---
+
+  // Resting the pointer on the text holds the scroll so a line can be re-read
+  const isAutoScrollHeld = hoveredParagraphIndex !== null;
+
+  const startAutoScroll = () => {
+    setIsAutoScrolling(true);
+    setIsAutoScrollPaused(false);
+  };
+
+  const stopAutoScroll = () => {
+    setIsAutoScrolling(false);
+    setIsAutoScrollPaused(false);
+  };
+
+  const adjustAutoScrollSpeed = (delta: number) => {
+    onUpdateSettings({ ...settings, autoScrollSpeed: clampAutoScrollSpeed(settings.autoScrollSpeed + delta) });
+  };
+
+  // Vertical space per word in the block under the guide line; falls back to the document average
+  const getPixelsPerWordAtGuide = () => {
+    const container = containerRef.current;
+    if (!container || blocks.length === 0) return 0;
+    const rect = container.getBoundingClientRect();
+    const fallback = totalWords > 0 ? container.scrollHeight / totalWords : rect.height / 10;
+    const index = findParagraphBelow(rect.top + rect.height * GUIDE_LINE_RATIO);
+    const el = paragraphRefs.current[index];
+    if (!el) return fallback;
+    return getPixelsPerWord(el.getBoundingClientRect().height, wordCounts[index + 1] - wordCounts[index], fallback);
+  };
+
+  // A new document starts without auto-scroll
+  useEffect(() => {
+    stopAutoScroll();
+  }, [blocks]);
+
+  // Frame-timed scrolling; `position` keeps the sub-pixel remainder between frames
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isAutoScrolling || isAutoScrollPaused || isAutoScrollHeld || !container) return;
+
+    let lastTime: number | null = null;
+    let position = container.scrollTop;
+    const step = (time: number) => {
+      if (lastTime !== null) {
+        // Follow manual scrolling (wheel, scrollbar, search jumps) instead of snapping back
+        if (Math.abs(container.scrollTop - position) > 2) position = container.scrollTop;
+        position += getScrollStep(settings.autoScrollSpeed, getPixelsPerWordAtGuide(), time - lastTime);
+        container.scrollTo({ top: position, behavior: 'instant' });
+        if (container.scrollTop + container.clientHeight >= container.scrollHeight - 1) {
+          stopAutoScroll();
+          return;
+        }
       }
-      // Reading
-      else if (command.includes('read all') || command.includes('start reading')) {
-          handleSpeakAll();
+      lastTime = time;
+      autoScrollFrameRef.current = requestAnimationFrame(step);
+    };
+    autoScrollFrameRef.current = requestAnimationFrame(step);
+
+    return () => {
+      if (autoScrollFrameRef.current !== null) cancelAnimationFrame(autoScrollFrameRef.current);
+      autoScrollFrameRef.current = null;
+    };
+  }, [isAutoScrolling, isAutoScrollPaused, isAutoScrollHeld, settings.autoScrollSpeed, blocks]);
+
+  // Auto-scroll keys. Registered for the capture phase so Space pauses instead of paging down.
+  useEffect(() => {
+    const IGNORED_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'Tab'];
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isToggle = findShortcut(e, settings.keyBindings, 'global') === 'toggleAutoScroll';
+      if (!isAutoScrolling) {
+        if (isToggle) {
+          e.preventDefault();
+          startAutoScroll();
+        }
+        return;
       }
-      else if (command.includes('stop') || command.includes('pause')) {
-          handleStop();
+
+      const command = findShortcut(e, settings.keyBindings, 'autoScroll');
+      if (command === 'autoScrollPause') setIsAutoScrollPaused(prev => !prev);
+      else if (command === 'autoScrollFaster') adjustAutoScrollSpeed(AUTO_SCROLL_STEP_WPM);
+      else if (command === 'autoScrollSlower') adjustAutoScrollSpeed(-AUTO_SCROLL_STEP_WPM);
+      else if (command === 'autoScrollStop' || isToggle) stopAutoScroll();
+      else {
+        // Any other key (arrows, search...) means the reader wants control back
+        if (!isTypingTarget(e.target) && !e.ctrlKey && !e.metaKey && !e.altKey && !IGNORED_KEYS.includes(e.key)) {
+          setIsAutoScrollPaused(true);
+        }
+        return;
       }
-      // Modes
-      else if (command.includes('magnifier on')) {
-          onUpdateSettings({ ...settings, isLoupeActive: true });
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isAutoScrolling, settings, onUpdateSettings]);
+
+  const getGuideLineClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'border-yellow-400';
+      case ThemeMode.DARK: return 'border-blue-400/70';
+      case ThemeMode.SEPIA: return 'border-[#5b4636]/60';
+      case ThemeMode.INK: return 'border-black';
+      case ThemeMode.CUSTOM: return 'border-[var(--theme-accent)]';
+      default: return 'border-blue-500/60';
+    }
+  };
+
+  // --- Caret Browsing ---
+  // Arrow keys move a visible caret word by word so keyboard and switch users can
+  // read, magnify and hear individual words without a pointer.
+
+  // Tables and images have no running text to step through
+  const getCaretWords = (index: number) => {
+    const block = blocks[index];
+    if (!block || block.type === BlockType.TABLE || block.type === BlockType.IMAGE) return [];
+    return getWordRanges(block.text, languages.blocks[index]);
+  };
+
+  // First (or last) word of the nearest block with text, searching from `index` in `direction`
+  const findCaretWordFrom = (index: number, direction: 1 | -1, isLastWord = false): CaretWord | null => {
+    for (let i = index; i >= 0 && i < blocks.length; i += direction) {
+      const words = getCaretWords(i);
+      if (words.length > 0) return { index: i, ...words[isLastWord ? words.length - 1 : 0] };
+    }
+    return null;
+  };
+
+  const getCaretWordAt = (index: number, offset: number): CaretWord | null => {
+    const words = getCaretWords(index);
+    const word = findRangeAt(words, offset) || words[0];
+    return word ? { index, ...word } : null;
+  };
+
+  // Character offset of a DOM position within a block's text, measured the same way as highlights
+  const getBlockOffset = (index: number, node: Node, offset: number) => {
+    const el = paragraphRefs.current[index];
+    if (!el || !el.contains(node)) return -1;
+    const range = document.createRange();
+    range.selectNodeContents(el);
+    range.setEnd(node, offset);
+    return range.toString().length;
+  };
+
+  const startCaretBrowsing = () => {
+    const word = findCaretWordFrom(activeParagraphIndex ?? Math.max(0, findTopParagraph()), 1);
+    if (!word) return;
+    setResumeOffer(null);
+    setCaret(word);
+    setIsCaretBrowsing(true);
+  };
+
+  const stopCaretBrowsing = () => {
+    setIsCaretBrowsing(false);
+    setCaret(null);
+  };
+
+  // Next or previous word, continuing into the neighbouring blocks
+  const moveCaretByWord = (direction: 1 | -1) => {
+    if (!caret) return;
+    const words = getCaretWords(caret.index);
+    const next = findRangeIndexAt(words, caret.start) + direction;
+    const word = next >= 0 && next < words.length
+      ? { index: caret.index, ...words[next] }
+      : findCaretWordFrom(caret.index + direction, direction, direction < 0);
+    if (word) setCaret(word);
+  };
+
+  // Word on the rendered line below or above, under the caret's horizontal position.
+  // Gaps between blocks fall back to the first (or last) word of the neighbouring block.
+  const moveCaretByLine = (direction: 1 | -1) => {
+    const container = containerRef.current;
+    const el = caret && paragraphRefs.current[caret.index]?.querySelector('[data-caret]');
+    if (!caret || !container || !el) return;
+
+    const lineHeight = settings.fontSize * settings.lineHeight;
+    const bounds = container.getBoundingClientRect();
+    let rect = el.getBoundingClientRect();
+    const getTargetY = () => direction > 0 ? rect.bottom + lineHeight / 2 : rect.top - lineHeight / 2;
+    // Hit testing only sees text on screen, so bring the target line into view first
+    if (getTargetY() > bounds.bottom || getTargetY() < bounds.top) {
+      container.scrollBy({ top: direction * lineHeight * 2, behavior: 'instant' });
+      rect = el.getBoundingClientRect();
+    }
+
+    const point = getCaretAt((rect.left + rect.right) / 2, getTargetY());
+    const index = point ? paragraphRefs.current.findIndex(p => !!p && p.contains(point.node)) : -1;
+    const found = point && index >= 0 ? getCaretWordAt(index, getBlockOffset(index, point.node, point.offset)) : null;
+    const isAhead = (word: CaretWord) => direction > 0
+      ? word.index > caret.index || (word.index === caret.index && word.start > caret.start)
+      : word.index < caret.index || (word.index === caret.index && word.start < caret.start);
+    const word = found && isAhead(found) ? found : findCaretWordFrom(caret.index + direction, direction, direction < 0);
+    if (word) setCaret(word);
+  };
+
+  const moveCaretToBlockEdge = (isEnd: boolean) => {
+    if (!caret) return;
+    const words = getCaretWords(caret.index);
+    if (words.length > 0) setCaret({ index: caret.index, ...words[isEnd ? words.length - 1 : 0] });
+  };
+
+  // Speak the word at the caret, or the whole sentence around it
+  const speakCaret = (isSentence: boolean) => {
+    if (!caret) return;
+    const text = blocks[caret.index].text;
+    const range = isSentence ? findRangeAt(getSentenceRanges(text), caret.start) || caret : caret;
+    handleStop();
+    window.speechSynthesis.speak(createUtterance(text.slice(range.start, range.end), languages.blocks[caret.index]));
+  };
+
+  // Click to place the caret on a word
+  const placeCaretAtSelection = (index: number) => {
+    const selection = window.getSelection();
+    const offset = selection && selection.anchorNode ? getBlockOffset(index, selection.anchorNode, selection.anchorOffset) : -1;
+    const word = offset >= 0 ? getCaretWordAt(index, offset) : findCaretWordFrom(index, 1);
+    if (word) setCaret(word);
+  };
+
+  // A new document starts without the caret
+  useEffect(() => {
+    stopCaretBrowsing();
+  }, [blocks]);
+
+  // Keep the caret on screen, make its block active and let the magnifier follow it
+  useEffect(() => {
+    if (!caret) return;
+    setActiveParagraphIndex(caret.index);
+    const el = paragraphRefs.current[caret.index]?.querySelector('[data-caret]');
+    if (!el) return;
+    el.scrollIntoView({ block: 'nearest', behavior: 'instant' });
+    const rect = el.getBoundingClientRect();
+    onCaretMove?.({ x: (rect.left + rect.right) / 2, y: (rect.top + rect.bottom) / 2 });
+  }, [caret]);
+
+  // Caret keys. Registered for the capture phase so arrows move the caret instead of
+  // paragraphs; keys the caret doesn't use (Shift+arrows for the ruler) pass through.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (findShortcut(e, settings.keyBindings, 'global') === 'toggleCaret') {
+        e.preventDefault();
+        if (isCaretBrowsing) stopCaretBrowsing();
+        else startCaretBrowsing();
+        return;
       }
-      else if (command.includes('magnifier off')) {
-          onUpdateSettings({ ...settings, isLoupeActive: false });
+      if (!isCaretBrowsing) return;
+
+      const command = findShortcut(e, settings.keyBindings, 'caret');
+      switch (command) {
+        case 'caretNextWord': moveCaretByWord(1); break;
+        case 'caretPreviousWord': moveCaretByWord(-1); break;
+        case 'caretNextLine': moveCaretByLine(1); break;
+        case 'caretPreviousLine': moveCaretByLine(-1); break;
+        case 'caretParagraphStart': moveCaretToBlockEdge(false); break;
+        case 'caretParagraphEnd': moveCaretToBlockEdge(true); break;
+        case 'caretSpeakWord':
+        case 'caretSpeakSentence':
+          if ((e.target as HTMLElement).tagName === 'BUTTON' && e.key === 'Enter') return; // Keep buttons operable
+          speakCaret(command === 'caretSpeakSentence');
+          break;
+        case 'caretExit': stopCaretBrowsing(); break;
+        default: return;
       }
-      else if (command.includes('focus mode on') || command.includes('focus on')) {
-          onUpdateSettings({ ...settings, isFocusMode: true });
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isCaretBrowsing, caret, blocks, settings, voices, activeParagraphIndex]);
+
+  const getCaretClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'outline outline-2 outline-offset-2 outline-yellow-400 rounded-sm';
+      case ThemeMode.DARK: return 'outline outline-2 outline-offset-2 outline-blue-400 rounded-sm';
+      case ThemeMode.SEPIA: return 'outline outline-2 outline-offset-2 outline-[#5b4636] rounded-sm';
+      case ThemeMode.INK: return 'outline outline-2 outline-offset-2 outline-black rounded-sm';
+      case ThemeMode.CUSTOM: return 'outline outline-2 outline-offset-2 outline-[var(--theme-focus-ring)] rounded-sm';
+      default: return 'outline outline-2 outline-offset-2 outline-blue-600 rounded-sm';
+    }
+  };
+
+  // --- Voice Control Logic ---
+
+  const voiceLocale = resolveVoiceLocale(settings.voiceLocale);
+  const voiceGrammar = getVoiceGrammar(voiceLocale);
+
+  // Recognition results are ignored until this time, so a spoken confirmation isn't heard as a command
+  const voiceEchoUntilRef = useRef(0);
+
+  // Confirmation in the recognition language. It isn't tracked as Read Aloud, so stopping reading doesn't cut it off.
+  const speakVoiceResponse = (text: string) => {
+    const utterance = createUtterance(text);
+    const language = voiceLocale.split('-')[0];
+    utterance.lang = voiceLocale;
+    if (!utterance.voice || !utterance.voice.lang.startsWith(language)) {
+        utterance.voice = voices.find(v => v.lang === voiceLocale) || voices.find(v => v.lang.startsWith(language)) || null;
+    }
+    const release = () => { voiceEchoUntilRef.current = performance.now() + VOICE_ECHO_MS; };
+    voiceEchoUntilRef.current = performance.now() + VOICE_ECHO_TIMEOUT_MS;
+    utterance.onend = release;
+    utterance.onerror = release;
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const moveToParagraph = (index: number) => {
+    const next = Math.min(blocks.length - 1, Math.max(0, index));
+    setActiveParagraphIndex(next);
+    paragraphRefs.current[next]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    return next + 1;
+  };
+
+  // Carries out a command and returns it with the value to confirm (paragraph number, new size...)
+  const runVoiceCommand = (match: VoiceCommandMatch): VoiceCommandMatch => {
+    let { id } = match;
+    // With auto-scroll running and nothing being read, pause, resume and stop mean the scrolling
+    if (isAutoScrolling && !isSpeaking) {
+      if (id === 'pauseReading') id = 'pauseScrolling';
+      else if (id === 'resumeReading') id = 'startScrolling';
+      else if (id === 'stopReading') id = 'stopScrolling';
+    }
+    const current = activeParagraphIndex ?? -1;
+
+    switch (id) {
+      case 'nextParagraph':
+        return { id, number: moveToParagraph(current + 1) };
+      case 'previousParagraph':
+        return { id, number: moveToParagraph(Math.max(0, current - 1)) };
+      case 'goToParagraph':
+        return { id, number: moveToParagraph((match.number ?? 1) - 1) };
+      case 'firstParagraph':
+        moveToParagraph(0);
+        return { id };
+      case 'lastParagraph':
+        moveToParagraph(blocks.length - 1);
+        return { id };
+      case 'readAll':
+        handleSpeakAll();
+        return { id };
+      case 'readParagraph':
+        handleSpeakCurrent();
+        return { id };
+      case 'pauseReading':
+        handlePause();
+        return { id };
+      case 'resumeReading':
+        if (isPaused) handleResume();
+        else handleResumeFromStop();
+        return { id };
+      case 'stopReading':
+        handleStop();
+        return { id };
+      case 'startScrolling':
+        startAutoScroll();
+        return { id };
+      case 'stopScrolling':
+        stopAutoScroll();
+        return { id };
+      case 'pauseScrolling':
+        setIsAutoScrollPaused(true);
+        return { id };
+      // Spoken steps are bigger than key presses since they are slower to repeat
+      case 'scrollFaster':
+      case 'scrollSlower':
+      case 'scrollSpeed': {
+        const speed = id === 'scrollSpeed'
+          ? clampAutoScrollSpeed(match.number ?? settings.autoScrollSpeed)
+          : clampAutoScrollSpeed(settings.autoScrollSpeed + (id === 'scrollFaster' ? 2 : -2) * AUTO_SCROLL_STEP_WPM);
+        onUpdateSettings({ ...settings, autoScrollSpeed: speed });
+        return { id, number: speed };
       }
-      else if (command.includes('focus mode off') || command.includes('focus off')) {
-          onUpdateSettings({ ...settings, isFocusMode: false });
+      case 'fontSize':
+      case 'biggerText':
+      case 'smallerText': {
+        const size = id === 'fontSize' ? match.number ?? settings.fontSize : settings.fontSize + (id === 'biggerText' ? 2 : -2);
+        const fontSize = Math.min(Math.max(size, 12), 72);
+        onUpdateSettings({ ...settings, fontSize });
+        return { id, number: fontSize };
       }
-      else if (command.includes('bionic on') || command.includes('bionic reading on')) {
-          onUpdateSettings({ ...settings, isBionicReading: true });
+      case 'magnifierOn':
+      case 'magnifierOff':
+        onUpdateSettings({ ...settings, isLoupeActive: id === 'magnifierOn' });
+        return { id };
+      case 'focusOn':
+      case 'focusOff':
+        onUpdateSettings({ ...settings, isFocusMode: id === 'focusOn' });
+        return { id };
+      case 'bionicOn':
+      case 'bionicOff':
+        onUpdateSettings({ ...settings, isBionicReading: id === 'bionicOn' });
+        return { id };
+      case 'rulerOn':
+      case 'rulerOff':
+        onUpdateSettings({ ...settings, isReadingRuler: id === 'rulerOn' });
+        return { id };
+      case 'caretOn':
+        startCaretBrowsing();
+        return { id };
+      case 'caretOff':
+        stopCaretBrowsing();
+        return { id };
+      case 'find':
+        setSearchQuery(match.text ?? '');
+        setIsSearchOpen(true);
+        return { id, text: match.text };
+      case 'startDictation': {
+        const index = startDictation();
+        return { id, number: index === null ? undefined : index + 1 };
       }
-      else if (command.includes('bionic off') || command.includes('bionic reading off')) {
-          onUpdateSettings({ ...settings, isBionicReading: false });
+      case 'undo':
+      case 'redo':
+        return { id, text: (id === 'undo' ? onUndo() : onRedo()) ?? undefined };
+      case 'help':
+        return { id };
+    }
+  };
+
+  // --- Dictation ---
+
+  // Starts dictating into the active paragraph (or the one at the top of the view), switching the microphone on
+  const startDictation = () => {
+    if (!recognitionRef.current) {
+        alert("Dictation needs speech recognition, which this browser doesn't support.");
+        return null;
+    }
+    if (blocks.length === 0) return null;
+    const index = activeParagraphIndex ?? Math.max(0, findTopParagraph());
+    setActiveParagraphIndex(index);
+    setIsSidebarOpen(true);
+    dictationUndoRef.current = null;
+    setDictationInterim('');
+    setIsDictating(true);
+    setIsVoiceControlActive(true);
+    return index;
+  };
+
+  const stopDictation = () => {
+    setIsDictating(false);
+    setDictationInterim('');
+  };
+
+  // A final dictation result: an editing phrase, the keyword back to command mode, or text for the note
+  const processDictation = (transcript: string) => {
+    setDictationInterim('');
+    if (activeParagraphIndex === null) {
+      stopDictation();
+      return;
+    }
+    const action = parseDictation(transcript, voiceLocale);
+    const { responses } = getDictationGrammar(voiceLocale);
+    const dictated = dictatedNoteRef.current;
+    const note = dictated?.index === activeParagraphIndex ? dictated.text : findNote(notes, activeParagraphIndex)?.text || '';
+    const setNoteText = (text: string) => {
+      dictatedNoteRef.current = { index: activeParagraphIndex, text };
+      onUpdateNote(activeParagraphIndex, undefined, { text });
+    };
+    const updateNote = (text: string) => {
+      dictationUndoRef.current = note;
+      setNoteText(text);
+    };
+
+    switch (action.type) {
+      case 'stop':
+        stopDictation();
+        if (settings.isVoiceFeedback && !isSpeaking) speakVoiceResponse(responses.stop);
+        break;
+      case 'deleteWord':
+        updateNote(deleteLastWord(note));
+        break;
+      case 'deleteSentence':
+        updateNote(deleteLastSentence(note));
+        break;
+      case 'scratch':
+        if (dictationUndoRef.current !== null) setNoteText(dictationUndoRef.current);
+        dictationUndoRef.current = null;
+        break;
+      case 'text':
+        updateNote(appendDictation(note, action.text));
+        break;
+    }
+    setVoiceFeedback({ transcript, response: responses[action.type], isRecognised: true });
+  };
+
+  // We use a ref to hold the command processor so the SpeechRecognition callback
+  // can always call the latest version of the function (avoiding stale closures).
+  // It gets every alternative the recogniser offers and runs the first that is a command.
+  const processCommandRef = useRef<(transcripts: string[]) => void>(() => {});
+
+  processCommandRef.current = (transcripts: string[]) => {
+    if (isDictating) {
+      processDictation(transcripts[0] || '');
+      return;
+    }
+    let heard = transcripts[0] || '';
+    let match: VoiceCommandMatch | null = null;
+    for (const transcript of transcripts) {
+      match = matchVoiceCommand(transcript, voiceGrammar, settings.voiceShortcuts);
+      if (match) {
+        heard = transcript;
+        break;
       }
-  }, [paragraphs, settings, onUpdateSettings, handleSpeakAll, handleStop]);
+    }
+    if (!match) {
+      setVoiceFeedback({ transcript: heard, response: getNotUnderstoodResponse(voiceGrammar), isRecognised: false });
+      return;
+    }
 
-  // Update the ref whenever the processor changes
-  useEffect(() => {
-      processCommandRef.current = processCommand;
-  }, [processCommand]);
+    const result = runVoiceCommand(match);
+    // Undo and redo without a label had nothing left to take back or bring back
+    const response = (result.id === 'undo' || result.id === 'redo') && result.text === undefined
+      ? getHistoryEndResponse(voiceGrammar, result.id)
+      : getVoiceResponse(voiceGrammar, result.id, result);
+    setVoiceFeedback({ transcript: heard, response, isRecognised: true });
+
+    // Read Aloud owns the speech queue: commands that start it confirm by reading, and nothing
+    // else is spoken over it except the confirmation that it stopped
+    const isSpeechCommand = ['readAll', 'readParagraph', 'resumeReading', 'pauseReading'].includes(result.id);
+    if (settings.isVoiceFeedback && !isSpeechCommand && (!isSpeaking || result.id === 'stopReading')) {
+      speakVoiceResponse(response);
+    }
+  };
 
   // Initialize Speech Recognition
   useEffect(() => {
@@ -244,18 +1261,25 @@ const Reader: React.FC<ReaderProps> = ({
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
     const recognition = new SpeechRecognition();
     recognition.continuous = true;
-    recognition.interimResults = false;
-    recognition.lang = 'en-US';
+    recognition.interimResults = true; // Only dictation uses them; commands wait for the final result
+    recognition.maxAlternatives = 3;
 
     recognition.onresult = (event: any) => {
-        const results = event.results;
-        const lastResult = results[results.length - 1];
-        if (lastResult.isFinal) {
-            const transcript = lastResult[0].transcript.trim().toLowerCase();
-            console.log('Voice Command Received:', transcript);
-            // Call the ref to get fresh state
-            processCommandRef.current(transcript);
+        if (performance.now() < voiceEchoUntilRef.current) return;
+        let interim = '';
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+            const result = event.results[i];
+            if (result.isFinal) {
+                const transcripts = Array.from(result, (alternative: any) => alternative.transcript.trim() as string);
+                // Dictated text is a private note and stays out of the console
+                if (!isDictatingRef.current) console.log('Voice Command Received:', transcripts[0]);
+                // Call the ref to get fresh state
+                processCommandRef.current(transcripts);
+            } else {
+                interim += result[0].transcript;
+            }
         }
+        if (interim && isDictatingRef.current) setDictationInterim(interim.trim());
     };
 
     recognition.onend = () => {
@@ -280,6 +1304,16 @@ const Reader: React.FC<ReaderProps> = ({
     };
   }, []); // Run once on mount
 
+  // Recognise in the chosen language. A running session is stopped and the keep-alive restarts it with the new one.
+  useEffect(() => {
+      const recognition = recognitionRef.current;
+      if (!recognition) return;
+      recognition.lang = voiceLocale;
+      if (isVoiceControlActiveRef.current) {
+          try { recognition.stop(); } catch (e) { /* ignore */ }
+      }
+  }, [voiceLocale]);
+
   // Handle Toggle Effect
   useEffect(() => {
       const recognition = recognitionRef.current;
@@ -288,10 +1322,12 @@ const Reader: React.FC<ReaderProps> = ({
       if (isVoiceControlActive) {
           try { 
               recognition.start(); 
-              setLastVoiceCommand('');
+              setVoiceFeedback(null);
           } catch (e) { console.log('Recognition already started'); }
       } else {
           try { recognition.stop(); } catch (e) { /* ignore */ }
+          setIsDictating(false);
+          setDictationInterim('');
       }
   }, [isVoiceControlActive]);
 
@@ -323,53 +1359,99 @@ const Reader: React.FC<ReaderProps> = ({
     };
   }, [isDragging]);
 
-  // Keyboard navigation
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      const isInput = target.tagName === 'TEXTAREA' || target.tagName === 'INPUT' || target.tagName === 'SELECT';
-      
-      if (e.code === 'Space' && !isInput) {
-        e.preventDefault();
-        const scrollContainer = containerRef.current;
-        if(scrollContainer) {
-             scrollContainer.scrollBy({ top: window.innerHeight * 0.7, behavior: 'smooth' });
-        }
-      }
-      
-      if (isInput) return;
-
-      if (e.key === 'ArrowDown' || e.key === 'n') {
-         if (paragraphs.length > 0) {
-           setActiveParagraphIndex(prev => {
-             const next = (prev === null) ? 0 : Math.min(paragraphs.length - 1, prev + 1);
-             paragraphRefs.current[next]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-             return next;
-           });
-         }
-      }
-
-      if (e.key === 'ArrowUp' || e.key === 'p') {
-        if (paragraphs.length > 0) {
-           setActiveParagraphIndex(prev => {
-             const next = (prev === null) ? 0 : Math.max(0, prev - 1);
-             paragraphRefs.current[next]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-             return next;
-           });
-         }
+  // Keyboard shortcuts. The listener goes through a ref so it always sees the current
+  // speech and marker state; modes with their own keys (auto-scroll, caret) handle them first.
+  const runShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+
+  runShortcutRef.current = (e: KeyboardEvent) => {
+    if (e.defaultPrevented) return; // Already handled, e.g. by auto-scroll
+    const command = findShortcut(e, settings.keyBindings, 'global');
+
+    switch (command) {
+      // In-app search replaces the browser's find, which can't see through bionic splitting or the zoom overlay
+      case 'search':
+        openSearch();
+        break;
+      case 'pageDown':
+        containerRef.current?.scrollBy({ top: window.innerHeight * 0.7, behavior: 'smooth' });
+        break;
+      case 'nextParagraph':
+      case 'previousParagraph': {
+        if (blocks.length === 0) return;
+        const step = command === 'nextParagraph' ? 1 : -1;
+        const next = activeParagraphIndex === null ? 0 : Math.min(blocks.length - 1, Math.max(0, activeParagraphIndex + step));
+        setActiveParagraphIndex(next);
+        paragraphRefs.current[next]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        break;
       }
-    };
+      case 'readAll':
+        handleSpeakAll();
+        break;
+      case 'readParagraph':
+        handleSpeakCurrent();
+        break;
+      case 'pauseSpeech':
+        if (isPaused) handleResume();
+        else if (isSpeaking) handlePause();
+        else if (resumePoint) handleResumeFromStop();
+        break;
+      case 'stopSpeech':
+        handleStop();
+        break;
+      case 'toggleMarker':
+        setIsMarkerMode(prev => !prev);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => runShortcutRef.current(e);
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [paragraphs]);
+  }, []);
+
+  // --- Chapter Navigation ---
+
+  // The chapter containing the active paragraph
+  const currentChapterIndex = useMemo(() => {
+    if (activeParagraphIndex === null) return -1;
+    let found = -1;
+    chapters.forEach((chapter, i) => {
+      if (chapter.blockIndex <= activeParagraphIndex) found = i;
+    });
+    return found;
+  }, [chapters, activeParagraphIndex]);
+
+  const goToParagraph = (index: number) => {
+    setActiveParagraphIndex(index);
+    paragraphRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
 
   // --- Styling Logic ---
 
   const containerStyle = {
-    fontFamily: settings.fontFamily === 'mono' ? 'monospace' : settings.fontFamily === 'serif' ? 'serif' : 'sans-serif',
+    fontFamily: FONT_STACKS[settings.fontFamily] || FONT_STACKS.sans,
     lineHeight: settings.lineHeight,
     letterSpacing: `${settings.letterSpacing}em`,
+    wordSpacing: `${settings.wordSpacing}em`,
+  };
+
+  // Limits the text column width; ch is measured in the body font at the body size
+  const measureStyle = {
+    fontSize: `${settings.fontSize}px`,
+    maxWidth: settings.maxLineLength > 0 ? `${settings.maxLineLength}ch` : undefined,
+  };
+
+  // Alignment only applies to running text; headings and code keep their own layout
+  const getTextAlignStyle = (block: Block | undefined) => {
+    if (!block || block.type === BlockType.HEADING || block.type === BlockType.CODE) return {};
+    return {
+      textAlign: settings.textAlign,
+      hyphens: settings.textAlign === TextAlign.JUSTIFY ? 'auto' : undefined,
+    };
   };
 
   const getParagraphStyle = (index: number) => {
@@ -383,8 +1465,9 @@ const Reader: React.FC<ReaderProps> = ({
 
     return {
       opacity,
-      fontSize: `${settings.fontSize}px`,
-      cursor: isMarkerMode ? 'text' : 'pointer'
+      fontSize: `${settings.fontSize * getBlockFontScale(blocks[index])}px`,
+      cursor: isMarkerMode ? 'text' : 'pointer',
+      ...getTextAlignStyle(blocks[index])
     };
   };
 
@@ -399,6 +1482,8 @@ const Reader: React.FC<ReaderProps> = ({
         return 'bg-[#eaddc5] text-[#3e3025] border border-[#d8cba8] shadow-xl shadow-[#3e3025]/20';
       case ThemeMode.INK: 
         return 'bg-white text-black border-2 border-black shadow-2xl';
+      case ThemeMode.CUSTOM: 
+        return 'bg-[var(--theme-background)] text-[var(--theme-text)] border-2 border-[var(--theme-accent)] shadow-2xl';
       default: 
         // Light mode: Slight tint to distinguish from background
         return 'bg-white text-gray-900 border border-blue-200 shadow-2xl shadow-blue-900/20 ring-1 ring-blue-100';
@@ -406,67 +1491,133 @@ const Reader: React.FC<ReaderProps> = ({
   };
 
   const getActiveBorderClass = (index: number) => {
-    if (activeParagraphIndex !== index) return 'border-transparent border-l-4';
+    if (activeParagraphIndex !== index) return 'border-transparent border-s-4';
     
     if (settings.theme === ThemeMode.HIGH_CONTRAST) {
-      return 'border-l-4 border-yellow-400 bg-yellow-900/20';
+      return 'border-s-4 border-yellow-400 bg-yellow-900/20';
     }
     if (settings.theme === ThemeMode.INK) {
-       return 'border-l-4 border-black bg-gray-100';
+       return 'border-s-4 border-black bg-gray-100';
     }
-    return 'border-l-4 border-blue-500 bg-blue-50/50 dark:bg-blue-900/20';
+    if (settings.theme === ThemeMode.CUSTOM) {
+       return 'border-s-4 border-[var(--theme-accent)] bg-current/5';
+    }
+    return 'border-s-4 border-blue-500 bg-blue-50/50 dark:bg-blue-900/20';
   };
 
   // --- Text Interaction ---
 
   const handleParagraphClick = (index: number) => {
+    setResumeOffer(null);
     setActiveParagraphIndex(index);
+    if (isCaretBrowsing) placeCaretAtSelection(index);
   };
 
-  const handleSelection = (index: number) => {
-    if (!isMarkerMode) return;
-    
+  // --- Highlights ---
+
+  // The chosen category may have been deleted since, like a highlight's
+  const markerCategory = getHighlightCategory(highlightCategories, markerCategoryId);
+
+  const isHighlightShown = (h: Highlight) =>
+    !hiddenCategoryIds.includes(getHighlightCategory(highlightCategories, h.categoryId).id);
+
+  const toggleHighlightCategory = (id: string) => {
+    setHiddenCategoryIds(prev => prev.includes(id) ? prev.filter(hidden => hidden !== id) : [...prev, id]);
+  };
+
+  // Highlights per category; one that runs across paragraphs counts once
+  const highlightCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    const seen = new Set<string>();
+    Object.values(highlights).flat().forEach((h: Highlight) => {
+      const key = getHighlightKey(h);
+      if (seen.has(key)) return;
+      seen.add(key);
+      const id = getHighlightCategory(highlightCategories, h.categoryId).id;
+      counts[id] = (counts[id] || 0) + 1;
+    });
+    return counts;
+  }, [highlights, highlightCategories]);
+
+  // Brings a paragraph into view without selecting it, so the notes browser stays open
+  const jumpToParagraph = (index: number) => {
+    paragraphRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const activeHighlights = activeParagraphIndex !== null ? highlights[activeParagraphIndex] || [] : [];
+  const paragraphNote = activeParagraphIndex !== null ? findNote(notes, activeParagraphIndex) : undefined;
+  // e.g. " (Shift + ↑ / Shift + ↓ step by line)", from the current ruler keys
+  const rulerStepKeys = [...getBindings(settings.keyBindings, 'rulerUp').slice(0, 1), ...getBindings(settings.keyBindings, 'rulerDown').slice(0, 1)];
+  const rulerStepHint = rulerStepKeys.length > 0 ? ` (${rulerStepKeys.map(formatBinding).join(' / ')} step by line)` : '';
+  const shownActiveHighlights = activeHighlights.filter(isHighlightShown);
+
+  // Position in the running text of a DOM point. Rendered text pieces carry their block
+  // offset, so markup inside them (bionic reading, marks) and the zoom copy don't shift it.
+  // Points between pieces count from the end of the piece before them.
+  const getTextPosition = (node: Node, offset: number): TextPosition | null => {
+    const element = node instanceof Element ? node : node.parentElement;
+    const blockEl = element?.closest<HTMLElement>('[data-block-index]');
+    if (!blockEl || !containerRef.current?.contains(blockEl)) return null;
+    const index = Number(blockEl.dataset.blockIndex);
+    let position = 0;
+    for (const piece of Array.from(blockEl.querySelectorAll<HTMLElement>('[data-offset]'))) {
+      const range = document.createRange();
+      range.selectNodeContents(piece);
+      const where = range.comparePoint(node, offset);
+      if (where < 0) break;
+      const start = Number(piece.dataset.offset);
+      if (where === 0) {
+        range.setEnd(node, offset);
+        return { index, offset: start + range.toString().length };
+      }
+      position = start + (piece.textContent || '').length;
+    }
+    return { index, offset: position };
+  };
+
+  // Highlights the selected text, which may run across paragraphs
+  const highlightSelection = () => {
     const selection = window.getSelection();
     if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return;
 
     const range = selection.getRangeAt(0);
-    const preSelectionRange = range.cloneRange();
-    
-    const paragraphNode = paragraphRefs.current[index];
-    if (!paragraphNode) return;
+    const start = getTextPosition(range.startContainer, range.startOffset);
+    const end = getTextPosition(range.endContainer, range.endOffset);
+    if (!start || !end) return;
 
-    if (paragraphNode.contains(range.commonAncestorContainer)) {
-         preSelectionRange.selectNodeContents(paragraphNode);
-         preSelectionRange.setEnd(range.startContainer, range.startOffset);
-         const start = preSelectionRange.toString().length;
-         const text = selection.toString();
-         onAddHighlight(index, start, start + text.length, text);
-    }
-    
+    onAddHighlight(getHighlightRanges(blocks, start, end), markerCategory.id);
     selection.removeAllRanges();
   };
 
+  const handleSelection = () => {
+    if (isMarkerMode) highlightSelection();
+  };
+
   // --- Rendering Text with Highlights and Bionic Reading ---
 
-  const applyBionicReading = (text: string) => {
+  const applyBionicReading = (text: string, language?: string | null) => {
     if (!settings.isBionicReading) return text;
     
-    // Split by spaces to preserve words
-    return text.split(/(\s+)/).map((part, i) => {
-      // If it's whitespace, return as is
-      if (/^\s+$/.test(part)) return part;
+    // Split into words by the language's rules, so Chinese and Japanese get words too
+    return getWordSegments(text, language).map(({ text: part, isWord }, i) => {
+      // Spaces and punctuation are returned as is
+      if (!isWord) return part;
       
-      const length = part.length;
+      const chars = Array.from(part); // Code points, so surrogate pairs aren't split
+      const length = chars.length;
       let boldLength = 0;
       
-      // Heuristic for fixation point
-      if (length === 1) boldLength = 1;
+      // Heuristic for fixation point. Words in unspaced scripts are short and dense,
+      // so only the first character of longer ones is marked.
+      if (UNSPACED_SCRIPT.test(part)) boldLength = length > 1 ? 1 : 0;
+      else if (length === 1) boldLength = 1;
       else if (length <= 3) boldLength = 1;
       else if (length <= 5) boldLength = 2;
       else boldLength = Math.ceil(length * 0.4);
+      if (boldLength === 0) return part;
 
-      const prefix = part.slice(0, boldLength);
-      const suffix = part.slice(boldLength);
+      const prefix = chars.slice(0, boldLength).join('');
+      const suffix = chars.slice(boldLength).join('');
 
       return (
         <React.Fragment key={i}>
@@ -477,56 +1628,221 @@ const Reader: React.FC<ReaderProps> = ({
     });
   };
 
-  const renderParagraphContent = (text: string, index: number) => {
-    const paragraphHighlights = highlights[index];
-    // If no highlights, apply bionic reading to the whole text
-    if (!paragraphHighlights || paragraphHighlights.length === 0) {
-      return settings.isBionicReading ? applyBionicReading(text) : text;
+  const getSpokenWordClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-[#ffff00] text-black rounded-sm';
+      case ThemeMode.DARK: return 'bg-blue-500 text-white rounded-sm';
+      case ThemeMode.SEPIA: return 'bg-[#5b4636] text-[#f4ecd8] rounded-sm';
+      case ThemeMode.INK: return 'bg-black text-white rounded-sm';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-accent)] text-[var(--theme-background)] rounded-sm';
+      default: return 'bg-blue-600 text-white rounded-sm';
+    }
+  };
+
+  const getSpokenSentenceClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'underline decoration-2 underline-offset-4';
+      case ThemeMode.DARK: return 'bg-blue-900/40';
+      case ThemeMode.SEPIA: return 'bg-[#eaddc5]';
+      case ThemeMode.INK: return 'underline decoration-2 underline-offset-4';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-selection)]';
+      default: return 'bg-blue-50';
     }
+  };
 
-    const sorted = [...paragraphHighlights].sort((a, b) => a.start - b.start);
-    const nodes = [];
-    let lastIndex = 0;
+  const getSearchMatchClass = (isCurrent: boolean) => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return isCurrent ? 'bg-cyan-300 text-black rounded-sm' : 'bg-transparent text-cyan-300 outline outline-2 outline-cyan-300 rounded-sm';
+      case ThemeMode.DARK: return isCurrent ? 'bg-orange-400 text-black rounded-sm' : 'bg-orange-700/60 text-inherit rounded-sm';
+      case ThemeMode.SEPIA: return isCurrent ? 'bg-[#c0702a] text-white rounded-sm' : 'bg-[#e8b98a] text-inherit rounded-sm';
+      case ThemeMode.INK: return isCurrent ? 'bg-black text-white rounded-sm' : 'bg-transparent text-inherit outline outline-1 outline-black rounded-sm';
+      case ThemeMode.CUSTOM: return isCurrent ? 'bg-[var(--theme-accent)] text-[var(--theme-background)] rounded-sm' : 'bg-transparent text-inherit outline outline-2 outline-[var(--theme-accent)] rounded-sm';
+      default: return isCurrent ? 'bg-orange-400 text-black rounded-sm' : 'bg-orange-200 text-inherit rounded-sm';
+    }
+  };
+
+  // Highlight colours are user data, so they are inline styles. Every colour also has its own
+  // underline, so categories and overlaps can be told apart without relying on colour.
+  const getHighlightStyle = (colorId: string): React.CSSProperties => {
+    const { color, underline } = getHighlightColor(colorId);
+    const decoration = { textDecorationLine: 'underline', textDecorationStyle: underline, textDecorationThickness: '1px', textUnderlineOffset: '0.25em' };
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return { ...decoration, textDecorationThickness: '2px', backgroundColor: color, color: '#000' };
+      case ThemeMode.DARK: return { ...decoration, backgroundColor: `${color}59`, color: 'inherit' };
+      case ThemeMode.INK: return { ...decoration, textDecorationThickness: '2px', backgroundColor: '#d1d5db', color: '#000' };
+      case ThemeMode.CUSTOM: return {
+        ...decoration,
+        backgroundColor: colorId === HIGHLIGHT_COLORS[0].id ? 'var(--theme-highlight)' : `${color}99`,
+        color: 'var(--theme-text)',
+      };
+      default: return { ...decoration, backgroundColor: color, color: 'inherit' };
+    }
+  };
 
-    sorted.forEach((h, i) => {
-      if (h.start < lastIndex) return; 
+  // Splits text[from, to) so highlights, search matches and the word and sentence being read aloud
+  // can be styled. Each piece records where it starts in the block text, for getTextPosition.
+  const renderWithMarks = (block: Block, index: number, from: number, to: number, isCode: boolean) => {
+    const format = (a: number, b: number) => {
+      const slice = block.text.slice(a, b);
+      return isCode ? slice : applyBionicReading(slice, languages.blocks[index]);
+    };
+    const isSpoken = !!spokenWord && spokenWord.index === index;
+    const hasCaret = !!caret && caret.index === index;
+    const blockMatches = (matchesByBlock.get(index) || []).filter(m => m.match.end > from && m.match.start < to);
+    const blockHighlights = (highlights[index] || []).filter(h => h.end > from && h.start < to && isHighlightShown(h));
+    if (!isSpoken && !hasCaret && blockMatches.length === 0 && blockHighlights.length === 0) {
+      return <span data-offset={from}>{format(from, to)}</span>;
+    }
 
-      // Text before highlight
-      if (h.start > lastIndex) {
-        const preText = text.slice(lastIndex, h.start);
-        nodes.push(
-            <span key={`text-${i}`}>
-                {settings.isBionicReading ? applyBionicReading(preText) : preText}
-            </span>
+    const cuts = new Set([from, to]);
+    const boundaries = isSpoken ? [spokenWord.start, spokenWord.end, spokenSentence?.start, spokenSentence?.end] : [];
+    if (hasCaret) boundaries.push(caret.start, caret.end);
+    blockMatches.forEach(m => boundaries.push(m.match.start, m.match.end));
+    boundaries.push(...getHighlightBoundaries(blockHighlights, from, to));
+    boundaries.forEach(cut => {
+      if (cut !== undefined && cut > from && cut < to) cuts.add(cut);
+    });
+    const points = Array.from(cuts).sort((a, b) => a - b);
+
+    return points.slice(0, -1).map((a, i) => {
+      const b = points[i + 1];
+      let node: React.ReactNode = format(a, b);
+      const search = blockMatches.find(m => a >= m.match.start && b <= m.match.end);
+      if (search) {
+        const isCurrent = search.position === currentMatchIndex;
+        node = (
+          <mark data-search-current={isCurrent || undefined} className={getSearchMatchClass(isCurrent)}>
+            {node}
+          </mark>
+        );
+      }
+      if (isSpoken && a >= spokenWord.start && b <= spokenWord.end) {
+        // Always marked so auto-scroll can find it, styled only when enabled
+        node = (
+          <span data-spoken-word="true" className={settings.isSpokenWordHighlight ? getSpokenWordClass() : ''}>
+            {node}
+          </span>
         );
       }
+      if (isSpoken && spokenSentence && a >= spokenSentence.start && b <= spokenSentence.end) {
+        node = <span className={getSpokenSentenceClass()}>{node}</span>;
+      }
+      if (hasCaret && a >= caret.start && b <= caret.end) {
+        node = <span data-caret="true" className={getCaretClass()}>{node}</span>;
+      }
+      // Overlapping highlights nest, the newest innermost so its colour shows
+      const covering = getCoveringHighlights(blockHighlights, a, b);
+      const names = covering.map(h => getHighlightCategory(highlightCategories, h.categoryId).name).join(', ');
+      [...covering].reverse().forEach(h => {
+        const category = getHighlightCategory(highlightCategories, h.categoryId);
+        node = <mark data-highlight-id={h.id} title={names} style={getHighlightStyle(category.color)}>{node}</mark>;
+      });
+      return <span key={a} data-offset={a}>{node}</span>;
+    });
+  };
 
-      let highlightClass = 'bg-yellow-200 dark:bg-yellow-700/50';
-      if (settings.theme === ThemeMode.HIGH_CONTRAST) highlightClass = 'bg-yellow-600 text-black';
-      if (settings.theme === ThemeMode.INK) highlightClass = 'bg-gray-300 border-b-2 border-black';
+  // Renders text[start, end) of a block with its inline formatting
+  const renderInline = (block: Block, index: number, start: number, end: number, keyPrefix: string) => {
+    const spans: InlineSpan[] = block.spans || [{ text: block.text }];
+    const nodes: React.ReactNode[] = [];
+    let offset = 0;
+
+    spans.forEach((span, i) => {
+      const spanStart = offset;
+      offset += span.text.length;
+      const from = Math.max(start, spanStart);
+      const to = Math.min(end, offset);
+      if (from >= to) return;
+
+      let node: React.ReactNode = renderWithMarks(block, index, from, to, !!span.code);
+      if (span.code) node = <code className="font-mono text-[0.9em] px-1 rounded bg-current/10">{node}</code>;
+      if (span.bold) node = <strong>{node}</strong>;
+      if (span.italic) node = <em>{node}</em>;
+      if (span.href) {
+        node = <a href={span.href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2">{node}</a>;
+      }
+      nodes.push(<React.Fragment key={`${keyPrefix}-${i}`}>{node}</React.Fragment>);
+    });
 
-      // Highlighted text
-      const highlightedText = text.slice(h.start, h.end);
-      nodes.push(
-        <mark key={h.id} className={`${highlightClass} px-0.5 rounded-sm`}>
-          {settings.isBionicReading ? applyBionicReading(highlightedText) : highlightedText}
-        </mark>
+    return nodes;
+  };
+
+  const renderParagraphContent = (block: Block, index: number) =>
+    renderInline(block, index, 0, block.text.length, 'all');
+
+  // --- Block Structure ---
+
+  const HEADING_SCALE = [1.8, 1.5, 1.3, 1.15, 1.05, 1];
+
+  const getBlockFontScale = (block: Block) =>
+    block.type === BlockType.HEADING ? HEADING_SCALE[Math.min(Math.max(block.level || 1, 1), 6) - 1] : 1;
+
+  // Semantic element for each block so assistive tech can navigate the structure
+  const getBlockTag = (block: Block) => {
+    switch (block.type) {
+      case BlockType.HEADING: return `h${Math.min(Math.max(block.level || 1, 1), 6)}`;
+      case BlockType.QUOTE: return 'blockquote';
+      case BlockType.TABLE: return 'div';
+      case BlockType.IMAGE: return 'figure';
+      case BlockType.CODE: return 'pre';
+      default: return 'p';
+    }
+  };
+
+  const getBlockClass = (block: Block) => {
+    switch (block.type) {
+      case BlockType.HEADING: return 'font-bold';
+      case BlockType.QUOTE: return 'italic border-s-4 border-current border-opacity-30 ps-4';
+      case BlockType.TABLE: return 'overflow-x-auto';
+      case BlockType.CODE: return 'whitespace-pre-wrap text-[0.85em] p-4 rounded-lg bg-current/5 overflow-x-auto';
+      default: return '';
+    }
+  };
+
+  const getListMarker = (block: Block) => {
+    if (block.ordered) return `${block.number ?? 1}.`;
+    return ['•', '◦', '▪'][(block.level || 0) % 3];
+  };
+
+  const renderBlockBody = (block: Block, index: number) => {
+    if (block.type === BlockType.TABLE && block.rows) {
+      const [header, ...body] = block.rows;
+      return (
+        <table className="w-full border-collapse text-[0.85em]">
+          <thead>
+            <tr>
+              {header.map((cell, i) => (
+                <th key={i} scope="col" className="border border-current border-opacity-30 px-3 py-2 text-left font-bold">{cell}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {body.map((row, r) => (
+              <tr key={r}>
+                {row.map((cell, c) => (
+                  <td key={c} className="border border-current border-opacity-30 px-3 py-2 align-top">{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
       );
-      
-      lastIndex = h.end;
-    });
+    }
 
-    // Text after last highlight
-    if (lastIndex < text.length) {
-      const postText = text.slice(lastIndex);
-      nodes.push(
-        <span key="text-end">
-            {settings.isBionicReading ? applyBionicReading(postText) : postText}
-        </span>
+    if (block.type === BlockType.IMAGE) {
+      return (
+        <>
+          {block.src && <img src={block.src} alt={block.alt || ''} className="max-w-full h-auto rounded" />}
+          {block.alt && (
+            <figcaption className="text-[0.8em] opacity-70 mt-2 italic" aria-hidden={!!block.src}>
+              {block.alt}
+            </figcaption>
+          )}
+        </>
       );
     }
 
-    return nodes;
+    return renderParagraphContent(block, index);
   };
 
   // --- Side Panel Styles ---
@@ -537,6 +1853,7 @@ const Reader: React.FC<ReaderProps> = ({
       case ThemeMode.DARK: return 'bg-gray-900 border-l border-gray-700 text-gray-200';
       case ThemeMode.SEPIA: return 'bg-[#f4ecd8] border-l border-[#d8cba8] text-[#5b4636]';
       case ThemeMode.INK: return 'bg-white border-l border-gray-300 text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-l border-[var(--theme-accent)] text-[var(--theme-text)]';
       default: return 'bg-gray-50 border-l border-gray-200 text-gray-800';
     }
   };
@@ -547,6 +1864,7 @@ const Reader: React.FC<ReaderProps> = ({
       case ThemeMode.DARK: return 'bg-gray-800 text-white border-gray-600 placeholder-gray-400';
       case ThemeMode.INK: return 'bg-white text-black border-black placeholder-gray-500 ring-1 ring-transparent focus:ring-black';
       case ThemeMode.SEPIA: return 'bg-[#fffdf5] text-[#463529] border-[#d8cba8] placeholder-[#9c8672]';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] text-[var(--theme-text)] border-[var(--theme-accent)] placeholder-current';
       default: return 'bg-white text-gray-900 border-gray-300 placeholder-gray-400';
     }
   };
@@ -557,6 +1875,7 @@ const Reader: React.FC<ReaderProps> = ({
       case ThemeMode.DARK: return 'bg-gray-800 border-gray-600 text-gray-100';
       case ThemeMode.SEPIA: return 'bg-[#eaddc5] border-[#d8cba8] text-[#3e3025]';
       case ThemeMode.INK: return 'bg-white border-black text-black shadow-none ring-1 ring-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-highlight)] border-[var(--theme-accent)] text-[var(--theme-text)]';
       default: return 'bg-yellow-50 border-yellow-200 text-gray-900 shadow-sm';
     }
   };
@@ -567,12 +1886,21 @@ const Reader: React.FC<ReaderProps> = ({
     if (isActive) {
       if (settings.theme === ThemeMode.HIGH_CONTRAST) return `${base} bg-yellow-900/50 text-yellow-400 border-yellow-400`;
       if (settings.theme === ThemeMode.INK) return `${base} bg-gray-200 text-black border-black`;
+      if (settings.theme === ThemeMode.CUSTOM) return `${base} bg-[var(--theme-selection)] text-[var(--theme-text)] border-[var(--theme-accent)]`;
       return `${base} bg-blue-50 text-blue-700 border-blue-200`;
     }
     
     return `${base} bg-transparent border-current opacity-60 hover:opacity-100`;
   };
 
+  const getTransportButtonClass = () => {
+    const base = "flex-1 flex items-center justify-center p-3 rounded-lg border font-bold transition-all text-lg";
+    if (settings.theme === ThemeMode.HIGH_CONTRAST) return `${base} border-yellow-400 text-yellow-400 hover:bg-yellow-900/30`;
+    if (settings.theme === ThemeMode.INK) return `${base} border-black text-black hover:bg-gray-100`;
+    if (settings.theme === ThemeMode.CUSTOM) return `${base} border-[var(--theme-accent)] text-[var(--theme-text)] hover:bg-current/5`;
+    return `${base} bg-transparent border-current opacity-80 hover:opacity-100 hover:bg-current hover:bg-opacity-5`;
+  };
+
   const getProminentButtonClass = (isActive: boolean) => {
     const base = "w-full py-5 px-5 rounded-xl font-bold flex items-center justify-between gap-4 transition-all border-2 mb-6 shadow-md group relative overflow-hidden transform hover:scale-[1.02]";
     
@@ -580,6 +1908,7 @@ const Reader: React.FC<ReaderProps> = ({
       if (settings.theme === ThemeMode.HIGH_CONTRAST) return `${base} bg-yellow-400 text-black border-yellow-400 ring-2 ring-yellow-400 ring-offset-2 ring-offset-black`;
       if (settings.theme === ThemeMode.INK) return `${base} bg-black text-white border-black ring-2 ring-black ring-offset-2`;
       if (settings.theme === ThemeMode.SEPIA) return `${base} bg-[#5b4636] text-[#f4ecd8] border-[#5b4636] ring-2 ring-[#5b4636] ring-offset-2 ring-offset-[#f4ecd8]`;
+      if (settings.theme === ThemeMode.CUSTOM) return `${base} bg-[var(--theme-accent)] text-[var(--theme-background)] border-[var(--theme-accent)] ring-2 ring-[var(--theme-accent)] ring-offset-2 ring-offset-[var(--theme-background)]`;
       return `${base} bg-blue-600 text-white border-blue-600 ring-2 ring-blue-500 ring-offset-2`;
     }
     
@@ -587,82 +1916,234 @@ const Reader: React.FC<ReaderProps> = ({
     if (settings.theme === ThemeMode.HIGH_CONTRAST) return `${base} bg-transparent text-yellow-400 border-yellow-400 hover:bg-yellow-900/30`;
     if (settings.theme === ThemeMode.INK) return `${base} bg-white text-black border-black hover:bg-gray-100`;
     if (settings.theme === ThemeMode.SEPIA) return `${base} bg-[#f4ecd8] text-[#5b4636] border-[#5b4636] hover:bg-[#eaddc5]`;
+    if (settings.theme === ThemeMode.CUSTOM) return `${base} bg-[var(--theme-background)] text-[var(--theme-accent)] border-[var(--theme-accent)] hover:bg-current/5`;
     return `${base} bg-white text-blue-600 border-blue-600 hover:bg-blue-50`;
   };
 
-  return (
-    <div className="flex h-full overflow-hidden">
-      {/* LEFT: Text Area */}
+  const renderBlock = (block: Block, index: number) => {
+    const hasAnnotation = notes.some(note => note.paragraph === index);
+    const hasHighlights = highlights[index] && highlights[index].length > 0;
+    const isZoomed = settings.isHoverZoom && hoveredParagraphIndex === index;
+    const isListItem = block.type === BlockType.LIST_ITEM;
+    const Tag = getBlockTag(block) as any;
+    const fontScale = getBlockFontScale(block);
+    const language = languages.blocks[index];
+
+    return (
       <div 
-        ref={containerRef}
-        className="flex-1 overflow-y-auto px-6 py-12 pb-32 lg:px-16 scroll-smooth focus:outline-none"
-        style={containerStyle}
-        tabIndex={0}
+        key={index} 
+        data-block-index={index}
+        lang={language || undefined}
+        dir={getTextDirection(language)}
+        className={`relative ${isListItem ? 'mb-3' : ''} transition-all duration-300 ${getActiveBorderClass(index)} ps-4 rounded-e-lg group ${isListItem ? 'flex gap-3' : ''}`}
+        style={isListItem ? undefined : { marginBottom: `${settings.paragraphSpacing * settings.fontSize}px` }}
+        onMouseEnter={() => setHoveredParagraphIndex(index)}
+        onMouseLeave={() => setHoveredParagraphIndex(null)}
       >
-        {paragraphs.map((text, index) => {
-          const hasAnnotation = !!annotations[index];
-          const hasHighlights = highlights[index] && highlights[index].length > 0;
-          const isZoomed = settings.isHoverZoom && hoveredParagraphIndex === index;
-          
-          return (
-            <div 
-              key={index} 
-              className={`relative mb-8 transition-all duration-300 ${getActiveBorderClass(index)} pl-4 rounded-r-lg group`}
-              onMouseEnter={() => setHoveredParagraphIndex(index)}
-              onMouseLeave={() => setHoveredParagraphIndex(null)}
-            >
-              {/* ORIGINAL PARAGRAPH (Placeholder when zoomed) */}
-              <p
-                ref={el => { paragraphRefs.current[index] = el; }}
-                className={`transition-opacity duration-200`}
-                style={{
-                    ...getParagraphStyle(index),
-                    opacity: isZoomed ? 0 : getParagraphStyle(index).opacity
-                }}
-                onMouseUp={() => handleSelection(index)}
-                onClick={() => handleParagraphClick(index)}
-              >
-                {renderParagraphContent(text, index)}
-              </p>
-
-              {/* ZOOM POP-OUT OVERLAY */}
-              {isZoomed && (
-                <div 
-                    className={`
-                        absolute -top-4 -left-2 w-[calc(100%+2rem)] p-6 rounded-lg z-50
-                        ${getZoomOverlayClass()}
-                    `}
-                    onMouseUp={() => handleSelection(index)}
-                    onClick={() => handleParagraphClick(index)}
-                >
-                    <p style={{
-                         ...getParagraphStyle(index),
-                         fontSize: `${settings.fontSize * 1.35}px`,
-                         opacity: 1,
-                         lineHeight: settings.lineHeight,
-                         whiteSpace: 'normal', 
-                         overflowWrap: 'break-word'
-                    }}>
-                        {renderParagraphContent(text, index)}
-                    </p>
-                </div>
-              )}
+        {isListItem && (
+          <span aria-hidden="true" className="flex-shrink-0 font-bold" style={{ ...getParagraphStyle(index), opacity: isZoomed ? 0 : getParagraphStyle(index).opacity }}>
+            {getListMarker(block)}
+          </span>
+        )}
 
-              {/* Indicators */}
-              <div className="absolute top-0 -right-4 flex flex-col gap-1">
-                 {hasAnnotation && (
-                  <span className="text-3xl" title="Has annotation">📝</span>
-                )}
-                 {hasHighlights && (
-                  <span className="text-xl opacity-70" title="Has highlights">🖍</span>
-                )}
+        {/* ORIGINAL BLOCK (Placeholder when zoomed) */}
+        <Tag
+          ref={(el: HTMLElement | null) => { paragraphRefs.current[index] = el; }}
+          className={`transition-opacity duration-200 ${getBlockClass(block)}`}
+          style={{
+              ...getParagraphStyle(index),
+              opacity: isZoomed ? 0 : getParagraphStyle(index).opacity
+          }}
+          onClick={() => handleParagraphClick(index)}
+        >
+          {renderBlockBody(block, index)}
+        </Tag>
+
+        {/* ZOOM POP-OUT OVERLAY */}
+        {isZoomed && (
+          <div 
+              className={`
+                  absolute -top-4 -start-2 w-[calc(100%+2rem)] p-6 rounded-lg z-50
+                  ${getZoomOverlayClass()}
+              `}
+              aria-hidden="true"
+              onClick={() => handleParagraphClick(index)}
+          >
+              <div
+                className={getBlockClass(block)}
+                style={{
+                   ...getParagraphStyle(index),
+                   fontSize: `${settings.fontSize * fontScale * 1.35}px`,
+                   opacity: 1,
+                   lineHeight: settings.lineHeight,
+                   whiteSpace: block.type === BlockType.CODE ? 'pre-wrap' : 'normal',
+                   overflowWrap: 'break-word'
+              }}>
+                  {isListItem && <span className="font-bold me-3">{getListMarker(block)}</span>}
+                  {renderBlockBody(block, index)}
               </div>
-            </div>
-          );
-        })}
-        {paragraphs.length === 0 && (
-          <div className="text-center opacity-50 mt-20">No content. Use toolbar to open file.</div>
+          </div>
+        )}
+
+        {/* Indicators */}
+        <div className="absolute top-0 -end-4 flex flex-col gap-1">
+           {hasAnnotation && (
+            <span className="text-3xl" title="Has annotation">📝</span>
+          )}
+           {hasHighlights && (
+            <span className="text-xl opacity-70" title="Has highlights">🖍</span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // List items from `start` at `level` or deeper, as a list with the deeper items in nested
+  // lists, so screen readers announce the nesting and item counts. Returns the list and the
+  // index after it. `parentLevel` is the level of the enclosing list, for the indent.
+  const renderList = (start: number, level: number, parentLevel: number): [React.ReactNode, number] => {
+    const getLevel = (i: number) => blocks[i].level || 0;
+    const isItemAt = (i: number, min: number) =>
+      i < blocks.length && blocks[i].type === BlockType.LIST_ITEM && getLevel(i) >= min;
+    const ordered = !!blocks[start].ordered;
+    const items: React.ReactNode[] = [];
+    let i = start;
+
+    while (isItemAt(i, level)) {
+      // Items deeper than this list without a parent item of their own
+      if (getLevel(i) > level) {
+        const [nested, end] = renderList(i, getLevel(i), level);
+        items.push(<li key={`nested-${i}`}>{nested}</li>);
+        i = end;
+        continue;
+      }
+      // Switching between bullets and numbers starts a new list
+      if (!!blocks[i].ordered !== ordered) break;
+      const index = i++;
+      let nested: React.ReactNode = null;
+      if (isItemAt(i, level + 1)) [nested, i] = renderList(i, getLevel(i), level);
+      items.push(
+        <li key={index} value={ordered ? blocks[index].number : undefined}>
+          {renderBlock(blocks[index], index)}
+          {nested}
+        </li>
+      );
+    }
+
+    const List = ordered ? 'ol' : 'ul';
+    return [
+      <List key={`list-${start}`} style={{ paddingInlineStart: `${(level - parentLevel) * 1.5}em` }}>{items}</List>,
+      i,
+    ];
+  };
+
+  const renderBlocks = () => {
+    const nodes: React.ReactNode[] = [];
+    let index = 0;
+    while (index < blocks.length) {
+      const block = blocks[index];
+      if (block.type === BlockType.LIST_ITEM) {
+        const [list, end] = renderList(index, block.level || 0, 0);
+        nodes.push(list);
+        index = end;
+      } else {
+        nodes.push(renderBlock(block, index++));
+      }
+    }
+    return nodes;
+  };
+
+  return (
+    <div className="flex h-full overflow-hidden">
+      {/* LEFT: Text Area */}
+      <div className="flex-1 flex flex-col min-w-0 relative">
+        {totalWords > 0 && (
+          <ReadingProgress
+            theme={settings.theme}
+            progress={wordsBehind / totalWords}
+            minutesLeft={(totalWords - wordsBehind) / readingSpeed.wordsPerMinute}
+            wordsPerMinute={readingSpeed.wordsPerMinute}
+            isMeasured={readingSpeed.isMeasured}
+          />
+        )}
+
+        {resumeOffer && (
+          <ContinuePrompt
+            theme={settings.theme}
+            description={getResumeDescription(resumeOffer)}
+            onContinue={handleContinueReading}
+            onStartOver={handleStartOver}
+          />
         )}
+
+        {isAutoScrolling && (
+          <AutoScrollControls
+            theme={settings.theme}
+            wordsPerMinute={settings.autoScrollSpeed}
+            isPaused={isAutoScrollPaused}
+            isHeld={isAutoScrollHeld}
+            isGuideVisible={settings.isAutoScrollGuide}
+            keyBindings={settings.keyBindings}
+            onTogglePause={() => setIsAutoScrollPaused(prev => !prev)}
+            onSlower={() => adjustAutoScrollSpeed(-AUTO_SCROLL_STEP_WPM)}
+            onFaster={() => adjustAutoScrollSpeed(AUTO_SCROLL_STEP_WPM)}
+            onToggleGuide={() => onUpdateSettings({ ...settings, isAutoScrollGuide: !settings.isAutoScrollGuide })}
+            onStop={stopAutoScroll}
+          />
+        )}
+
+        {/* Reading area; the guide line is positioned against it */}
+        <div ref={readingAreaRef} className="relative flex-1 min-h-0 flex flex-col">
+          <div 
+            ref={containerRef}
+            className="flex-1 overflow-y-auto px-6 py-12 pb-32 lg:px-16 scroll-smooth focus:outline-none"
+            style={containerStyle}
+            lang={languages.document || undefined}
+            tabIndex={0}
+            onScroll={handleScroll}
+            onMouseUp={handleSelection}
+          >
+            {isSearchOpen && (
+              <SearchBar
+                theme={settings.theme}
+                query={searchQuery}
+                onQueryChange={setSearchQuery}
+                options={searchOptions}
+                onOptionsChange={setSearchOptions}
+                matchCount={searchResult.matches.length}
+                currentMatch={currentMatchIndex}
+                error={searchResult.error}
+                onNext={() => goToMatch(1)}
+                onPrevious={() => goToMatch(-1)}
+                onClose={closeSearch}
+              />
+            )}
+            <div className="mx-auto" style={measureStyle}>
+              {renderBlocks()}
+            </div>
+            {blocks.length === 0 && (
+              <div className="text-center opacity-50 mt-20">No content. Use toolbar to open file.</div>
+            )}
+          </div>
+          {isAutoScrolling && settings.isAutoScrollGuide && (
+            <div
+              aria-hidden="true"
+              className={`pointer-events-none absolute left-0 right-0 z-30 border-t-2 ${getGuideLineClass()}`}
+              style={{ top: `${GUIDE_LINE_RATIO * 100}%` }}
+            />
+          )}
+          {settings.isReadingRuler && (
+            <ReadingRuler
+              areaRef={readingAreaRef}
+              scrollerRef={containerRef}
+              lineHeight={settings.fontSize * settings.lineHeight}
+              lines={settings.rulerHeight}
+              tint={settings.rulerTint}
+              maskOpacity={settings.rulerOpacity}
+              keyBindings={settings.keyBindings}
+            />
+          )}
+        </div>
       </div>
 
       {/* Resize Handle */}
@@ -679,7 +2160,9 @@ const Reader: React.FC<ReaderProps> = ({
           onClick={() => setIsSidebarOpen(true)}
           className={`
              absolute right-0 top-20 z-40 p-3 rounded-l-lg shadow-lg border-y border-l transition-colors
-             ${settings.theme === ThemeMode.HIGH_CONTRAST ? 'bg-black border-yellow-400 text-yellow-400' : 'bg-white border-gray-300 text-gray-600 hover:text-blue-600'}
+             ${settings.theme === ThemeMode.HIGH_CONTRAST ? 'bg-black border-yellow-400 text-yellow-400' : ''}
+             ${settings.theme === ThemeMode.CUSTOM ? 'bg-[var(--theme-background)] border-[var(--theme-accent)] text-[var(--theme-text)]' : ''}
+             ${settings.theme !== ThemeMode.HIGH_CONTRAST && settings.theme !== ThemeMode.CUSTOM ? 'bg-white border-gray-300 text-gray-600 hover:text-blue-600' : ''}
           `}
           title="Open Sidebar"
         >
@@ -732,6 +2215,55 @@ const Reader: React.FC<ReaderProps> = ({
                </div>
              </button>
 
+             {settings.isLoupeActive && (
+               <div className="mb-3 px-1 flex flex-col gap-2 text-sm font-medium">
+                 <div className="flex gap-2" role="group" aria-label="Magnifier mode">
+                   {([
+                     { mode: LoupeMode.WORD, label: 'Word', title: 'The word under the pointer' },
+                     { mode: LoupeMode.LINE, label: 'Line', title: 'The whole line, centred on the word under the pointer' },
+                     { mode: LoupeMode.REGION, label: 'Region', title: 'Magnify everything under the pointer, including images and controls' },
+                   ]).map(option => (
+                     <button
+                       key={option.mode}
+                       onClick={() => onUpdateSettings({...settings, loupeMode: option.mode})}
+                       className={`flex-1 py-1.5 rounded border border-current font-bold ${settings.loupeMode === option.mode ? 'opacity-100 bg-current/10' : 'opacity-50 hover:opacity-100'}`}
+                       title={option.title}
+                       aria-pressed={settings.loupeMode === option.mode}
+                     >
+                       {option.label}
+                     </button>
+                   ))}
+                 </div>
+                 {([
+                   { key: 'loupeZoom', label: 'Zoom', min: 1.5, max: 6, step: 0.5, format: (v: number) => `${v}×` },
+                   { key: 'loupeSize', label: 'Size', min: 160, max: 480, step: 16, format: (v: number) => `${v}px` },
+                 ] as const).map(control => (
+                   <label key={control.key} className="flex items-center gap-3">
+                     <span className="w-14 opacity-80">{control.label}</span>
+                     <input
+                       type="range"
+                       min={control.min}
+                       max={control.max}
+                       step={control.step}
+                       value={settings[control.key]}
+                       onChange={(e) => onUpdateSettings({...settings, [control.key]: Number(e.target.value)})}
+                       className="flex-1 accent-current"
+                     />
+                     <span className="w-14 text-right font-mono text-xs">{control.format(settings[control.key])}</span>
+                   </label>
+                 ))}
+                 <label className="flex items-center gap-2 cursor-pointer opacity-80 hover:opacity-100">
+                   <input
+                     type="checkbox"
+                     checked={settings.isLoupeDocked}
+                     onChange={(e) => onUpdateSettings({...settings, isLoupeDocked: e.target.checked})}
+                     className="w-4 h-4 rounded"
+                   />
+                   Dock above the text
+                 </label>
+               </div>
+             )}
+
              {/* MARKER - SECONDARY */}
              <button 
                onClick={() => setIsMarkerMode(!isMarkerMode)}
@@ -745,6 +2277,161 @@ const Reader: React.FC<ReaderProps> = ({
                  {isMarkerMode ? "ON" : "OFF"}
                </span>
              </button>
+             {isMarkerMode && (
+               <div className="mb-4 px-1 flex flex-col gap-2 text-sm">
+                 <div role="radiogroup" aria-label="Highlight with category" className="flex flex-wrap gap-x-3 gap-y-2">
+                   {highlightCategories.map(category => (
+                     <label key={category.id} className="flex items-center gap-1 cursor-pointer">
+                       <input
+                         type="radio"
+                         name="marker-category"
+                         checked={markerCategory.id === category.id}
+                         onChange={() => setMarkerCategoryId(category.id)}
+                         className="w-4 h-4"
+                       />
+                       <mark className="px-1 rounded-sm" style={getHighlightStyle(category.color)}>{category.name}</mark>
+                     </label>
+                   ))}
+                 </div>
+                 <button
+                   onMouseDown={(e) => e.preventDefault()} // Keep the selection
+                   onClick={highlightSelection}
+                   className="px-3 py-2 rounded border border-current font-medium opacity-80 hover:opacity-100"
+                 >
+                   Highlight selection
+                 </button>
+                 <p className="text-xs opacity-60">
+                   Selections with the mouse are highlighted when you let go, and can run across paragraphs. Keyboard selections are highlighted with the button.
+                 </p>
+               </div>
+             )}
+             <HighlightLegend
+               categories={highlightCategories}
+               counts={highlightCounts}
+               hiddenCategoryIds={hiddenCategoryIds}
+               onToggleCategory={toggleHighlightCategory}
+               onUpdateCategories={onUpdateHighlightCategories}
+               getMarkStyle={getHighlightStyle}
+               fieldClass={getTextAreaClass()}
+             />
+
+             {/* SEARCH - SECONDARY */}
+             <button 
+               onClick={() => isSearchOpen ? closeSearch() : openSearch()}
+               className={getSecondaryButtonClass(isSearchOpen)}
+               title={`Find in document${getShortcutHint(settings.keyBindings, 'search')}`}
+             >
+               <div className="flex items-center gap-3">
+                 <span className="text-xl">🔎</span>
+                 <span className="font-bold">Find in Document</span>
+               </div>
+               <span className="text-xs uppercase font-bold tracking-wider opacity-70">
+                 {isSearchOpen ? "ON" : "OFF"}
+               </span>
+             </button>
+
+             {/* READING RULER - SECONDARY */}
+             <button
+               onClick={() => onUpdateSettings({...settings, isReadingRuler: !settings.isReadingRuler})}
+               className={getSecondaryButtonClass(settings.isReadingRuler)}
+               title={`Mask everything but the line you are reading${rulerStepHint}`}
+             >
+               <div className="flex items-center gap-3">
+                 <span className="text-xl">📏</span>
+                 <span className="font-bold">Reading Ruler</span>
+               </div>
+               <span className="text-xs uppercase font-bold tracking-wider opacity-70">
+                 {settings.isReadingRuler ? "ON" : "OFF"}
+               </span>
+             </button>
+             {settings.isReadingRuler && (
+               <div className="mb-3 px-1 flex flex-col gap-2 text-sm font-medium">
+                 {([
+                   { key: 'rulerHeight', label: 'Height', min: 1, max: 6, step: 0.5, format: (v: number) => `${v} ${v === 1 ? 'line' : 'lines'}` },
+                   { key: 'rulerOpacity', label: 'Mask', min: 0, max: 0.95, step: 0.05, format: (v: number) => `${Math.round(v * 100)}%` },
+                 ] as const).map(control => (
+                   <label key={control.key} className="flex items-center gap-3">
+                     <span className="w-14 opacity-80">{control.label}</span>
+                     <input
+                       type="range"
+                       min={control.min}
+                       max={control.max}
+                       step={control.step}
+                       value={settings[control.key]}
+                       onChange={(e) => onUpdateSettings({...settings, [control.key]: Number(e.target.value)})}
+                       className="flex-1 accent-current"
+                     />
+                     <span className="w-14 text-right font-mono text-xs">{control.format(settings[control.key])}</span>
+                   </label>
+                 ))}
+                 <div className="flex items-center gap-3">
+                   <span className="w-14 opacity-80">Tint</span>
+                   <div className="flex items-center gap-2" role="group" aria-label="Ruler tint">
+                     {RULER_TINTS.map(tint => (
+                       <button
+                         key={tint.color}
+                         onClick={() => onUpdateSettings({...settings, rulerTint: tint.color})}
+                         className={`w-6 h-6 rounded-full border-2 ${settings.rulerTint === tint.color ? 'border-current scale-110' : 'border-current border-opacity-30'}`}
+                         style={{ backgroundColor: tint.color }}
+                         title={tint.name}
+                         aria-label={tint.name}
+                         aria-pressed={settings.rulerTint === tint.color}
+                       />
+                     ))}
+                     <input
+                       type="color"
+                       value={settings.rulerTint}
+                       onChange={(e) => onUpdateSettings({...settings, rulerTint: e.target.value})}
+                       className="w-6 h-6 rounded cursor-pointer bg-transparent"
+                       title="Custom tint"
+                       aria-label="Custom tint"
+                     />
+                   </div>
+                 </div>
+               </div>
+             )}
+
+             {/* AUTO-SCROLL - SECONDARY */}
+             <button
+               onClick={() => isAutoScrolling ? stopAutoScroll() : startAutoScroll()}
+               className={getSecondaryButtonClass(isAutoScrolling)}
+               title={`Scroll hands-free at your reading speed${getShortcutHint(settings.keyBindings, 'toggleAutoScroll')}`}
+             >
+               <div className="flex items-center gap-3">
+                 <span className="text-xl">📜</span>
+                 <span className="font-bold">Auto-Scroll</span>
+               </div>
+               <span className="text-xs uppercase font-bold tracking-wider opacity-70">
+                 {isAutoScrolling ? "ON" : "OFF"}
+               </span>
+             </button>
+
+             {/* CARET BROWSING - SECONDARY */}
+             <button
+               onClick={() => isCaretBrowsing ? stopCaretBrowsing() : startCaretBrowsing()}
+               className={getSecondaryButtonClass(isCaretBrowsing)}
+               title={`Move through the text word by word with the arrow keys${getShortcutHint(settings.keyBindings, 'toggleCaret')}`}
+             >
+               <div className="flex items-center gap-3">
+                 <span className="text-xl">⌨️</span>
+                 <span className="font-bold">Caret Browsing</span>
+               </div>
+               <span className="text-xs uppercase font-bold tracking-wider opacity-70">
+                 {isCaretBrowsing ? "ON" : "OFF"}
+               </span>
+             </button>
+             {isCaretBrowsing && (
+               <ul className="px-4 py-2 text-xs opacity-80 space-y-1" aria-label="Caret keys">
+                 {SHORTCUT_COMMANDS.filter(command => command.scope === 'caret').map(command => (
+                   <li key={command.id} className="flex justify-between gap-2">
+                     <span>{command.label}</span>
+                     <kbd className="font-mono font-bold">
+                       {getBindings(settings.keyBindings, command.id).map(formatBinding).join(', ') || '—'}
+                     </kbd>
+                   </li>
+                 ))}
+               </ul>
+             )}
 
              {/* VOICE CONTROL - NEW */}
              <div className="mt-4 pt-4 border-t border-current border-opacity-10">
@@ -769,21 +2456,38 @@ const Reader: React.FC<ReaderProps> = ({
                </button>
                
                {isVoiceControlActive && (
-                  <div className="mt-2 p-2 rounded bg-black/5 text-xs font-mono opacity-70 text-center min-h-[1.5em]">
-                      {lastVoiceCommand ? `"${lastVoiceCommand}"` : "Say 'Next', 'Read All', etc..."}
+                  <div className="mt-2 p-2 rounded bg-black/5 text-xs opacity-70 text-center min-h-[1.5em]" aria-live="polite">
+                      {voiceFeedback ? (
+                          <>
+                              <span className="font-mono">"{voiceFeedback.transcript}"</span>
+                              <span className={voiceFeedback.isRecognised ? 'font-bold' : 'italic'}> → {voiceFeedback.response}</span>
+                          </>
+                      ) : (
+                          <span className="font-mono">Say "{getVoiceExample(voiceGrammar, 'nextParagraph')}", "{getVoiceExample(voiceGrammar, 'help')}"...</span>
+                      )}
                   </div>
                )}
+
+               <VoiceCommandSettings
+                   settings={settings}
+                   onUpdateSettings={onUpdateSettings}
+                   fieldClass={getTextAreaClass()}
+               />
              </div>
 
              {/* TTS / READING MODE */}
              <div className="mt-4 pt-4 border-t border-current border-opacity-10">
                 <h3 className="text-sm font-bold uppercase tracking-wider mb-3 opacity-80 flex items-center gap-2">
                     <span>Read Aloud</span>
-                    {isSpeaking && <span className="flex h-2 w-2 rounded-full bg-red-500 animate-pulse"></span>}
+                    {isSpeaking && <span className={`flex h-2 w-2 rounded-full bg-red-500 ${isPaused ? '' : 'animate-pulse'}`}></span>}
+                    {isPaused && <span className="text-[10px] font-bold tracking-widest opacity-70">PAUSED</span>}
                 </h3>
                 
-                {/* Voice Selection */}
+                {/* Voice Selection; voices for the document's language are listed first */}
                 <div className="mb-3">
+                    {languages.document && (
+                        <p className="mb-2 text-xs opacity-70">Document language: {getLanguageName(languages.document)}</p>
+                    )}
                     <select 
                         value={settings.speechVoiceURI}
                         onChange={(e) => onUpdateSettings({...settings, speechVoiceURI: e.target.value})}
@@ -791,12 +2495,73 @@ const Reader: React.FC<ReaderProps> = ({
                         aria-label="Select Voice"
                     >
                         <option value="">Default Voice</option>
-                        {voices.map(v => (
-                            <option key={v.voiceURI} value={v.voiceURI}>
-                                {v.name} ({v.lang})
-                            </option>
-                        ))}
+                        {documentVoices.length > 0 && (
+                            <optgroup label={`${getLanguageName(languages.document as string)} voices`}>
+                                {documentVoices.map(v => (
+                                    <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>
+                                ))}
+                            </optgroup>
+                        )}
+                        <optgroup label={documentVoices.length > 0 ? 'Other voices' : 'All voices'}>
+                            {voices.filter(v => !documentVoices.includes(v)).map(v => (
+                                <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>
+                            ))}
+                        </optgroup>
                     </select>
+                    <label className="mt-2 flex items-center gap-2 text-sm font-medium cursor-pointer opacity-80 hover:opacity-100">
+                        <input
+                            type="checkbox"
+                            checked={settings.isAutoVoice}
+                            onChange={(e) => onUpdateSettings({...settings, isAutoVoice: e.target.checked})}
+                            className="w-4 h-4 rounded"
+                        />
+                        Match the voice to each paragraph's language
+                    </label>
+                </div>
+
+                {/* Rate / Pitch / Volume */}
+                <div className="mb-3 flex flex-col gap-2 text-sm font-medium">
+                    {([
+                        { key: 'speechRate', label: 'Speed', min: 0.5, max: 2, step: 0.1, format: (v: number) => `${v.toFixed(1)}×` },
+                        { key: 'speechPitch', label: 'Pitch', min: 0, max: 2, step: 0.1, format: (v: number) => v.toFixed(1) },
+                        { key: 'speechVolume', label: 'Volume', min: 0, max: 1, step: 0.05, format: (v: number) => `${Math.round(v * 100)}%` },
+                    ] as const).map(control => (
+                        <label key={control.key} className="flex items-center gap-3">
+                            <span className="w-14 opacity-80">{control.label}</span>
+                            <input
+                                type="range"
+                                min={control.min}
+                                max={control.max}
+                                step={control.step}
+                                value={settings[control.key]}
+                                onChange={(e) => onUpdateSettings({...settings, [control.key]: Number(e.target.value)})}
+                                className="flex-1 accent-current"
+                            />
+                            <span className="w-12 text-right font-mono text-xs">{control.format(settings[control.key])}</span>
+                        </label>
+                    ))}
+                </div>
+
+                {/* Spoken Text Highlighting */}
+                <div className="mb-3 flex flex-col gap-2 text-sm font-medium">
+                    <label className="flex items-center gap-2 cursor-pointer opacity-80 hover:opacity-100">
+                        <input
+                            type="checkbox"
+                            checked={settings.isSpokenWordHighlight}
+                            onChange={(e) => onUpdateSettings({...settings, isSpokenWordHighlight: e.target.checked})}
+                            className="w-4 h-4 rounded"
+                        />
+                        Highlight spoken word
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer opacity-80 hover:opacity-100">
+                        <input
+                            type="checkbox"
+                            checked={settings.isSpokenSentenceHighlight}
+                            onChange={(e) => onUpdateSettings({...settings, isSpokenSentenceHighlight: e.target.checked})}
+                            className="w-4 h-4 rounded"
+                        />
+                        Highlight spoken sentence
+                    </label>
                 </div>
 
                 {/* Controls */}
@@ -820,6 +2585,7 @@ const Reader: React.FC<ReaderProps> = ({
                                     ${settings.theme === ThemeMode.INK ? 'bg-black text-white border-black hover:bg-gray-800' : ''}
                                     ${settings.theme === ThemeMode.SEPIA ? 'bg-[#5b4636] text-[#f4ecd8] border-[#5b4636] hover:bg-[#3e3025]' : ''}
                                     ${(settings.theme === ThemeMode.LIGHT || settings.theme === ThemeMode.DARK) ? 'bg-blue-600 text-white border-blue-600 hover:bg-blue-700' : ''}
+                                    ${settings.theme === ThemeMode.CUSTOM ? 'bg-[var(--theme-accent)] text-[var(--theme-background)] border-[var(--theme-accent)] hover:opacity-90' : ''}
                                 `}
                                 title="Read continuously from current position"
                             >
@@ -827,11 +2593,37 @@ const Reader: React.FC<ReaderProps> = ({
                             </button>
                         </div>
                     ) : (
-                        <button 
-                            onClick={handleStop}
-                            className={`w-full flex items-center justify-center gap-2 p-3 rounded-lg border font-bold transition-all border-red-500 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20`}
+                        <>
+                            {/* Transport */}
+                            <div className="flex gap-1" role="group" aria-label="Read Aloud transport">
+                                <button onClick={() => handleSkipParagraph(-1)} className={getTransportButtonClass()} title="Previous paragraph" aria-label="Previous paragraph">⏮</button>
+                                <button onClick={() => handleSkipSentence(-1)} className={getTransportButtonClass()} title="Previous sentence" aria-label="Previous sentence">⏪</button>
+                                <button
+                                    onClick={isPaused ? handleResume : handlePause}
+                                    className={`${getTransportButtonClass()} flex-[1.5]`}
+                                    title={isPaused ? 'Resume' : 'Pause'}
+                                    aria-label={isPaused ? 'Resume' : 'Pause'}
+                                >
+                                    {isPaused ? '▶' : '⏸'}
+                                </button>
+                                <button onClick={() => handleSkipSentence(1)} className={getTransportButtonClass()} title="Next sentence" aria-label="Next sentence">⏩</button>
+                                <button onClick={() => handleSkipParagraph(1)} className={getTransportButtonClass()} title="Next paragraph" aria-label="Next paragraph">⏭</button>
+                            </div>
+                            <button 
+                                onClick={handleStop}
+                                className={`w-full flex items-center justify-center gap-2 p-3 rounded-lg border font-bold transition-all border-red-500 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20`}
+                            >
+                                <span>⏹</span> Stop Reading
+                            </button>
+                        </>
+                    )}
+                    {!isSpeaking && resumePoint && (
+                        <button
+                            onClick={handleResumeFromStop}
+                            className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border font-bold transition-all text-sm bg-transparent border-current opacity-80 hover:opacity-100"
+                            title="Continue from the sentence where reading stopped"
                         >
-                            <span>⏹</span> Stop Reading
+                            <span>↻</span> Resume from paragraph #{resumePoint.index + 1}
                         </button>
                     )}
                 </div>
@@ -843,70 +2635,182 @@ const Reader: React.FC<ReaderProps> = ({
            </div>
         </div>
 
+        {/* Chapter Navigator */}
+        {chapters.length > 0 && (
+          <nav className="mb-6 border-b border-current border-opacity-20 pb-4 pl-6" aria-label="Table of contents">
+            <button
+              onClick={() => setIsTocOpen(!isTocOpen)}
+              className="w-full text-sm font-bold uppercase tracking-wider mb-3 opacity-80 flex items-center justify-between"
+              aria-expanded={isTocOpen}
+            >
+              <span>Contents</span>
+              <span className="text-xs">{isTocOpen ? '▲' : '▼'}</span>
+            </button>
+            {isTocOpen && (
+              <ol className="space-y-1 text-sm max-h-72 overflow-y-auto pr-2">
+                {chapters.map((chapter, i) => (
+                  <li key={`${chapter.blockIndex}-${i}`} style={{ paddingLeft: `${chapter.level}rem` }}>
+                    <button
+                      onClick={() => goToParagraph(chapter.blockIndex)}
+                      className={`w-full text-left py-1 px-2 rounded truncate hover:bg-current hover:bg-opacity-10 ${i === currentChapterIndex ? 'font-bold underline' : 'opacity-80'}`}
+                      aria-current={i === currentChapterIndex ? 'location' : undefined}
+                      title={chapter.title}
+                    >
+                      {chapter.title}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </nav>
+        )}
+
         {/* Context Information */}
         {activeParagraphIndex !== null ? (
            <div className="flex-1 flex flex-col">
-             <div className="mb-4 opacity-70 text-sm font-mono border-b border-current border-opacity-10 pb-2">
-               Paragraph #{activeParagraphIndex + 1}
+             <div className="mb-4 text-sm border-b border-current border-opacity-10 pb-2 flex items-center justify-between gap-2">
+               <span className="opacity-70 font-mono">Paragraph #{activeParagraphIndex + 1}</span>
+               <button
+                 onClick={() => setActiveParagraphIndex(null)}
+                 className="opacity-70 hover:opacity-100 hover:underline"
+               >
+                 All notes & highlights
+               </button>
              </div>
              
              {/* Annotation Input */}
-             <label className="block text-sm font-bold uppercase tracking-wider mb-2">
-               Notes
-             </label>
-             <textarea
-               className={`w-full p-4 rounded-lg border text-base focus:outline-none focus:ring-2 transition-colors shadow-inner ${getTextAreaClass()}`}
+             <div className="flex items-center justify-between mb-2">
+               <label htmlFor="paragraph-notes" className="block text-sm font-bold uppercase tracking-wider">
+                 Notes
+               </label>
+               <button
+                 onClick={isDictating ? stopDictation : startDictation}
+                 className={`px-2 py-1 rounded border text-xs font-bold transition-all ${isDictating ? 'bg-red-500 text-white border-red-500 hover:bg-red-600' : 'border-current opacity-70 hover:opacity-100'}`}
+                 aria-pressed={isDictating}
+                 title={isDictating ? 'Stop dictating' : 'Dictate into this note'}
+               >
+                 {isDictating ? '■ Stop dictating' : '🎙 Dictate'}
+               </button>
+             </div>
+             {/* Interim words are shown in place but only saved once recognised, so the field is read-only meanwhile */}
+             <NoteEditor
+               key={activeParagraphIndex}
+               id="paragraph-notes"
+               text={isDictating && dictationInterim
+                 ? appendDictation(paragraphNote?.text || '', formatDictation(dictationInterim, getDictationGrammar(voiceLocale)))
+                 : paragraphNote?.text || ''}
+               tags={paragraphNote?.tags || []}
+               onChange={(changes: { text?: string; tags?: string[] }) => onUpdateNote(activeParagraphIndex, undefined, changes)}
+               fieldClass={getTextAreaClass()}
                rows={8}
-               placeholder="Type your notes for this paragraph here..."
-               value={annotations[activeParagraphIndex] || ''}
-               onChange={(e) => onUpdateAnnotation(activeParagraphIndex, e.target.value)}
+               placeholder="Type your notes for this paragraph here. **Bold**, *italic*, lists and [links](https://…) are formatted."
+               readOnly={isDictating && !!dictationInterim}
              />
+             {isDictating && (
+               <p className="mt-2 text-xs opacity-70" aria-live="polite">
+                 Dictating. Say punctuation ("comma", "new line"), "delete last sentence" or "scratch that" to edit, and "stop dictation" to go back to commands.
+               </p>
+             )}
 
              {/* Highlights List */}
-             {highlights[activeParagraphIndex] && highlights[activeParagraphIndex].length > 0 && (
+             {activeHighlights.length > 0 && (
                <div className="mt-8">
                  <h3 className="text-sm font-bold uppercase tracking-wider mb-3 opacity-80 flex items-center gap-2">
                    <span>Highlights</span>
-                   <span className="text-xs bg-current bg-opacity-20 px-2 rounded-full">{highlights[activeParagraphIndex].length}</span>
+                   <span className="text-xs bg-current bg-opacity-20 px-2 rounded-full">{shownActiveHighlights.length}</span>
+                   {shownActiveHighlights.length < activeHighlights.length && (
+                     <span className="text-xs font-normal normal-case tracking-normal opacity-70">{activeHighlights.length - shownActiveHighlights.length} hidden by the legend</span>
+                   )}
                  </h3>
                  <div className="space-y-3">
-                   {highlights[activeParagraphIndex].map(h => (
-                     <div key={h.id} className={`p-3 rounded-md border flex gap-3 items-start relative group ${getHighlightCardClass()}`}>
-                       <span className="text-xl leading-none opacity-50 mt-1">❝</span>
-                       <span className="flex-1 text-sm italic leading-relaxed">{h.text}</span>
-                       <button 
-                         onClick={() => onRemoveHighlight(activeParagraphIndex, h.id)}
-                         className="opacity-0 group-hover:opacity-100 transition-opacity text-red-500 hover:text-red-700 p-1 font-bold absolute top-1 right-1"
-                         title="Remove highlight"
+                   {shownActiveHighlights.map(h => {
+                     const category = getHighlightCategory(highlightCategories, h.categoryId);
+                     const note = findNote(notes, activeParagraphIndex, h.id);
+                     const hasNote = !!note && (!!note.text.trim() || note.tags.length > 0);
+                     const isNoteOpen = openNoteHighlightId === h.id;
+                     return (
+                       <div
+                         key={h.id}
+                         className={`p-3 rounded-md border border-s-4 flex gap-3 items-start relative group ${getHighlightCardClass()}`}
+                         style={{ borderInlineStartColor: getHighlightColor(category.color).color }}
                        >
-                         <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
-                       </button>
-                     </div>
-                   ))}
+                         <span className="text-xl leading-none opacity-50 mt-1">❝</span>
+                         <div className="flex-1 flex flex-col gap-2">
+                           <span className="text-sm italic leading-relaxed">{h.text}</span>
+                           {h.groupId && <span className="text-xs opacity-70">Part of a highlight across paragraphs</span>}
+                           <div className="flex items-center gap-2">
+                             <select
+                               value={category.id}
+                               onChange={(e) => onChangeHighlightCategory(activeParagraphIndex, h.id, e.target.value)}
+                               className={`p-1 rounded border text-xs appearance-none cursor-pointer ${getTextAreaClass()}`}
+                               aria-label="Highlight category"
+                             >
+                               {highlightCategories.map(c => (
+                                 <option key={c.id} value={c.id}>{c.name}</option>
+                               ))}
+                             </select>
+                             <button
+                               onClick={() => setOpenNoteHighlightId(isNoteOpen ? null : h.id)}
+                               aria-expanded={isNoteOpen}
+                               className="px-2 py-1 rounded border border-current text-xs opacity-70 hover:opacity-100"
+                             >
+                               {isNoteOpen ? 'Done' : hasNote ? 'Edit note' : 'Add note'}
+                             </button>
+                           </div>
+                           {isNoteOpen ? (
+                             <NoteEditor
+                               label="Note on this highlight"
+                               text={note?.text || ''}
+                               tags={note?.tags || []}
+                               onChange={(changes: { text?: string; tags?: string[] }) => onUpdateNote(activeParagraphIndex, h.id, changes)}
+                               fieldClass={getTextAreaClass()}
+                               rows={4}
+                               placeholder="What about this passage?"
+                             />
+                           ) : hasNote && (
+                             <div className="text-sm border-t border-current border-opacity-20 pt-2">
+                               <NoteContent text={note!.text} />
+                               {note!.tags.length > 0 && (
+                                 <span className="block mt-1 text-xs opacity-70">{note!.tags.map(tag => `#${tag}`).join(' ')}</span>
+                               )}
+                             </div>
+                           )}
+                         </div>
+                         <button 
+                           onClick={() => {
+                             if (hasNote && !window.confirm('Remove this highlight and its note?')) return;
+                             onRemoveHighlight(activeParagraphIndex, h.id);
+                           }}
+                           className="opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity text-red-500 hover:text-red-700 p-1 font-bold absolute top-1 right-1"
+                           title={h.groupId ? 'Remove highlight from every paragraph' : 'Remove highlight'}
+                         >
+                           <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                         </button>
+                       </div>
+                     );
+                   })}
                  </div>
                </div>
              )}
 
            </div>
         ) : (
-          <div className="flex-1 flex flex-col items-center justify-center opacity-50 text-center mt-4">
-            <span className="text-4xl mb-4">👈</span>
-            <p className="max-w-[200px]">Click a paragraph on the left to add notes.</p>
-            
-            {/* Summary of notes */}
-            {Object.keys(annotations).length > 0 && (
-               <div className="mt-12 w-full text-left">
-                 <h3 className="border-b border-current pb-2 mb-4 font-bold">All Notes</h3>
-                 <ul className="space-y-3 text-sm">
-                   {Object.keys(annotations).map(key => (
-                     <li key={key} className="truncate cursor-pointer hover:underline group" onClick={() => setActiveParagraphIndex(Number(key))}>
-                       <span className="font-mono opacity-50 mr-2">#{Number(key)+1}</span>
-                       <span className="group-hover:text-blue-500 transition-colors">{annotations[Number(key)]}</span>
-                     </li>
-                   ))}
-                 </ul>
-               </div>
-            )}
+          <div className="flex-1 flex flex-col gap-8 mt-4">
+            <div className="flex flex-col items-center text-center opacity-50">
+              <span className="text-4xl mb-4">👈</span>
+              <p className="max-w-[200px]">Click a paragraph on the left to add notes.</p>
+            </div>
+
+            <AnnotationBrowser
+              notes={notes}
+              highlights={highlights}
+              categories={highlightCategories}
+              hiddenCategoryIds={hiddenCategoryIds}
+              onJump={jumpToParagraph}
+              onDelete={onRemoveAnnotations}
+              getMarkStyle={getHighlightStyle}
+              fieldClass={getTextAreaClass()}
+            />
           </div>
         )}
 
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ThemeMode } from '../types';
+import { formatTimeRemaining } from '../services/progress';
+
+interface ReadingProgressProps {
+  theme: ThemeMode;
+  progress: number; // 0 - 1
+  minutesLeft: number;
+  wordsPerMinute: number;
+  isMeasured: boolean; // Speed measured from this document rather than the default
+}
+
+const ReadingProgress: React.FC<ReadingProgressProps> = ({
+  theme,
+  progress,
+  minutesLeft,
+  wordsPerMinute,
+  isMeasured
+}) => {
+  const percent = Math.round(Math.min(Math.max(progress, 0), 1) * 100);
+  const speedLabel = isMeasured
+    ? `your pace, ${Math.round(wordsPerMinute)} words/min`
+    : `estimated at ${Math.round(wordsPerMinute)} words/min`;
+
+  const getBarClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-yellow-400';
+      case ThemeMode.SEPIA: return 'bg-[#5b4636]';
+      case ThemeMode.INK: return 'bg-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-accent)]';
+      default: return 'bg-blue-600';
+    }
+  };
+
+  return (
+    <div className="flex-shrink-0 px-6 lg:px-16 pt-2">
+      <div className="flex items-center justify-between gap-4 text-xs font-medium opacity-70 mb-1">
+        <span>{percent}% read</span>
+        <span title={speedLabel}>
+          {percent >= 100 ? 'Finished' : `${formatTimeRemaining(minutesLeft)} left`}
+        </span>
+      </div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-valuetext={`${percent}% read, about ${formatTimeRemaining(minutesLeft)} left (${speedLabel})`}
+        aria-label="Reading progress"
+        className="h-1.5 rounded-full bg-current/15 overflow-hidden"
+      >
+        <div className={`h-full transition-all duration-300 ${getBarClass()}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default ReadingProgress;
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { KeyBindings } from '../types';
+import { findShortcut } from '../services/shortcuts';
+
+interface ReadingRulerProps {
+  areaRef: React.RefObject<HTMLDivElement>; // Reading area the band is positioned in
+  scrollerRef: React.RefObject<HTMLDivElement>;
+  lineHeight: number; // One line of body text in px; the keyboard step
+  lines: number; // Band height in lines
+  tint: string;
+  maskOpacity: number; // 0 - 1
+  keyBindings: KeyBindings;
+}
+
+// Opacity of the tint inside the band, light enough to keep the text crisp
+const TINT_OPACITY = 0.25;
+
+// Keyboard stepping scrolls the text instead of moving the band past these points
+const MIN_CENTER_RATIO = 0.2;
+const MAX_CENTER_RATIO = 0.75;
+
+// Masks the reading area above and below a horizontal band that follows the
+// pointer, or steps a line at a time with the ruler shortcuts (Shift+Arrow keys
+// by default). The masks use the theme background so the ruler works in every
+// theme, and the overlay never takes pointer events so hover zoom and selection
+// keep working underneath.
+// Position lives here rather than in Reader so pointer moves don't re-render the text.
+const ReadingRuler: React.FC<ReadingRulerProps> = ({ areaRef, scrollerRef, lineHeight, lines, tint, maskOpacity, keyBindings }) => {
+  const [center, setCenter] = useState<number | null>(null);
+  const centerRef = useRef<number | null>(null);
+  centerRef.current = center;
+  const height = lines * lineHeight;
+
+  // Start a third of the way down until the pointer or keyboard moves it
+  useEffect(() => {
+    const area = areaRef.current;
+    if (area) setCenter(prev => prev ?? area.clientHeight / 3);
+  }, [areaRef]);
+
+  useEffect(() => {
+    const area = areaRef.current;
+    if (!area) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      setCenter(e.clientY - area.getBoundingClientRect().top);
+    };
+    area.addEventListener('mousemove', handleMouseMove);
+    return () => area.removeEventListener('mousemove', handleMouseMove);
+  }, [areaRef]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const command = findShortcut(e, keyBindings, 'global');
+      if (command !== 'rulerDown' && command !== 'rulerUp') return;
+      const area = areaRef.current;
+      if (!area) return;
+      e.preventDefault();
+
+      const step = command === 'rulerDown' ? lineHeight : -lineHeight;
+      const next = (centerRef.current ?? area.clientHeight / 3) + step;
+      const limit = area.clientHeight * (step > 0 ? MAX_CENTER_RATIO : MIN_CENTER_RATIO);
+      if (step > 0 ? next <= limit : next >= limit) {
+        setCenter(next);
+      } else {
+        // At the edge of the comfortable zone, move the text under the band instead
+        scrollerRef.current?.scrollBy({ top: step, behavior: 'instant' });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [areaRef, scrollerRef, lineHeight, keyBindings]);
+
+  if (center === null) return null;
+  const top = center - height / 2;
+
+  return (
+    <div aria-hidden="true" className="pointer-events-none absolute inset-0 z-[55] overflow-hidden">
+      <div
+        className="absolute left-0 right-0 top-0 bg-[var(--theme-background)]"
+        style={{ height: Math.max(0, top), opacity: maskOpacity }}
+      />
+      <div
+        className="absolute left-0 right-0 border-y"
+        style={{ top, height, backgroundColor: tint, borderColor: tint, opacity: TINT_OPACITY }}
+      />
+      <div
+        className="absolute left-0 right-0 bottom-0 bg-[var(--theme-background)]"
+        style={{ top: top + height, opacity: maskOpacity }}
+      />
+    </div>
+  );
+};
+
+export default ReadingRuler;
@@ -0,0 +1,167 @@
+import React, { useEffect, useRef } from 'react';
+import { ThemeMode } from '../types';
+import { SearchOptions, MAX_SEARCH_MATCHES } from '../services/search';
+
+interface SearchBarProps {
+  theme: ThemeMode;
+  query: string;
+  onQueryChange: (query: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  matchCount: number;
+  currentMatch: number; // -1 when there is none
+  error: string;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+const SearchBar: React.FC<SearchBarProps> = ({
+  theme,
+  query,
+  onQueryChange,
+  options,
+  onOptionsChange,
+  matchCount,
+  currentMatch,
+  error,
+  onNext,
+  onPrevious,
+  onClose
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious();
+      else onNext();
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const getPanelClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-800 border border-gray-600 text-gray-100';
+      case ThemeMode.SEPIA: return 'bg-[#eaddc5] border border-[#d8cba8] text-[#3e3025]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-900';
+    }
+  };
+
+  const getInputClass = () => {
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-gray-900 text-yellow-400 border-yellow-400 placeholder-yellow-700';
+      case ThemeMode.DARK: return 'bg-gray-900 text-white border-gray-600 placeholder-gray-400';
+      case ThemeMode.SEPIA: return 'bg-[#fffdf5] text-[#463529] border-[#d8cba8] placeholder-[#9c8672]';
+      case ThemeMode.INK: return 'bg-white text-black border-black placeholder-gray-500';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] text-[var(--theme-text)] border-[var(--theme-accent)] placeholder-current';
+      default: return 'bg-white text-gray-900 border-gray-300 placeholder-gray-400';
+    }
+  };
+
+  const getToggleClass = (isActive: boolean) => {
+    const base = 'px-2 py-1 rounded border text-sm font-mono font-bold transition-colors';
+    if (!isActive) return `${base} border-current opacity-50 hover:opacity-100`;
+    switch(theme) {
+      case ThemeMode.HIGH_CONTRAST: return `${base} bg-yellow-400 text-black border-yellow-400`;
+      case ThemeMode.SEPIA: return `${base} bg-[#5b4636] text-[#f4ecd8] border-[#5b4636]`;
+      case ThemeMode.INK: return `${base} bg-black text-white border-black`;
+      case ThemeMode.CUSTOM: return `${base} bg-[var(--theme-accent)] text-[var(--theme-background)] border-[var(--theme-accent)]`;
+      default: return `${base} bg-blue-600 text-white border-blue-600`;
+    }
+  };
+
+  const getStatus = () => {
+    if (error) return error;
+    if (!query) return '';
+    if (matchCount === 0) return 'No matches';
+    const total = matchCount >= MAX_SEARCH_MATCHES ? `${MAX_SEARCH_MATCHES}+` : matchCount;
+    return `${currentMatch + 1} of ${total}`;
+  };
+
+  const toggles: { key: keyof SearchOptions; label: string; title: string }[] = [
+    { key: 'caseSensitive', label: 'Aa', title: 'Match case' },
+    { key: 'wholeWord', label: 'ab', title: 'Whole words' },
+    { key: 'regex', label: '.*', title: 'Regular expression' },
+  ];
+
+  return (
+    <div
+      role="search"
+      className={`sticky top-0 z-[60] -mt-8 mb-8 p-3 rounded-xl shadow-lg flex flex-wrap items-center gap-2 ${getPanelClass()}`}
+      style={{ fontSize: '1rem', lineHeight: 1.5, letterSpacing: 'normal' }}
+    >
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in document"
+        aria-label="Find in document"
+        aria-invalid={!!error}
+        className={`flex-1 min-w-[10rem] p-2 rounded border ${getInputClass()} ${error ? 'border-red-500' : ''}`}
+      />
+
+      {toggles.map(toggle => (
+        <button
+          key={toggle.key}
+          onClick={() => onOptionsChange({ ...options, [toggle.key]: !options[toggle.key] })}
+          className={getToggleClass(options[toggle.key])}
+          title={toggle.title}
+          aria-label={toggle.title}
+          aria-pressed={options[toggle.key]}
+        >
+          {toggle.label}
+        </button>
+      ))}
+
+      <span
+        className={`min-w-[6rem] text-center text-sm font-mono ${error ? 'text-red-500' : 'opacity-80'}`}
+        aria-live="polite"
+      >
+        {getStatus()}
+      </span>
+
+      <button
+        onClick={onPrevious}
+        disabled={matchCount === 0}
+        className="px-2 py-1 rounded border border-current font-bold opacity-80 hover:opacity-100 disabled:opacity-30"
+        title="Previous match (Shift+Enter)"
+        aria-label="Previous match"
+      >
+        ↑
+      </button>
+      <button
+        onClick={onNext}
+        disabled={matchCount === 0}
+        className="px-2 py-1 rounded border border-current font-bold opacity-80 hover:opacity-100 disabled:opacity-30"
+        title="Next match (Enter)"
+        aria-label="Next match"
+      >
+        ↓
+      </button>
+      <button
+        onClick={onClose}
+        className="p-1 opacity-60 hover:opacity-100"
+        title="Close search (Escape)"
+        aria-label="Close search"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+      </button>
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReaderSettings, ThemeMode } from '../types';
+import {
+  ShortcutId,
+  SHORTCUT_COMMANDS,
+  SHORTCUT_SCOPE_LABELS,
+  RESERVED_BINDINGS,
+  getShortcutCommand,
+  getEventBinding,
+  getBindings,
+  getBindingOwners,
+  getBindingKeys,
+  formatBinding,
+  setBindings,
+  assignBinding,
+  findShortcutConflicts,
+} from '../services/shortcuts';
+
+interface ShortcutsDialogProps {
+  settings: ReaderSettings;
+  onUpdateSettings: (s: ReaderSettings) => void;
+  onClose: () => void;
+}
+
+const CATEGORIES = Array.from(new Set(SHORTCUT_COMMANDS.map(command => command.category)));
+
+// Lists every keyboard command and lets the user add, remove or reset its keys.
+// Bindings are saved in the active profile.
+const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ settings, onUpdateSettings, onClose }) => {
+  const [recordingId, setRecordingId] = useState<ShortcutId | null>(null);
+  const [message, setMessage] = useState('');
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const { keyBindings } = settings;
+
+  // Keys pressed here stay here, so opening with the keyboard must move focus in
+  useEffect(() => {
+    dialogRef.current?.focus();
+  }, []);
+
+  const updateBindings = (next: typeof keyBindings) => {
+    onUpdateSettings({ ...settings, keyBindings: next });
+  };
+
+  const handleAssign = (id: ShortcutId, binding: string) => {
+    const command = getShortcutCommand(id);
+    const owners = getBindingOwners(keyBindings, binding, command.scope).filter(owner => owner !== id);
+    updateBindings(assignBinding(keyBindings, id, binding));
+    setRecordingId(null);
+    setMessage(owners.length > 0
+      ? `${formatBinding(binding)} now runs "${command.label}" instead of ${owners.map(owner => `"${getShortcutCommand(owner).label}"`).join(', ')}.`
+      : `${formatBinding(binding)} added to "${command.label}".`);
+  };
+
+  // While recording, the next key press becomes the binding. Modifiers alone are
+  // ignored, so sticky keys (modifier first, then the key) work.
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!recordingId) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+      const binding = getEventBinding(e);
+      if (!binding) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (binding === 'Escape') {
+        setRecordingId(null);
+        setMessage('No key assigned.');
+      } else if (RESERVED_BINDINGS.includes(binding)) {
+        setMessage(`${formatBinding(binding)} moves between controls and can't be assigned.`);
+      } else {
+        handleAssign(recordingId, binding);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose, recordingId, settings]);
+
+  const handleRemove = (id: ShortcutId, binding: string) => {
+    updateBindings(setBindings(keyBindings, id, getBindings(keyBindings, id).filter(b => b !== binding)));
+    setMessage(`${formatBinding(binding)} removed from "${getShortcutCommand(id).label}".`);
+  };
+
+  const handleReset = (id: ShortcutId) => {
+    const command = getShortcutCommand(id);
+    updateBindings(setBindings(keyBindings, id, command.defaults));
+    setMessage(`"${command.label}" is back to its default keys.`);
+  };
+
+  const handleResetAll = () => {
+    if (!window.confirm('Reset every shortcut to its default keys?')) return;
+    updateBindings({});
+    setMessage('All shortcuts are back to their defaults.');
+  };
+
+  const conflicts = findShortcutConflicts(keyBindings);
+  const conflictingIds = new Set(conflicts.flatMap(conflict => conflict.commands));
+
+  const getPanelClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-900 border border-gray-700 text-gray-200';
+      case ThemeMode.SEPIA: return 'bg-[#f4ecd8] border border-[#d8cba8] text-[#5b4636]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-800';
+    }
+  };
+
+  const getRecordingButtonClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-yellow-400 text-black';
+      case ThemeMode.SEPIA: return 'bg-[#5b4636] text-[#f4ecd8]';
+      case ThemeMode.INK: return 'bg-black text-white';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-accent)] text-[var(--theme-background)]';
+      default: return 'bg-blue-600 text-white';
+    }
+  };
+
+  const secondaryButtonClass = 'px-2 py-1 rounded border border-current text-xs font-medium opacity-70 hover:opacity-100 disabled:opacity-30';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        className={`w-full max-w-3xl max-h-[90vh] flex flex-col rounded-xl shadow-2xl outline-none ${getPanelClass()}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-current border-opacity-20">
+          <h2 id="shortcuts-title" className="text-xl font-bold">Keyboard Shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="p-1 opacity-60 hover:opacity-100"
+            aria-label="Close Keyboard Shortcuts"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-6">
+          <p className="text-sm opacity-80">
+            Select "Add key" and press the key or combination you want. With sticky keys, press the
+            modifier first and then the key. Esc cancels. Letter shortcuts don't fire while you type in a field.
+          </p>
+
+          {conflicts.length > 0 && (
+            <div role="alert" className="p-3 rounded-lg border-2 border-red-500 text-sm">
+              <p className="font-bold mb-1">Some keys do more than one thing:</p>
+              <ul className="list-disc pl-5">
+                {conflicts.map(conflict => (
+                  <li key={`${conflict.scope}:${conflict.binding}`}>
+                    {formatBinding(conflict.binding)} ({SHORTCUT_SCOPE_LABELS[conflict.scope].toLowerCase()}):{' '}
+                    {conflict.commands.map(id => getShortcutCommand(id).label).join(', ')}.
+                    Only "{getShortcutCommand(conflict.commands[0]).label}" runs.
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {CATEGORIES.map(category => (
+            <section key={category}>
+              <h3 className="text-sm font-bold uppercase tracking-wider opacity-80 mb-2">{category}</h3>
+              <ul>
+                {SHORTCUT_COMMANDS.filter(command => command.category === category).map(command => {
+                  const bindings = getBindings(keyBindings, command.id);
+                  const isRecording = recordingId === command.id;
+                  return (
+                    <li
+                      key={command.id}
+                      className="flex flex-wrap items-center gap-2 py-2 border-b border-current border-opacity-10"
+                    >
+                      <span className="flex-1 min-w-[10rem]">
+                        {command.label}
+                        {command.scope !== 'global' && (
+                          <span className="ml-2 text-xs opacity-60">{SHORTCUT_SCOPE_LABELS[command.scope]}</span>
+                        )}
+                        {conflictingIds.has(command.id) && (
+                          <span className="ml-2 text-xs font-bold text-red-500">Conflict</span>
+                        )}
+                      </span>
+                      {bindings.length === 0 && <span className="text-xs opacity-60">No key</span>}
+                      {bindings.map(binding => (
+                        <span key={binding} className="inline-flex items-center gap-1">
+                          <kbd className="inline-flex gap-1">
+                            {getBindingKeys(binding).map((key, i) => (
+                              <span key={i} className="px-1.5 py-0.5 rounded border border-current border-opacity-40 font-mono text-xs">{key}</span>
+                            ))}
+                          </kbd>
+                          <button
+                            onClick={() => handleRemove(command.id, binding)}
+                            className="px-1 opacity-50 hover:opacity-100"
+                            aria-label={`Remove ${formatBinding(binding)} from ${command.label}`}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                      <button
+                        onClick={() => setRecordingId(isRecording ? null : command.id)}
+                        className={isRecording ? `px-2 py-1 rounded text-xs font-bold ${getRecordingButtonClass()}` : secondaryButtonClass}
+                        aria-pressed={isRecording}
+                      >
+                        {isRecording ? 'Press a key…' : 'Add key'}
+                      </button>
+                      {keyBindings[command.id] && (
+                        <button onClick={() => handleReset(command.id)} className={secondaryButtonClass}>
+                          Reset
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 p-6 border-t border-current border-opacity-20">
+          <span className="text-sm opacity-70" aria-live="polite">
+            {message || 'Shortcuts are saved in the current profile.'}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={handleResetAll}
+              disabled={Object.keys(keyBindings).length === 0}
+              className="px-4 py-2 rounded-lg border border-current font-medium opacity-80 hover:opacity-100 disabled:opacity-30"
+            >
+              Reset all
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-current font-medium opacity-80 hover:opacity-100"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsDialog;
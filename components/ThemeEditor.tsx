@@ -0,0 +1,326 @@
+import React, { useEffect, useState } from 'react';
+import { ReaderSettings, ThemeMode, ThemeColors, CustomTheme } from '../types';
+import { CUSTOM_THEME_TEMPLATES } from '../constants';
+import { resolveThemeColors } from '../services/themes';
+import { isHexColor, getThemeContrastChecks, formatContrastRatio, WCAG_AA_TEXT, WCAG_NON_TEXT } from '../services/contrast';
+
+interface ThemeEditorProps {
+  settings: ReaderSettings;
+  onUpdateSettings: (s: ReaderSettings) => void;
+  onClose: () => void;
+}
+
+const COLOR_FIELDS: { key: keyof ThemeColors; label: string }[] = [
+  { key: 'background', label: 'Background' },
+  { key: 'text', label: 'Text' },
+  { key: 'highlight', label: 'Highlight' },
+  { key: 'selection', label: 'Selection' },
+  { key: 'accent', label: 'Accent' },
+  { key: 'focusRing', label: 'Focus ring' },
+];
+
+const createTheme = (name: string, colors: ThemeColors): CustomTheme => ({
+  id: Date.now().toString(),
+  name,
+  colors: { ...colors },
+});
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ settings, onUpdateSettings, onClose }) => {
+  const [draft, setDraft] = useState<CustomTheme>(() => {
+    const active = settings.theme === ThemeMode.CUSTOM
+      ? settings.customThemes.find(theme => theme.id === settings.customThemeId)
+      : undefined;
+    return active ? { ...active, colors: { ...active.colors } } : createTheme('My theme', resolveThemeColors(settings));
+  });
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const isSaved = settings.customThemes.some(theme => theme.id === draft.id);
+  const invalidFields = COLOR_FIELDS.filter(field => !isHexColor(draft.colors[field.key]));
+  const checks = invalidFields.length === 0 ? getThemeContrastChecks(draft.colors) : [];
+  const failing = checks.filter(check => check.level === 'fail');
+
+  const updateColor = (key: keyof ThemeColors, value: string) => {
+    setDraft(prev => ({ ...prev, colors: { ...prev.colors, [key]: value } }));
+  };
+
+  const editTheme = (theme: CustomTheme) => {
+    setDraft({ ...theme, colors: { ...theme.colors } });
+  };
+
+  const handleSave = (apply: boolean) => {
+    if (invalidFields.length > 0) return;
+    const theme = { ...draft, name: draft.name.trim() || 'Untitled theme' };
+    const customThemes = isSaved
+      ? settings.customThemes.map(existing => existing.id === theme.id ? theme : existing)
+      : [...settings.customThemes, theme];
+    setDraft(theme);
+    onUpdateSettings({
+      ...settings,
+      customThemes,
+      ...(apply ? { theme: ThemeMode.CUSTOM, customThemeId: theme.id } : {}),
+    });
+  };
+
+  const handleDelete = () => {
+    if (!isSaved || !window.confirm(`Delete the theme "${draft.name}"?`)) return;
+    const customThemes = settings.customThemes.filter(theme => theme.id !== draft.id);
+    const wasActive = settings.theme === ThemeMode.CUSTOM && settings.customThemeId === draft.id;
+    onUpdateSettings({
+      ...settings,
+      customThemes,
+      ...(wasActive ? { theme: ThemeMode.LIGHT, customThemeId: null } : {}),
+    });
+    setDraft(createTheme('My theme', draft.colors));
+  };
+
+  const getPanelClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-900 border border-gray-700 text-gray-200';
+      case ThemeMode.SEPIA: return 'bg-[#f4ecd8] border border-[#d8cba8] text-[#5b4636]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-800';
+    }
+  };
+
+  const getInputClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-gray-900 text-yellow-400 border-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-800 text-white border-gray-600';
+      case ThemeMode.SEPIA: return 'bg-[#fffdf5] text-[#463529] border-[#d8cba8]';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] text-[var(--theme-text)] border-[var(--theme-accent)]';
+      default: return 'bg-white text-gray-900 border-gray-300';
+    }
+  };
+
+  const getLevelClass = (level: string) => {
+    if (level === 'fail') return 'bg-red-600 text-white';
+    if (level === 'AAA') return 'bg-green-700 text-white';
+    return 'bg-green-600 text-white';
+  };
+
+  const { colors } = draft;
+  const canSave = invalidFields.length === 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="theme-editor-title"
+        className={`w-full max-w-4xl max-h-[90vh] flex flex-col rounded-xl shadow-2xl ${getPanelClass()}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-current border-opacity-20">
+          <h2 id="theme-editor-title" className="text-xl font-bold">Theme Editor</h2>
+          <button
+            onClick={onClose}
+            className="p-1 opacity-60 hover:opacity-100"
+            aria-label="Close Theme Editor"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid gap-6 md:grid-cols-[12rem_1fr_1fr]">
+          {/* Saved themes and starting points */}
+          <div className="flex flex-col gap-4 text-sm">
+            <div>
+              <h3 className="font-bold uppercase tracking-wider opacity-80 mb-2">Your themes</h3>
+              {settings.customThemes.length === 0 && <p className="opacity-60">None yet.</p>}
+              <ul className="space-y-1">
+                {settings.customThemes.map(theme => (
+                  <li key={theme.id}>
+                    <button
+                      onClick={() => editTheme(theme)}
+                      className={`w-full flex items-center gap-2 p-2 rounded border text-left ${theme.id === draft.id ? 'border-current' : 'border-transparent hover:border-current/30'}`}
+                    >
+                      <span
+                        className="w-6 h-6 rounded-full border border-current/30 flex items-center justify-center text-[10px] font-bold flex-shrink-0"
+                        style={{ backgroundColor: theme.colors.background, color: theme.colors.text }}
+                        aria-hidden="true"
+                      >
+                        Aa
+                      </span>
+                      <span className="truncate">{theme.name}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <h3 className="font-bold uppercase tracking-wider opacity-80 mb-2">Start from</h3>
+              <ul className="space-y-1">
+                <li>
+                  <button
+                    onClick={() => setDraft(createTheme('My theme', resolveThemeColors(settings)))}
+                    className="w-full p-2 rounded border border-transparent hover:border-current/30 text-left"
+                  >
+                    Current theme
+                  </button>
+                </li>
+                {CUSTOM_THEME_TEMPLATES.map(template => (
+                  <li key={template.name}>
+                    <button
+                      onClick={() => setDraft(createTheme(template.name, template.colors))}
+                      className="w-full flex items-center gap-2 p-2 rounded border border-transparent hover:border-current/30 text-left"
+                    >
+                      <span
+                        className="w-6 h-6 rounded-full border border-current/30 flex items-center justify-center text-[10px] font-bold flex-shrink-0"
+                        style={{ backgroundColor: template.colors.background, color: template.colors.text }}
+                        aria-hidden="true"
+                      >
+                        Aa
+                      </span>
+                      <span className="truncate">{template.name}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          {/* Colours */}
+          <div className="flex flex-col gap-3">
+            <label className="flex flex-col gap-1 text-sm font-bold">
+              Name
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                className={`p-2 rounded border font-normal ${getInputClass()}`}
+              />
+            </label>
+
+            {COLOR_FIELDS.map(field => {
+              const value = colors[field.key];
+              const isValid = isHexColor(value);
+              return (
+                <div key={field.key} className="flex items-center gap-3 text-sm">
+                  <label htmlFor={`theme-${field.key}`} className="w-24 font-medium">{field.label}</label>
+                  <input
+                    type="color"
+                    value={isValid && value.length === 7 ? value : '#000000'}
+                    onChange={(e) => updateColor(field.key, e.target.value)}
+                    className="w-10 h-10 rounded cursor-pointer bg-transparent"
+                    aria-label={`${field.label} colour picker`}
+                  />
+                  <input
+                    id={`theme-${field.key}`}
+                    value={value}
+                    onChange={(e) => updateColor(field.key, e.target.value.trim())}
+                    className={`flex-1 min-w-0 p-2 rounded border font-mono ${getInputClass()} ${isValid ? '' : 'border-red-500'}`}
+                    aria-invalid={!isValid}
+                    spellCheck={false}
+                  />
+                </div>
+              );
+            })}
+            {invalidFields.length > 0 && (
+              <p className="text-sm text-red-500">Use hex colours such as #1e3a8a.</p>
+            )}
+          </div>
+
+          {/* Live preview and contrast */}
+          <div className="flex flex-col gap-4">
+            <div
+              className="p-4 rounded-lg border"
+              style={{ backgroundColor: colors.background, color: colors.text, borderColor: colors.accent }}
+              aria-label="Theme preview"
+            >
+              <p className="text-lg leading-relaxed mb-3">
+                The quick brown fox <mark style={{ backgroundColor: colors.highlight, color: colors.text }}>jumps over</mark> the
+                lazy dog. <span style={{ backgroundColor: colors.selection }}>Selected text</span> looks like this.
+              </p>
+              <div className="flex gap-2">
+                <span
+                  className="px-3 py-1 rounded font-bold text-sm"
+                  style={{ backgroundColor: colors.accent, color: colors.background }}
+                >
+                  Button
+                </span>
+                <span
+                  className="px-3 py-1 rounded font-bold text-sm border"
+                  style={{ borderColor: colors.accent, color: colors.accent, outline: `3px solid ${colors.focusRing}`, outlineOffset: 2 }}
+                >
+                  Focused
+                </span>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-bold uppercase tracking-wider opacity-80 mb-2">WCAG contrast</h3>
+              <ul className="space-y-1 text-sm">
+                {checks.map(check => (
+                  <li key={check.label} className="flex items-center gap-2">
+                    <span
+                      className="w-8 h-6 rounded border border-current/20 flex items-center justify-center text-xs font-bold flex-shrink-0"
+                      style={{ backgroundColor: check.background, color: check.foreground }}
+                      aria-hidden="true"
+                    >
+                      Aa
+                    </span>
+                    <span className="flex-1">{check.label}</span>
+                    <span className="font-mono">{formatContrastRatio(check.ratio)}</span>
+                    <span className={`w-10 text-center text-[10px] font-bold rounded px-1 py-0.5 ${getLevelClass(check.level)}`}>
+                      {check.level === 'fail' ? 'FAIL' : check.level}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div aria-live="polite" className="mt-3 text-sm">
+                {failing.length > 0 && (
+                  <p className="p-2 rounded border border-red-500 text-red-500">
+                    ⚠ {failing.length} pair{failing.length === 1 ? '' : 's'} below WCAG AA (text needs {WCAG_AA_TEXT}:1, focus indicators and accents {WCAG_NON_TEXT}:1).
+                  </p>
+                )}
+                {checks.length > 0 && failing.length === 0 && (
+                  <p className="opacity-70">All pairs meet WCAG AA.</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-current border-opacity-20 flex flex-wrap items-center justify-end gap-3">
+          {isSaved && (
+            <button
+              onClick={handleDelete}
+              className="mr-auto text-sm px-3 py-2 rounded border border-red-500 text-red-500 opacity-80 hover:opacity-100"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={() => handleSave(false)}
+            disabled={!canSave}
+            className="px-4 py-2 rounded border border-current font-medium opacity-80 hover:opacity-100 disabled:opacity-30"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={!canSave}
+            className="px-4 py-2 rounded border-2 border-current font-bold hover:bg-current/10 disabled:opacity-30"
+          >
+            Save &amp; Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeEditor;
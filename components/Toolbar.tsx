@@ -1,13 +1,47 @@
 import React, { useState } from 'react';
-import { ReaderSettings, ThemeMode, FontFamily } from '../types';
+import { ReaderSettings, ThemeMode, SettingsProfile } from '../types';
+import { OCR_LANGUAGES, FONT_OPTIONS } from '../constants';
+import { getShortcutHint } from '../services/shortcuts';
 
 interface ToolbarProps {
   settings: ReaderSettings;
   onUpdateSettings: (s: ReaderSettings) => void;
   onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onOpenLibrary: () => void;
+  onOpenExport: () => void;
+  onOpenThemeEditor: () => void;
+  onOpenTypography: () => void;
+  profiles: SettingsProfile[];
+  activeProfileId: string;
+  onSwitchProfile: (profile: SettingsProfile) => void;
+  onOpenProfiles: () => void;
+  onOpenShortcuts: () => void;
+  undoLabel?: string; // What undo would take back; none when there is nothing to undo
+  redoLabel?: string;
+  onUndo: () => void;
+  onRedo: () => void;
+  onOpenHistory: () => void;
 }
 
-const Toolbar: React.FC<ToolbarProps> = ({ settings, onUpdateSettings, onFileUpload }) => {
+const Toolbar: React.FC<ToolbarProps> = ({
+  settings,
+  onUpdateSettings,
+  onFileUpload,
+  onOpenLibrary,
+  onOpenExport,
+  onOpenThemeEditor,
+  onOpenTypography,
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onOpenProfiles,
+  onOpenShortcuts,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onOpenHistory
+}) => {
   const [isVisible, setIsVisible] = useState(true);
   
   const update = (key: keyof ReaderSettings, value: any) => {
@@ -25,6 +59,8 @@ const Toolbar: React.FC<ToolbarProps> = ({ settings, onUpdateSettings, onFileUpl
         return 'bg-[#f4ecd8] border-t border-[#d8cba8] text-[#5b4636]';
       case ThemeMode.INK:
         return 'bg-white border-t border-gray-300 text-black';
+      case ThemeMode.CUSTOM:
+        return 'bg-[var(--theme-background)] border-t border-[var(--theme-accent)] text-[var(--theme-text)]';
       case ThemeMode.LIGHT:
       default:
         return 'bg-gray-50 border-t border-gray-200 text-gray-800';
@@ -45,6 +81,9 @@ const Toolbar: React.FC<ToolbarProps> = ({ settings, onUpdateSettings, onFileUpl
     if (settings.theme === ThemeMode.SEPIA) {
         return 'bg-[#5b4636] text-[#f4ecd8] hover:bg-[#3e3025]';
     }
+    if (settings.theme === ThemeMode.CUSTOM) {
+        return 'bg-[var(--theme-accent)] text-[var(--theme-background)] hover:opacity-90';
+    }
     return 'bg-blue-600 text-white hover:bg-blue-700';
   };
 
@@ -59,6 +98,9 @@ const Toolbar: React.FC<ToolbarProps> = ({ settings, onUpdateSettings, onFileUpl
     if (settings.theme === ThemeMode.SEPIA) {
         return 'text-[#5b4636] accent-[#5b4636]';
     }
+    if (settings.theme === ThemeMode.CUSTOM) {
+        return 'text-[var(--theme-accent)] accent-[var(--theme-accent)]';
+    }
     return 'text-blue-600 accent-blue-600';
   };
 
@@ -107,12 +149,98 @@ const Toolbar: React.FC<ToolbarProps> = ({ settings, onUpdateSettings, onFileUpl
                ${getFileButtonClass()}
              `}>
                Open File
-               <input type="file" accept=".txt,.pdf,.docx" onChange={onFileUpload} className="hidden" />
+               <input type="file" accept=".txt,.pdf,.docx,.epub,.md,.markdown,.html,.htm,.png,.jpg,.jpeg,.tif,.tiff" onChange={onFileUpload} className="hidden" />
              </label>
-             <span className="text-xs opacity-70 hidden sm:inline-block">Supports .txt, .pdf, .docx</span>
+             <button
+               onClick={onOpenLibrary}
+               className={`px-4 py-2 rounded font-medium border-2 transition-colors hover:bg-current hover:bg-opacity-10 ${buttonBorderClass}`}
+             >
+               Library
+             </button>
+             <button
+               onClick={onOpenExport}
+               className={`px-4 py-2 rounded font-medium border-2 transition-colors hover:bg-current hover:bg-opacity-10 ${buttonBorderClass}`}
+               title="Export or import notes and highlights"
+             >
+               Export
+             </button>
+             <button
+               onClick={onOpenShortcuts}
+               className={`px-4 py-2 rounded font-medium border-2 transition-colors hover:bg-current hover:bg-opacity-10 ${buttonBorderClass}`}
+               title={`Keyboard shortcuts${getShortcutHint(settings.keyBindings, 'showShortcuts')}`}
+               aria-haspopup="dialog"
+             >
+               Shortcuts
+             </button>
+             <div className="flex items-center gap-1" role="group" aria-label="Undo history">
+               <button
+                 onClick={onUndo}
+                 disabled={!undoLabel}
+                 className={`px-3 py-2 rounded font-medium border-2 transition-colors hover:bg-current hover:bg-opacity-10 disabled:opacity-30 ${buttonBorderClass}`}
+                 title={undoLabel ? `Undo: ${undoLabel}${getShortcutHint(settings.keyBindings, 'undo')}` : 'Nothing to undo'}
+                 aria-label={undoLabel ? `Undo: ${undoLabel}` : 'Undo'}
+               >
+                 ↶
+               </button>
+               <button
+                 onClick={onRedo}
+                 disabled={!redoLabel}
+                 className={`px-3 py-2 rounded font-medium border-2 transition-colors hover:bg-current hover:bg-opacity-10 disabled:opacity-30 ${buttonBorderClass}`}
+                 title={redoLabel ? `Redo: ${redoLabel}${getShortcutHint(settings.keyBindings, 'redo')}` : 'Nothing to redo'}
+                 aria-label={redoLabel ? `Redo: ${redoLabel}` : 'Redo'}
+               >
+                 ↷
+               </button>
+               <button
+                 onClick={onOpenHistory}
+                 className={`px-3 py-2 rounded font-medium border-2 transition-colors hover:bg-current hover:bg-opacity-10 ${buttonBorderClass}`}
+                 title="Changes to notes, highlights and settings"
+                 aria-haspopup="dialog"
+               >
+                 History
+               </button>
+             </div>
+             <span className="text-xs opacity-70 hidden sm:inline-block">Supports .txt, .pdf, .docx, .epub, .md, .html and scanned images</span>
+             <select
+               value={settings.ocrLanguage}
+               onChange={(e) => update('ocrLanguage', e.target.value)}
+               className={`p-2 rounded border-2 bg-transparent text-sm cursor-pointer ${buttonBorderClass}`}
+               aria-label="OCR language for scanned documents"
+               title="OCR language for scanned documents"
+             >
+               {OCR_LANGUAGES.map(lang => (
+                 <option key={lang.code} value={lang.code} className="text-black">OCR: {lang.label}</option>
+               ))}
+             </select>
           </div>
 
           <div className="flex flex-wrap items-center gap-6">
+              {/* Settings Profiles */}
+              <div className="flex items-center gap-2">
+                <select
+                  value={activeProfileId}
+                  onChange={(e) => {
+                    const profile = profiles.find(p => p.id === e.target.value);
+                    if (profile) onSwitchProfile(profile);
+                  }}
+                  className={`p-2 rounded border-2 bg-transparent font-medium cursor-pointer max-w-[10rem] ${buttonBorderClass}`}
+                  aria-label="Settings profile"
+                  title="Settings profile"
+                >
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id} className="text-black">{profile.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={onOpenProfiles}
+                  className={`px-3 py-2 rounded border-2 font-medium transition-colors hover:bg-current hover:bg-opacity-10 ${buttonBorderClass}`}
+                  title="Create, import and export settings profiles"
+                  aria-haspopup="dialog"
+                >
+                  Profiles
+                </button>
+              </div>
+
               {/* Font Controls - Updated Visuals */}
               <div className="flex items-center gap-3 rounded-lg px-3 py-1.5 border-2 border-current border-opacity-40 hover:border-opacity-100 transition-colors">
                  <button 
@@ -134,7 +262,7 @@ const Toolbar: React.FC<ToolbarProps> = ({ settings, onUpdateSettings, onFileUpl
 
               {/* Theme Toggle - Updated with visible borders */}
               <div className="flex items-center gap-3 border-l-2 border-current border-opacity-10 pl-6">
-                {(Object.values(ThemeMode) as ThemeMode[]).map((mode) => (
+                {(Object.values(ThemeMode) as ThemeMode[]).filter(mode => mode !== ThemeMode.CUSTOM).map((mode) => (
                    <button
                      key={mode}
                      onClick={() => update('theme', mode)}
@@ -153,12 +281,41 @@ const Toolbar: React.FC<ToolbarProps> = ({ settings, onUpdateSettings, onFileUpl
                      title={`Theme: ${mode}`}
                    />
                 ))}
+                {settings.customThemes.map(custom => {
+                  const isActive = settings.theme === ThemeMode.CUSTOM && settings.customThemeId === custom.id;
+                  return (
+                    <button
+                      key={custom.id}
+                      onClick={() => onUpdateSettings({ ...settings, theme: ThemeMode.CUSTOM, customThemeId: custom.id })}
+                      className={`
+                        w-8 h-8 rounded-full transition-all border-2 flex items-center justify-center text-xs font-bold
+                        ${isActive
+                           ? 'scale-110 border-current ring-2 ring-offset-2 ring-offset-transparent ring-current/50'
+                           : 'border-current border-opacity-30 hover:border-opacity-80 hover:scale-105'
+                        }
+                      `}
+                      style={{ backgroundColor: custom.colors.background, color: custom.colors.text }}
+                      title={`Theme: ${custom.name}`}
+                    >
+                      Aa
+                    </button>
+                  );
+                })}
+                <button
+                  onClick={onOpenThemeEditor}
+                  className="w-8 h-8 rounded-full border-2 border-dashed border-current opacity-60 hover:opacity-100 flex items-center justify-center"
+                  title="Create or edit custom themes"
+                  aria-label="Theme editor"
+                >
+                  🎨
+                </button>
               </div>
 
               {/* Font Family */}
               <select 
                 value={settings.fontFamily}
                 onChange={(e) => update('fontFamily', e.target.value)}
+                aria-label="Font family"
                 className={`
                   p-2 pr-8 rounded border-2 bg-transparent font-medium cursor-pointer appearance-none hover:bg-current hover:bg-opacity-5
                   ${settings.theme === ThemeMode.HIGH_CONTRAST ? 'border-yellow-400 text-yellow-400' : 'border-gray-300'}
@@ -172,10 +329,18 @@ const Toolbar: React.FC<ToolbarProps> = ({ settings, onUpdateSettings, onFileUpl
                     backgroundSize: '0.65rem auto',
                 }}
               >
-                <option value={FontFamily.SANS} className="text-black">Sans Serif</option>
-                <option value={FontFamily.SERIF} className="text-black">Serif</option>
-                <option value={FontFamily.MONO} className="text-black">Monospace</option>
+                {FONT_OPTIONS.map(font => (
+                  <option key={font.value} value={font.value} className="text-black">{font.label}</option>
+                ))}
               </select>
+              <button
+                onClick={onOpenTypography}
+                className={`px-3 py-2 rounded border-2 font-medium transition-colors hover:bg-current hover:bg-opacity-10 ${buttonBorderClass}`}
+                title="Line height, spacing, line length and alignment"
+                aria-haspopup="dialog"
+              >
+                Typography
+              </button>
 
               {/* Toggles */}
               <div className="flex items-center gap-6 text-sm font-bold border-l-2 border-current border-opacity-10 pl-4">
@@ -0,0 +1,227 @@
+import React, { useEffect, useRef } from 'react';
+import { ReaderSettings, ThemeMode, TextAlign, DEFAULT_SETTINGS } from '../types';
+import { FONT_OPTIONS, FONT_STACKS } from '../constants';
+
+interface TypographyPanelProps {
+  settings: ReaderSettings;
+  onUpdateSettings: (s: ReaderSettings) => void;
+  onClose: () => void;
+}
+
+type SpacingKey = 'lineHeight' | 'letterSpacing' | 'wordSpacing' | 'paragraphSpacing';
+
+const SPACING_CONTROLS: { key: SpacingKey; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+  { key: 'lineHeight', label: 'Line height', min: 1, max: 3, step: 0.1, format: (v) => `${v.toFixed(1)}×` },
+  { key: 'letterSpacing', label: 'Letter spacing', min: 0, max: 0.3, step: 0.01, format: (v) => `${v.toFixed(2)}em` },
+  { key: 'wordSpacing', label: 'Word spacing', min: 0, max: 1, step: 0.05, format: (v) => `${v.toFixed(2)}em` },
+  { key: 'paragraphSpacing', label: 'Paragraph spacing', min: 0, max: 4, step: 0.25, format: (v) => `${v.toFixed(2)}em` },
+];
+
+const ALIGN_OPTIONS: { value: TextAlign; label: string }[] = [
+  { value: TextAlign.START, label: 'Left' },
+  { value: TextAlign.JUSTIFY, label: 'Justify' },
+  { value: TextAlign.CENTER, label: 'Center' },
+];
+
+const MIN_LINE_LENGTH = 30;
+const MAX_LINE_LENGTH = 120;
+const DEFAULT_LINE_LENGTH = 70; // Used when a limit is first switched on
+
+const PREVIEW_TEXT = 'Reading should feel effortless. Adjust the spacing until lines stop crowding each other and words are easy to pick out.';
+
+const TypographyPanel: React.FC<TypographyPanelProps> = ({ settings, onUpdateSettings, onClose }) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    panelRef.current?.focus();
+  }, []);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const update = (key: keyof ReaderSettings, value: any) => {
+    onUpdateSettings({ ...settings, [key]: value });
+  };
+
+  const handleReset = () => {
+    onUpdateSettings({
+      ...settings,
+      fontFamily: DEFAULT_SETTINGS.fontFamily,
+      lineHeight: DEFAULT_SETTINGS.lineHeight,
+      letterSpacing: DEFAULT_SETTINGS.letterSpacing,
+      wordSpacing: DEFAULT_SETTINGS.wordSpacing,
+      paragraphSpacing: DEFAULT_SETTINGS.paragraphSpacing,
+      maxLineLength: DEFAULT_SETTINGS.maxLineLength,
+      textAlign: DEFAULT_SETTINGS.textAlign,
+    });
+  };
+
+  const getPanelClass = () => {
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return 'bg-black border-2 border-yellow-400 text-yellow-400';
+      case ThemeMode.DARK: return 'bg-gray-800 border border-gray-600 text-gray-100';
+      case ThemeMode.SEPIA: return 'bg-[#eaddc5] border border-[#d8cba8] text-[#3e3025]';
+      case ThemeMode.INK: return 'bg-white border-2 border-black text-black';
+      case ThemeMode.CUSTOM: return 'bg-[var(--theme-background)] border-2 border-[var(--theme-accent)] text-[var(--theme-text)]';
+      default: return 'bg-white border border-gray-200 text-gray-900';
+    }
+  };
+
+  const getToggleClass = (isActive: boolean) => {
+    const base = 'flex-1 px-2 py-1.5 rounded border text-sm font-bold transition-colors';
+    if (!isActive) return `${base} border-current opacity-60 hover:opacity-100`;
+    switch(settings.theme) {
+      case ThemeMode.HIGH_CONTRAST: return `${base} bg-yellow-400 text-black border-yellow-400`;
+      case ThemeMode.SEPIA: return `${base} bg-[#5b4636] text-[#f4ecd8] border-[#5b4636]`;
+      case ThemeMode.INK: return `${base} bg-black text-white border-black`;
+      case ThemeMode.CUSTOM: return `${base} bg-[var(--theme-accent)] text-[var(--theme-background)] border-[var(--theme-accent)]`;
+      default: return `${base} bg-blue-600 text-white border-blue-600`;
+    }
+  };
+
+  const hasLineLimit = settings.maxLineLength > 0;
+
+  return (
+    <div
+      ref={panelRef}
+      role="dialog"
+      aria-labelledby="typography-title"
+      tabIndex={-1}
+      className={`fixed right-4 bottom-36 z-50 w-[min(92vw,24rem)] max-h-[calc(100vh-11rem)] overflow-y-auto p-5 rounded-xl shadow-2xl outline-none ${getPanelClass()}`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 id="typography-title" className="text-lg font-bold">Typography</h2>
+        <button
+          onClick={onClose}
+          className="p-1 opacity-60 hover:opacity-100"
+          aria-label="Close Typography"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+
+      {/* Font */}
+      <label className="flex flex-col gap-1 mb-4 text-sm font-medium">
+        <span className="opacity-80">Font</span>
+        <select
+          value={settings.fontFamily}
+          onChange={(e) => update('fontFamily', e.target.value)}
+          className="p-2 rounded border-2 border-current bg-transparent cursor-pointer"
+        >
+          {FONT_OPTIONS.map(font => (
+            <option key={font.value} value={font.value} className="text-black" style={{ fontFamily: FONT_STACKS[font.value] }}>
+              {font.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {/* Spacing */}
+      <div className="flex flex-col gap-2 mb-4 text-sm font-medium">
+        {SPACING_CONTROLS.map(control => (
+          <label key={control.key} className="flex items-center gap-3">
+            <span className="w-32 opacity-80">{control.label}</span>
+            <input
+              type="range"
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              value={settings[control.key]}
+              onChange={(e) => update(control.key, Number(e.target.value))}
+              className="flex-1 accent-current"
+            />
+            <span className="w-14 text-right font-mono text-xs">{control.format(settings[control.key])}</span>
+          </label>
+        ))}
+
+        <div className="flex items-center gap-3">
+          <label htmlFor="typography-line-length" className="w-32 opacity-80">Line length</label>
+          <input
+            id="typography-line-length"
+            type="range"
+            min={MIN_LINE_LENGTH}
+            max={MAX_LINE_LENGTH}
+            step={5}
+            value={hasLineLimit ? settings.maxLineLength : MAX_LINE_LENGTH}
+            onChange={(e) => update('maxLineLength', Number(e.target.value))}
+            disabled={!hasLineLimit}
+            className="flex-1 accent-current disabled:opacity-40"
+          />
+          <span className="w-14 text-right font-mono text-xs">{hasLineLimit ? `${settings.maxLineLength}ch` : 'Full'}</span>
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer opacity-80 hover:opacity-100">
+          <input
+            type="checkbox"
+            checked={hasLineLimit}
+            onChange={(e) => update('maxLineLength', e.target.checked ? DEFAULT_LINE_LENGTH : 0)}
+            className="w-4 h-4 rounded accent-current"
+          />
+          Limit characters per line
+        </label>
+      </div>
+
+      {/* Alignment */}
+      <div className="mb-4 text-sm font-medium">
+        <span className="block opacity-80 mb-1">Alignment</span>
+        <div className="flex gap-2" role="group" aria-label="Text alignment">
+          {ALIGN_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => update('textAlign', option.value)}
+              className={getToggleClass(settings.textAlign === option.value)}
+              aria-pressed={settings.textAlign === option.value}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Live preview */}
+      <div className="mb-4">
+        <span className="block text-sm font-medium opacity-80 mb-1">Preview</span>
+        <div
+          className="p-3 rounded-lg border border-current border-opacity-30 overflow-hidden"
+          style={{
+            fontFamily: FONT_STACKS[settings.fontFamily] || FONT_STACKS.sans,
+            fontSize: `${Math.min(settings.fontSize, 22)}px`,
+            lineHeight: settings.lineHeight,
+            letterSpacing: `${settings.letterSpacing}em`,
+            wordSpacing: `${settings.wordSpacing}em`,
+            textAlign: settings.textAlign,
+            hyphens: settings.textAlign === TextAlign.JUSTIFY ? 'auto' : undefined,
+          }}
+          aria-hidden="true"
+        >
+          {[0, 1].map(i => (
+            <p
+              key={i}
+              className="mx-auto"
+              style={{
+                maxWidth: hasLineLimit ? `${settings.maxLineLength}ch` : undefined,
+                marginBottom: i === 0 ? `${settings.paragraphSpacing}em` : 0,
+              }}
+            >
+              {PREVIEW_TEXT}
+            </p>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={handleReset}
+        className="w-full px-3 py-2 rounded-lg border border-current font-medium opacity-70 hover:opacity-100"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
+
+export default TypographyPanel;
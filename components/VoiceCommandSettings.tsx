@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { ReaderSettings } from '../types';
+import {
+  VoiceCommandId,
+  VOICE_COMMANDS,
+  VOICE_LOCALES,
+  resolveVoiceLocale,
+  getVoiceGrammar,
+  getVoiceExample,
+  getVoicePhraseError,
+} from '../services/voiceCommands';
+
+interface VoiceCommandSettingsProps {
+  settings: ReaderSettings;
+  onUpdateSettings: (s: ReaderSettings) => void;
+  fieldClass: string; // Themed classes for inputs and selects
+}
+
+// Recognition language, spoken confirmations and the user's own command phrases
+const VoiceCommandSettings: React.FC<VoiceCommandSettingsProps> = ({ settings, onUpdateSettings, fieldClass }) => {
+  const [phrase, setPhrase] = useState('');
+  const [command, setCommand] = useState<VoiceCommandId>('nextParagraph');
+  const [error, setError] = useState('');
+
+  const locale = resolveVoiceLocale(settings.voiceLocale);
+  const grammar = getVoiceGrammar(locale);
+  const browserLocale = VOICE_LOCALES.find(l => l.code === resolveVoiceLocale(''));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = getVoicePhraseError(phrase, command, locale);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onUpdateSettings({ ...settings, voiceShortcuts: [...settings.voiceShortcuts, { phrase: phrase.trim(), command }] });
+    setPhrase('');
+    setError('');
+  };
+
+  const handleRemove = (index: number) => {
+    onUpdateSettings({ ...settings, voiceShortcuts: settings.voiceShortcuts.filter((_, i) => i !== index) });
+  };
+
+  const getCommandLabel = (id: string) => VOICE_COMMANDS.find(c => c.id === id)?.label ?? id;
+
+  return (
+    <div className="mt-3 flex flex-col gap-3 text-sm">
+      <label className="flex flex-col gap-1 font-medium">
+        <span className="opacity-80">Command language</span>
+        <select
+          value={settings.voiceLocale}
+          onChange={(e) => onUpdateSettings({ ...settings, voiceLocale: e.target.value })}
+          className={`w-full p-2 rounded border text-sm appearance-none cursor-pointer ${fieldClass}`}
+        >
+          <option value="">Browser language ({browserLocale?.label})</option>
+          {VOICE_LOCALES.map(l => (
+            <option key={l.code} value={l.code}>{l.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 cursor-pointer font-medium opacity-80 hover:opacity-100">
+        <input
+          type="checkbox"
+          checked={settings.isVoiceFeedback}
+          onChange={(e) => onUpdateSettings({ ...settings, isVoiceFeedback: e.target.checked })}
+          className="w-4 h-4 rounded"
+        />
+        Speak confirmations
+      </label>
+
+      <div>
+        <h4 className="font-bold opacity-80 mb-1">Your phrases</h4>
+        {settings.voiceShortcuts.length === 0 ? (
+          <p className="text-xs opacity-60">None yet. Your phrases are tried before the built-in ones.</p>
+        ) : (
+          <ul className="flex flex-col gap-1 text-xs">
+            {settings.voiceShortcuts.map((shortcut, i) => (
+              <li key={i} className="flex items-center gap-2">
+                <span className="flex-1">
+                  <span className="font-mono">"{shortcut.phrase}"</span> → {getCommandLabel(shortcut.command)}
+                </span>
+                <button
+                  onClick={() => handleRemove(i)}
+                  className="px-1 opacity-50 hover:opacity-100"
+                  aria-label={`Remove phrase ${shortcut.phrase}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAdd} className="mt-2 flex flex-col gap-2">
+          <input
+            type="text"
+            value={phrase}
+            onChange={(e) => { setPhrase(e.target.value); setError(''); }}
+            placeholder="e.g. onward, or chapter {number}"
+            className={`w-full p-2 rounded border text-sm ${fieldClass}`}
+            aria-label="Phrase to say"
+            aria-describedby="voice-phrase-help"
+          />
+          <div className="flex gap-2">
+            <select
+              value={command}
+              onChange={(e) => { setCommand(e.target.value as VoiceCommandId); setError(''); }}
+              className={`flex-1 min-w-0 p-2 rounded border text-sm appearance-none cursor-pointer ${fieldClass}`}
+              aria-label="Command for the phrase"
+            >
+              {VOICE_COMMANDS.map(c => (
+                <option key={c.id} value={c.id}>{c.label}</option>
+              ))}
+            </select>
+            <button type="submit" className="px-3 py-2 rounded border border-current font-medium opacity-80 hover:opacity-100">
+              Add
+            </button>
+          </div>
+          <p id="voice-phrase-help" className="text-xs opacity-60">
+            Use [brackets] for optional words, (this|that) for choices, and {'{number}'} or {'{text}'} where a value is spoken.
+          </p>
+          {error && <p role="alert" className="text-xs font-bold text-red-500">{error}</p>}
+        </form>
+      </div>
+
+      <details>
+        <summary className="cursor-pointer font-bold opacity-80">What can I say?</summary>
+        <ul className="mt-2 flex flex-col gap-1 text-xs">
+          {VOICE_COMMANDS.map(c => (
+            <li key={c.id} className="flex justify-between gap-2">
+              <span className="font-mono">"{getVoiceExample(grammar, c.id)}"</span>
+              <span className="opacity-70 text-right">{c.label}</span>
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+};
+
+export default VoiceCommandSettings;
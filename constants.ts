@@ -1,4 +1,4 @@
-import { ThemeMode } from './types';
+import { ThemeMode, ThemeColors, FontFamily, ReaderSettings } from './types';
 
 export const THEME_STYLES = {
   [ThemeMode.LIGHT]: 'bg-[#ffffff] text-gray-900 selection:bg-blue-200 selection:text-blue-900',
@@ -6,41 +6,169 @@ export const THEME_STYLES = {
   [ThemeMode.SEPIA]: 'bg-[#f4ecd8] text-[#5b4636] selection:bg-[#d8cba8] selection:text-[#3e3025]',
   [ThemeMode.HIGH_CONTRAST]: 'bg-black text-[#ffff00] selection:bg-[#ffff00] selection:text-black border-[#ffff00]',
   [ThemeMode.INK]: 'bg-[#f7f7f7] text-black selection:bg-[#d4d4d4] selection:text-black',
+  // Colours come from CSS variables set on the app root (see services/themes.ts)
+  [ThemeMode.CUSTOM]: 'bg-[var(--theme-background)] text-[var(--theme-text)] selection:bg-[var(--theme-selection)] selection:text-[var(--theme-text)]',
 };
 
+// Concrete colours per preset theme, for output that can't use Tailwind classes (exports, print)
+// and as the starting point for custom themes
+export const THEME_COLORS: Record<Exclude<ThemeMode, ThemeMode.CUSTOM>, ThemeColors> = {
+  [ThemeMode.LIGHT]: { background: '#ffffff', text: '#111827', highlight: '#fef08a', selection: '#bfdbfe', accent: '#2563eb', focusRing: '#2563eb' },
+  [ThemeMode.DARK]: { background: '#1a1a1a', text: '#e5e7eb', highlight: '#a16207', selection: '#4b5563', accent: '#60a5fa', focusRing: '#93c5fd' },
+  [ThemeMode.SEPIA]: { background: '#f4ecd8', text: '#5b4636', highlight: '#d8cba8', selection: '#d8cba8', accent: '#5b4636', focusRing: '#3e3025' },
+  [ThemeMode.HIGH_CONTRAST]: { background: '#000000', text: '#ffff00', highlight: '#ca8a04', selection: '#ffff00', accent: '#ffff00', focusRing: '#00ffff' },
+  [ThemeMode.INK]: { background: '#f7f7f7', text: '#000000', highlight: '#d4d4d4', selection: '#d4d4d4', accent: '#000000', focusRing: '#000000' },
+};
+
+// Starting points offered by the theme editor
+export const CUSTOM_THEME_TEMPLATES: { name: string; colors: ThemeColors }[] = [
+  {
+    name: 'Dark blue on cream',
+    colors: { background: '#fdf6e3', text: '#1e3a8a', highlight: '#fde68a', selection: '#bfdbfe', accent: '#1e40af', focusRing: '#b45309' },
+  },
+  {
+    name: 'Black on pale blue',
+    colors: { background: '#dbeafe', text: '#000000', highlight: '#fef08a', selection: '#93c5fd', accent: '#1d4ed8', focusRing: '#b91c1c' },
+  },
+  {
+    name: 'Cream on charcoal',
+    colors: { background: '#262626', text: '#fef3c7', highlight: '#854d0e', selection: '#525252', accent: '#fbbf24', focusRing: '#fde047' },
+  },
+];
+
+// Reading ruler band colours; tinted overlays help many readers with visual stress
+export const RULER_TINTS: { name: string; color: string }[] = [
+  { name: 'Yellow', color: '#fde047' },
+  { name: 'Blue', color: '#93c5fd' },
+  { name: 'Rose', color: '#f9a8d4' },
+  { name: 'Green', color: '#86efac' },
+  { name: 'Grey', color: '#9ca3af' },
+];
+
+// Highlight colours. Each has its own underline style too, so categories
+// can be told apart without relying on colour alone.
+export const HIGHLIGHT_COLORS: { id: string; name: string; color: string; underline: 'solid' | 'double' | 'dotted' | 'dashed' | 'wavy' }[] = [
+  { id: 'yellow', name: 'Yellow', color: '#fde047', underline: 'solid' },
+  { id: 'blue', name: 'Blue', color: '#93c5fd', underline: 'dotted' },
+  { id: 'pink', name: 'Pink', color: '#f9a8d4', underline: 'dashed' },
+  { id: 'green', name: 'Green', color: '#86efac', underline: 'double' },
+  { id: 'orange', name: 'Orange', color: '#fdba74', underline: 'wavy' },
+];
+
+// Starting points for new settings profiles, applied over DEFAULT_SETTINGS
+export const PROFILE_TEMPLATES: { name: string; settings: Partial<ReaderSettings> }[] = [
+  {
+    name: 'Evening',
+    settings: { theme: ThemeMode.DARK, fontSize: 24, lineHeight: 2, isFocusMode: true },
+  },
+  {
+    name: 'Presentation',
+    settings: { theme: ThemeMode.INK, fontSize: 36, lineHeight: 1.6, maxLineLength: 60, isHoverZoom: false },
+  },
+  {
+    name: 'Low vision',
+    settings: { theme: ThemeMode.HIGH_CONTRAST, fontSize: 40, fontFamily: FontFamily.HYPERLEGIBLE, letterSpacing: 0.08, wordSpacing: 0.2, lineHeight: 2 },
+  },
+];
+
+// CSS font stacks; the web fonts are loaded in index.html
+export const FONT_STACKS: Record<FontFamily, string> = {
+  [FontFamily.SANS]: 'sans-serif',
+  [FontFamily.SERIF]: 'serif',
+  [FontFamily.MONO]: 'monospace',
+  [FontFamily.SYSTEM]: 'system-ui, sans-serif',
+  [FontFamily.DYSLEXIC]: "'OpenDyslexic', 'Comic Sans MS', sans-serif",
+  [FontFamily.HYPERLEGIBLE]: "'Atkinson Hyperlegible', sans-serif",
+  [FontFamily.LEXEND]: "'Lexend', sans-serif",
+};
+
+export const FONT_OPTIONS: { value: FontFamily; label: string }[] = [
+  { value: FontFamily.SANS, label: 'Sans Serif' },
+  { value: FontFamily.SERIF, label: 'Serif' },
+  { value: FontFamily.MONO, label: 'Monospace' },
+  { value: FontFamily.DYSLEXIC, label: 'OpenDyslexic' },
+  { value: FontFamily.HYPERLEGIBLE, label: 'Atkinson Hyperlegible' },
+  { value: FontFamily.LEXEND, label: 'Lexend' },
+];
+
+// Tesseract traineddata codes offered for OCR
+export const OCR_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'eng', label: 'English' },
+  { code: 'deu', label: 'German' },
+  { code: 'fra', label: 'French' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'ita', label: 'Italian' },
+  { code: 'por', label: 'Portuguese' },
+  { code: 'nld', label: 'Dutch' },
+  { code: 'pol', label: 'Polish' },
+  { code: 'rus', label: 'Russian' },
+  { code: 'ara', label: 'Arabic' },
+  { code: 'heb', label: 'Hebrew' },
+  { code: 'hin', label: 'Hindi' },
+  { code: 'chi_sim', label: 'Chinese (Simplified)' },
+  { code: 'chi_tra', label: 'Chinese (Traditional)' },
+  { code: 'jpn', label: 'Japanese' },
+  { code: 'kor', label: 'Korean' },
+];
+
 export const SAMPLE_TEXT = `Welcome to AccessReader.
 
-This assistive tool is designed to create a personalized, accessible reading environment tailored to your needs. To get started, use the "Open File" button at the bottom to load a .txt, .pdf, or .docx document.
+This assistive tool is designed to create a personalized, accessible reading environment tailored to your needs. To get started, use the "Open File" button at the bottom to load a .txt, .pdf, .docx, .epub, Markdown or HTML document, or a scanned image (PNG, JPEG, TIFF). Scanned pages are converted to text with OCR in the language chosen next to the "Open File" button. EPUB books show their chapters in the "Contents" list of the right sidebar.
+
+📚 Library
+Every file you open is saved in your browser's library, together with your notes, highlights and last-read paragraph. Use the "Library" button in the bottom toolbar to reopen, rename or delete documents. When you reopen a document you can continue exactly where you left off. The bar above the text shows how much you have read and how long the rest will take at your own measured reading pace.
 
 🔍 Magnification & Study Tools
-• Magnifier: Enable the lens in the sidebar to view text under your cursor at high magnification.
-• Marker Mode: Highlight specific words or sentences within a paragraph.
-• Notes: Click any paragraph to select it, then add your personal notes in the sidebar.
+• Magnifier: Enable the lens in the sidebar to view text under your cursor at high magnification. Choose Word, Line (the whole line around the word, for context) or Region (magnifies everything, including images and controls), set the zoom and lens size, or dock it as a panel above the text so it never covers what you are reading.
+• Caret Browsing: Press C (or use the sidebar button) to move a visible caret through the text with the arrow keys — Left / Right by word, Up / Down by line, Home / End to the ends of the paragraph. The magnifier follows the caret, Enter speaks the word and Shift + Enter the whole sentence. Press Escape to leave.
+• Marker Mode: Highlight words, sentences or passages that run across paragraphs. Sort highlights into colour categories such as Definition or Question, which you can rename, and use the legend to show only some of them.
+• Find in Document: Press Ctrl + F (or use the sidebar button) to search with match case, whole word and regular expression options. Enter jumps to the next match, Shift + Enter to the previous one.
+• Notes: Click any paragraph to select it, then add your personal notes in the sidebar. Notes can use bold, italics, lists and links, carry #tags, and can be attached to a single highlight. They follow their text if the document is reloaded and its paragraphs split differently.
+• Notes & highlights browser: With no paragraph selected, the sidebar lists every note and highlight in the document. Filter and sort them, select several to delete, or click one to scroll to it.
+• Undo & History: Press Ctrl + Z to undo a change to your notes, highlights or settings and Ctrl + Shift + Z to redo it, or say "undo". The "History" button lists recent changes so you can go back to any of them. Typing in a note counts as one change until you pause.
+• Export: Use the "Export" button to download your notes and highlights as a Markdown study digest, a printable page or a JSON backup that can be imported again.
 
 🔊 Read Aloud & Audio
 Located in the Right Sidebar:
 • Continuous Reading: Click "Read All" to start a hands-free session. The app will read the text and automatically scroll to the next paragraph until finished.
 • Play Paragraph: Listen to just the currently selected text block.
-• Voice Selection: Choose your preferred speech voice from the available system options.
+• Voice Selection: Choose your preferred speech voice from the available system options. Voices for the document's language are listed first.
+• Languages: The language of the document and of each paragraph is detected automatically. Each paragraph is read with a voice for its language, Arabic and Hebrew are laid out right to left, and Chinese, Japanese and Thai text is split into real words for bionic reading, the magnifier and caret browsing.
+
+📜 Auto-Scroll
+Press A (or use the "Auto-Scroll" button in the sidebar) to scroll the text hands-free at a set number of words per minute, like a teleprompter. A guide line marks where to read. Resting the pointer on the text holds the scroll; Space pauses and resumes, + and - change the speed, and Escape stops.
 
 🧠 Bionic Reading & Focus Tools
 Located in the Bottom Toolbar:
 • Bionic Reading: Toggle this to highlight the initial letters of words. This guides your eye through the text (artificial fixation), helping to increase reading speed and focus, especially for ADHD.
 • Focus Mode: Dims all text except the paragraph you are currently reading.
 • Hover Zoom: Automatically enlarges the text block you are hovering over.
+• Reading Ruler: Turn it on in the Right Sidebar to show a tinted band over the line you are reading and mask the rest of the text. The band follows your pointer, or press Shift + Arrow Down / Up to step one line at a time. Its height, tint and mask strength can be adjusted.
 
 🎨 Appearance Customization
 • Themes: High Contrast (Yellow/Black), E-Ink (Paper-like), Sepia, Dark, and Light.
-• Typography: Adjust font size and font family (Sans, Serif, Mono).
+• Custom Themes: Use the 🎨 button next to the themes to pick your own background, text, highlight, selection, accent and focus colours, e.g. dark blue on cream. The editor shows the WCAG contrast ratio of every colour pair and warns about combinations that are hard to read.
+• Typography: Adjust font size and font family, including the dyslexia-friendly OpenDyslexic and the hyperlegible Atkinson Hyperlegible and Lexend. The Typography panel sets line height, letter, word and paragraph spacing, a maximum line length and text alignment, with a live preview.
+• Profiles: Save your settings as named profiles such as "Evening" or "Low vision" and switch between them from the toolbar. Profiles can be exported to a file and imported on another device, so a therapist or teacher can prepare one for you.
 
 🎤 Voice Control
-Enable "Microphone" in the Right Sidebar to control the app hands-free:
-• Navigation: Say "Next" or "Previous" to jump between paragraphs.
-• Reading: Say "Read All" to start continuous reading, or "Stop" to pause.
-• Modes: Say "Magnifier On/Off", "Focus Mode On/Off", or "Bionic On/Off".
+Enable "Microphone" in the Right Sidebar to control the app hands-free. Commands are whole phrases, so words in ordinary conversation don't trigger them, and the app says what it did (this can be turned off).
+• Navigation: Say "Next", "Previous", "Go to paragraph 12", "Go to the top" or "Go to the end".
+• Reading: Say "Read All", "Read this paragraph", "Pause", "Resume" or "Stop".
+• Text: Say "Font size 30", "Bigger text" or "Smaller text", or "Find" followed by a word.
+• Modes: Say "Magnifier On/Off", "Focus Mode On/Off", "Bionic On/Off", "Ruler On/Off" or "Caret On/Off".
+• Auto-Scroll: Say "Start Scrolling", "Scroll Faster", "Scroll Speed 200", "Pause Scrolling" or "Stop Scrolling".
+• Dictation: Say "Take a note" (or press "Dictate" above the notes) to speak into the current paragraph's note. Say punctuation such as "comma", "period" or "new line", edit with "delete last word", "delete last sentence" or "scratch that", and say "stop dictation" to go back to commands.
+• Say "Help" to hear some commands. The sidebar lets you pick the command language (English, Spanish, German or French) and add your own phrases, such as "onward" for Next.
 
 Keyboard Shortcuts:
-• Arrow Keys: Navigate between paragraphs.
-• Spacebar: Scroll down.
+Press ? (or the "Shortcuts" button in the toolbar) to see every shortcut. Any of them can be changed there, for example to avoid combinations that are hard with sticky keys or an alternative keyboard, and the app warns when two commands share a key. Your keys are saved in the current profile.
+• Arrow Keys or N / P: Navigate between paragraphs.
+• Spacebar: Scroll down (pauses and resumes while auto-scrolling).
+• R / L / K / S: Read all, read the paragraph, pause or resume, stop.
+• M, Z, U, F, B: Marker mode, magnifier, reading ruler, focus mode, bionic reading.
+• A: Start or stop auto-scroll; + / - change its speed.
+• C: Caret browsing; arrows then move word by word and Enter speaks the word.
+• T: Next theme.
 • Ctrl + / -: Adjust overall interface scale.
 `;
\ No newline at end of file
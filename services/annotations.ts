@@ -0,0 +1,105 @@
+import { Highlight, HighlightCategory, Note } from '../types';
+import { getHighlightCategory, getHighlightTime } from './highlights';
+import { getNotePlainText } from './notes';
+
+// The document's notes and highlights as one list, for reviewing everything
+// that was marked. Highlights that run across paragraphs are one item.
+
+export type AnnotationKind = 'note' | 'highlight';
+export type AnnotationSort = 'document' | 'newest' | 'oldest';
+
+export interface AnnotationItem {
+  key: string;
+  kind: AnnotationKind;
+  paragraphs: number[]; // In reading order; only highlights cover more than one
+  text: string; // The note without formatting, or the highlighted text
+  time?: number; // When the note was last edited or the highlight made, if known
+  tags: string[]; // Notes only
+  quote?: string; // Notes on a highlight: the highlighted text
+  noteId?: string; // Notes only
+  category?: HighlightCategory; // Highlights only
+  highlightId?: string; // Highlights only; removing it removes every part and its notes
+}
+
+export const ANNOTATION_SORTS: { id: AnnotationSort; label: string }[] = [
+  { id: 'document', label: 'Document order' },
+  { id: 'newest', label: 'Newest first' },
+  { id: 'oldest', label: 'Oldest first' },
+];
+
+// Plain text of each note by id. Parsing the Markdown is slow, and the whole list is collected
+// again on every note change, so a note is only parsed again once it is edited.
+const plainTextCache = new Map<string, { updatedAt: number; text: string; plainText: string }>();
+
+const getCachedPlainText = (note: Note) => {
+  const cached = plainTextCache.get(note.id);
+  if (cached && cached.updatedAt === note.updatedAt && cached.text === note.text) return cached.plainText;
+  const plainText = getNotePlainText(note.text);
+  plainTextCache.set(note.id, { updatedAt: note.updatedAt, text: note.text, plainText });
+  return plainText;
+};
+
+export const collectAnnotations = (
+  notes: Note[],
+  highlights: Record<number, Highlight[]>,
+  categories: HighlightCategory[]
+): AnnotationItem[] => {
+  const items: AnnotationItem[] = notes
+    .filter(note => note.text.trim() || note.tags.length > 0)
+    .map(note => ({
+      key: `note-${note.id}`,
+      kind: 'note',
+      paragraphs: [note.paragraph],
+      text: getCachedPlainText(note),
+      time: note.updatedAt,
+      tags: note.tags,
+      quote: note.highlightId ? note.quote : undefined,
+      noteId: note.id,
+    }));
+
+  // Integer keys come out in ascending order, so group parts are met in reading order
+  const groups = new Map<string, AnnotationItem>();
+  Object.entries(highlights).forEach(([key, list]) => {
+    [...list].sort((a, b) => a.start - b.start).forEach(h => {
+      const group = h.groupId && groups.get(h.groupId);
+      if (group) {
+        group.paragraphs.push(Number(key));
+        group.text += ` ${h.text}`;
+        return;
+      }
+      const item: AnnotationItem = {
+        key: `highlight-${h.id}`,
+        kind: 'highlight',
+        paragraphs: [Number(key)],
+        text: h.text,
+        time: getHighlightTime(h),
+        tags: [],
+        category: getHighlightCategory(categories, h.categoryId),
+        highlightId: h.id,
+      };
+      if (h.groupId) groups.set(h.groupId, item);
+      items.push(item);
+    });
+  });
+  return items;
+};
+
+// Items whose text or category name contains `query`, ignoring case. A query starting
+// with # matches tags instead.
+export const filterAnnotations = (items: AnnotationItem[], query: string, kind: AnnotationKind | 'all') => {
+  const needle = query.trim().toLowerCase();
+  const matches = (item: AnnotationItem) => needle.startsWith('#')
+    ? item.tags.some(tag => tag.toLowerCase().startsWith(needle.slice(1)))
+    : item.text.toLowerCase().includes(needle) || !!item.category?.name.toLowerCase().includes(needle);
+  return items.filter(item => (kind === 'all' || item.kind === kind) && (!needle || matches(item)));
+};
+
+// Items without a time go last when sorting by time
+export const sortAnnotations = (items: AnnotationItem[], sort: AnnotationSort) => {
+  const sorted = [...items];
+  const kindOrder = (item: AnnotationItem) => (item.kind === 'note' ? 0 : 1);
+  if (sort === 'document') sorted.sort((a, b) => a.paragraphs[0] - b.paragraphs[0] || kindOrder(a) - kindOrder(b));
+  if (sort === 'newest') sorted.sort((a, b) => (b.time ?? 0) - (a.time ?? 0));
+  if (sort === 'oldest') sorted.sort((a, b) => (a.time ?? Number.MAX_SAFE_INTEGER) - (b.time ?? Number.MAX_SAFE_INTEGER));
+  return sorted;
+};
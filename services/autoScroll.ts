@@ -0,0 +1,27 @@
+// Auto-scroll (teleprompter) pacing. The scroll rate is derived from the
+// words-per-minute setting and how tall the text at the guide line is, so
+// short lines of large text and dense paragraphs both pass at reading speed.
+
+export const MIN_AUTO_SCROLL_WPM = 30;
+export const MAX_AUTO_SCROLL_WPM = 600;
+export const AUTO_SCROLL_STEP_WPM = 10;
+
+// Where the guide line sits, as a fraction of the visible reading area
+export const GUIDE_LINE_RATIO = 0.35;
+
+// Longer gaps (background tab, debugger) are treated as a single frame
+const MAX_FRAME_MS = 100;
+
+// Blocks with fewer words (headings, images) don't give a usable measure
+const MIN_MEASURABLE_WORDS = 5;
+
+export const clampAutoScrollSpeed = (wordsPerMinute: number) =>
+  Math.min(Math.max(Math.round(wordsPerMinute), MIN_AUTO_SCROLL_WPM), MAX_AUTO_SCROLL_WPM);
+
+// Pixels each word occupies vertically in a block, or `fallback` when the block is too short to measure
+export const getPixelsPerWord = (height: number, words: number, fallback: number) =>
+  words >= MIN_MEASURABLE_WORDS && height > 0 ? height / words : fallback;
+
+// Distance to scroll for one animation frame
+export const getScrollStep = (wordsPerMinute: number, pixelsPerWord: number, frameMs: number) =>
+  (wordsPerMinute / 60) * pixelsPerWord * (Math.min(frameMs, MAX_FRAME_MS) / 1000);
@@ -0,0 +1,65 @@
+import { ThemeColors } from '../types';
+
+// WCAG 2.x contrast ratios (https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio).
+
+export const WCAG_AA_TEXT = 4.5; // 1.4.3 Contrast (Minimum)
+export const WCAG_AAA_TEXT = 7; // 1.4.6 Contrast (Enhanced)
+export const WCAG_NON_TEXT = 3; // 1.4.11 Non-text Contrast (focus indicators, controls)
+
+export type ContrastLevel = 'AAA' | 'AA' | 'fail';
+
+export interface ContrastCheck {
+  label: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  isText: boolean; // Text pairs need 4.5:1, graphical elements 3:1
+  level: ContrastLevel;
+}
+
+export const isHexColor = (value: string) => /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  let value = hex.replace('#', '');
+  if (value.length === 3) value = value.split('').map(c => c + c).join('');
+  const n = parseInt(value, 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+// https://www.w3.org/TR/WCAG21/#dfn-relative-luminance
+export const getRelativeLuminance = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex).map(channel => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const getContrastRatio = (a: string, b: string) => {
+  const la = getRelativeLuminance(a);
+  const lb = getRelativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+};
+
+const getLevel = (ratio: number, isText: boolean): ContrastLevel => {
+  if (!isText) return ratio >= WCAG_NON_TEXT ? 'AA' : 'fail';
+  if (ratio >= WCAG_AAA_TEXT) return 'AAA';
+  return ratio >= WCAG_AA_TEXT ? 'AA' : 'fail';
+};
+
+const check = (label: string, foreground: string, background: string, isText: boolean): ContrastCheck => {
+  const ratio = getContrastRatio(foreground, background);
+  return { label, foreground, background, ratio, isText, level: getLevel(ratio, isText) };
+};
+
+// The colour pairs that actually meet on screen
+export const getThemeContrastChecks = (colors: ThemeColors): ContrastCheck[] => [
+  check('Text on background', colors.text, colors.background, true),
+  check('Text on highlight', colors.text, colors.highlight, true),
+  check('Text on selection', colors.text, colors.selection, true),
+  check('Background on accent (buttons)', colors.background, colors.accent, true),
+  check('Accent on background', colors.accent, colors.background, false),
+  check('Focus ring on background', colors.focusRing, colors.background, false),
+];
+
+export const formatContrastRatio = (ratio: number) => `${(Math.floor(ratio * 100) / 100).toFixed(2)}:1`;
@@ -0,0 +1,128 @@
+import { VoiceGrammar, getVoiceGrammar, matchesVoicePhrase } from './voiceCommands';
+
+// Voice dictation into paragraph notes. Recognised speech is added to the note,
+// with spoken punctuation ("comma", "new line") turned into marks. A few
+// whole-utterance phrases edit the note instead, and one returns to command mode.
+// Editing phrases use the voice command pattern syntax.
+
+export type DictationEdit = 'stop' | 'deleteWord' | 'deleteSentence' | 'scratch';
+
+export type DictationAction =
+  | { type: 'text'; text: string }
+  | { type: DictationEdit };
+
+interface DictationGrammar {
+  language: string; // ISO 639-1 code, as for voice commands
+  punctuation: Record<string, string>; // Spoken name → mark; '\n' starts a new line
+  edits: Record<DictationEdit, string[]>;
+  responses: Record<DictationEdit | 'text', string>; // Shown after each utterance; 'stop' is also spoken
+}
+
+const ENGLISH: DictationGrammar = {
+  language: 'en',
+  punctuation: {
+    comma: ',', period: '.', 'full stop': '.', 'question mark': '?', 'exclamation mark': '!', 'exclamation point': '!',
+    colon: ':', semicolon: ';', 'new line': '\n', 'new paragraph': '\n\n',
+  },
+  edits: {
+    stop: ['(stop|end|finish) dictation', 'command mode'],
+    deleteWord: ['delete [the] last word', 'delete word'],
+    deleteSentence: ['delete [the] last sentence', 'delete sentence'],
+    scratch: ['(scratch|undo) that'],
+  },
+  responses: { stop: 'Dictation off', deleteWord: 'Word deleted', deleteSentence: 'Sentence deleted', scratch: 'Removed', text: 'Added' },
+};
+
+const SPANISH: DictationGrammar = {
+  language: 'es',
+  punctuation: {
+    coma: ',', punto: '.', 'signo de interrogación': '?', 'signo de exclamación': '!', 'dos puntos': ':',
+    'punto y coma': ';', 'nueva línea': '\n', 'nuevo párrafo': '\n\n',
+  },
+  edits: {
+    stop: ['(terminar|parar|detener) [el] dictado', 'modo [de] comandos'],
+    deleteWord: ['borrar [la] última palabra'],
+    deleteSentence: ['borrar [la] última frase'],
+    scratch: ['deshacer [eso]'],
+  },
+  responses: { stop: 'Dictado terminado', deleteWord: 'Palabra borrada', deleteSentence: 'Frase borrada', scratch: 'Deshecho', text: 'Añadido' },
+};
+
+const GERMAN: DictationGrammar = {
+  language: 'de',
+  punctuation: {
+    komma: ',', punkt: '.', fragezeichen: '?', ausrufezeichen: '!', doppelpunkt: ':', semikolon: ';',
+    'neue zeile': '\n', 'neuer absatz': '\n\n',
+  },
+  edits: {
+    stop: ['diktat (beenden|stoppen)', 'befehlsmodus'],
+    deleteWord: ['letztes wort löschen'],
+    deleteSentence: ['letzten satz löschen'],
+    scratch: ['rückgängig'],
+  },
+  responses: { stop: 'Diktat beendet', deleteWord: 'Wort gelöscht', deleteSentence: 'Satz gelöscht', scratch: 'Entfernt', text: 'Hinzugefügt' },
+};
+
+const FRENCH: DictationGrammar = {
+  language: 'fr',
+  punctuation: {
+    virgule: ',', point: '.', "point d'interrogation": '?', "point d'exclamation": '!', 'deux points': ':',
+    'point virgule': ';', 'à la ligne': '\n', 'nouvelle ligne': '\n', 'nouveau paragraphe': '\n\n',
+  },
+  edits: {
+    stop: ['(arrêter|terminer) [la] dictée', 'mode commande'],
+    deleteWord: ['effacer [le] dernier mot'],
+    deleteSentence: ['effacer [la] dernière phrase'],
+    scratch: ['annuler [ça]'],
+  },
+  responses: { stop: 'Dictée terminée', deleteWord: 'Mot effacé', deleteSentence: 'Phrase effacée', scratch: 'Annulé', text: 'Ajouté' },
+};
+
+const GRAMMARS = [ENGLISH, SPANISH, GERMAN, FRENCH];
+
+export const getDictationGrammar = (locale: string): DictationGrammar =>
+  GRAMMARS.find(grammar => grammar.language === locale.split('-')[0].toLowerCase()) || ENGLISH;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Turns spoken punctuation into marks and tidies the spacing around them.
+// Longer names go first so "point virgule" isn't read as "point".
+export const formatDictation = (transcript: string, grammar: DictationGrammar): string => {
+  let text = transcript.trim();
+  Object.keys(grammar.punctuation).sort((a, b) => b.length - a.length).forEach(name => {
+    const spoken = escapeRegExp(name).replace(/\s+/g, '[\\s-]+');
+    text = text.replace(new RegExp(`(^|\\s)${spoken}(?=\\s|$)`, 'giu'), `$1${grammar.punctuation[name]}`);
+  });
+  return text
+    .replace(/[ \t]+([,.;:!?])/g, '$1')
+    .replace(/[ \t]*\n[ \t]*/g, '\n')
+    .replace(/([.!?]\s+|\n)(\p{Ll})/gu, (_, before: string, letter: string) => before + letter.toUpperCase());
+};
+
+// Adds dictated text to the end of a note, with the spacing and capitalisation that follow on from it
+export const appendDictation = (note: string, text: string): string => {
+  if (!text) return note;
+  const isSentenceStart = !note.trim() || /([.!?]|\n)\s*$/.test(note);
+  const needsSpace = !!note && !/\s$/.test(note) && !/^[,.;:!?\n]/.test(text);
+  return note + (needsSpace ? ' ' : '') + (isSentenceStart ? capitalize(text) : text);
+};
+
+export const deleteLastWord = (note: string) => note.replace(/\s*\S+\s*$/, '');
+
+// Removes the last sentence, keeping the end mark of the one before it
+export const deleteLastSentence = (note: string) => {
+  const body = note.replace(/\s+$/, '').replace(/[.!?]+$/, '');
+  const end = Math.max(body.lastIndexOf('.'), body.lastIndexOf('!'), body.lastIndexOf('?'), body.lastIndexOf('\n'));
+  return end < 0 ? '' : body.slice(0, end + 1);
+};
+
+// What a final dictation result asks for: an edit if the whole utterance is an editing phrase, otherwise text
+export const parseDictation = (transcript: string, locale: string): DictationAction => {
+  const grammar = getDictationGrammar(locale);
+  const commands: VoiceGrammar = getVoiceGrammar(locale);
+  const edit = (Object.keys(grammar.edits) as DictationEdit[])
+    .find(type => matchesVoicePhrase(transcript, grammar.edits[type], commands));
+  return edit ? { type: edit } : { type: 'text', text: formatDictation(transcript, grammar) };
+};
@@ -0,0 +1,230 @@
+import { Block, BlockType, Chapter, ExtractedDocument } from '../types';
+import { elementToBlocks } from './htmlBlocks';
+
+// EPUB 2/3 loader: reads the OPF package, follows the spine and maps the
+// nav document (EPUB 3) or NCX (EPUB 2) table of contents onto blocks.
+
+interface ManifestItem {
+  href: string; // Resolved path inside the archive
+  mediaType: string;
+  properties: string;
+}
+
+interface TocEntry {
+  title: string;
+  path: string; // Resolved chapter path
+  fragment: string;
+  level: number;
+}
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml') => {
+  const doc = new DOMParser().parseFromString(text, type);
+  if (doc.getElementsByTagName('parsererror').length > 0 && type !== 'text/html') {
+    // Some publishers ship malformed XHTML; the HTML parser is more forgiving
+    return new DOMParser().parseFromString(text, 'text/html');
+  }
+  return doc;
+};
+
+// Namespace-agnostic lookups (OPF, NCX and XHTML all use default namespaces)
+const byLocalName = (root: Document | Element, name: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+const childrenByLocalName = (el: Element, name: string): Element[] =>
+  Array.from(el.children).filter(child => child.localName === name);
+
+// Resolves `href` relative to the file at `basePath`, returning [path, fragment]
+const resolvePath = (basePath: string, href: string): [string, string] => {
+  const [rawPath, fragment = ''] = href.split('#');
+  let decoded = rawPath;
+  try {
+    decoded = decodeURIComponent(rawPath);
+  } catch {
+    // Keep the raw path if it isn't valid URI encoding
+  }
+  if (!decoded) return [basePath, fragment];
+
+  const parts = basePath.split('/').slice(0, -1);
+  decoded.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  });
+  return [parts.join('/'), fragment];
+};
+
+const readText = async (zip: any, path: string): Promise<string | null> => {
+  const file = zip.file(path);
+  return file ? file.async('string') : null;
+};
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// --- Table of contents ---
+
+const parseNavToc = (doc: Document, navPath: string): TocEntry[] => {
+  const navs = byLocalName(doc, 'nav');
+  const tocNav = navs.find(nav =>
+    (nav.getAttribute('epub:type') || nav.getAttributeNS('http://www.idpf.org/2007/ops', 'type') || '')
+      .split(/\s+/).includes('toc')
+  ) || navs[0];
+  if (!tocNav) return [];
+
+  const entries: TocEntry[] = [];
+  const walk = (list: Element, level: number) => {
+    childrenByLocalName(list, 'li').forEach(li => {
+      const link = childrenByLocalName(li, 'a')[0];
+      const href = link?.getAttribute('href');
+      if (link && href) {
+        const [path, fragment] = resolvePath(navPath, href);
+        const title = (link.textContent || '').replace(/\s+/g, ' ').trim();
+        if (title) entries.push({ title, path, fragment, level });
+      }
+      childrenByLocalName(li, 'ol').forEach(child => walk(child, level + 1));
+    });
+  };
+  childrenByLocalName(tocNav, 'ol').forEach(list => walk(list, 0));
+  return entries;
+};
+
+const parseNcxToc = (doc: Document, ncxPath: string): TocEntry[] => {
+  const entries: TocEntry[] = [];
+  const walk = (parent: Element, level: number) => {
+    childrenByLocalName(parent, 'navPoint').forEach(point => {
+      const label = byLocalName(point, 'text')[0]?.textContent || '';
+      const src = childrenByLocalName(point, 'content')[0]?.getAttribute('src');
+      if (src && label.trim()) {
+        const [path, fragment] = resolvePath(ncxPath, src);
+        entries.push({ title: label.replace(/\s+/g, ' ').trim(), path, fragment, level });
+      }
+      walk(point, level + 1);
+    });
+  };
+  const navMap = byLocalName(doc, 'navMap')[0];
+  if (navMap) walk(navMap, 0);
+  return entries;
+};
+
+// --- Chapters ---
+
+// Inline images as data URIs so the stored document doesn't depend on the archive
+const inlineImages = async (zip: any, doc: Document, chapterPath: string, manifest: ManifestItem[]) => {
+  const images = byLocalName(doc, 'img');
+  for (const img of images) {
+    const src = img.getAttribute('src');
+    if (!src || /^(data:|https?:)/i.test(src)) continue;
+    const [path] = resolvePath(chapterPath, src);
+    const file = zip.file(path);
+    if (!file) {
+      img.removeAttribute('src');
+      continue;
+    }
+    const mediaType = manifest.find(item => item.href === path)?.mediaType || 'image/png';
+    img.setAttribute('src', `data:${mediaType};base64,${await file.async('base64')}`);
+  }
+};
+
+// Text of the element a TOC fragment points at, used to find its block
+const getFragmentText = (doc: Document, fragment: string) => {
+  if (!fragment) return '';
+  const target = doc.getElementById(fragment)
+    || byLocalName(doc, '*').find(el => el.getAttribute('id') === fragment || el.getAttribute('name') === fragment);
+  return target ? normalize(target.textContent || '') : '';
+};
+
+export const extractEpub = async (arrayBuffer: ArrayBuffer): Promise<ExtractedDocument> => {
+  const zip = await window.JSZip.loadAsync(arrayBuffer);
+
+  const containerXml = await readText(zip, 'META-INF/container.xml');
+  if (!containerXml) throw new Error('Missing META-INF/container.xml');
+  const opfPath = byLocalName(parseXml(containerXml), 'rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error('No package document found');
+
+  const opfText = await readText(zip, opfPath);
+  if (!opfText) throw new Error(`Missing package document ${opfPath}`);
+  const opf = parseXml(opfText);
+
+  const title = byLocalName(opf, 'title')[0]?.textContent?.trim() || undefined;
+
+  const manifestById = new Map<string, ManifestItem>();
+  byLocalName(opf, 'item').forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) return;
+    manifestById.set(id, {
+      href: resolvePath(opfPath, href)[0],
+      mediaType: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || '',
+    });
+  });
+  const manifest = Array.from(manifestById.values());
+
+  const spineEl = byLocalName(opf, 'spine')[0];
+  const spine = byLocalName(opf, 'itemref')
+    .filter(ref => ref.getAttribute('linear') !== 'no')
+    .map(ref => manifestById.get(ref.getAttribute('idref') || ''))
+    .filter((item): item is ManifestItem => !!item && /html|xml/.test(item.mediaType));
+
+  // Table of contents: prefer the EPUB 3 nav document, fall back to the NCX
+  let toc: TocEntry[] = [];
+  const navItem = manifest.find(item => item.properties.split(/\s+/).includes('nav'));
+  if (navItem) {
+    const navText = await readText(zip, navItem.href);
+    if (navText) toc = parseNavToc(parseXml(navText, 'application/xhtml+xml'), navItem.href);
+  }
+  if (toc.length === 0) {
+    const ncxItem = manifestById.get(spineEl?.getAttribute('toc') || '')
+      || manifest.find(item => item.mediaType === 'application/x-dtbncx+xml');
+    if (ncxItem) {
+      const ncxText = await readText(zip, ncxItem.href);
+      if (ncxText) toc = parseNcxToc(parseXml(ncxText), ncxItem.href);
+    }
+  }
+
+  const blocks: Block[] = [];
+  const chapters: Chapter[] = [];
+
+  for (const item of spine) {
+    const text = await readText(zip, item.href);
+    if (!text) continue;
+
+    const doc = parseXml(text, 'application/xhtml+xml');
+    await inlineImages(zip, doc, item.href, manifest);
+    const body = byLocalName(doc, 'body')[0] || doc.documentElement;
+    const chapterBlocks = elementToBlocks(body);
+    const chapterStart = blocks.length;
+    blocks.push(...chapterBlocks);
+
+    const entries = toc.filter(entry => entry.path === item.href);
+    if (entries.length === 0 && toc.length === 0 && chapterBlocks.length > 0) {
+      // No usable TOC: name the chapter after its first heading
+      const heading = chapterBlocks.find(block => block.type === BlockType.HEADING);
+      chapters.push({
+        title: heading?.text || `Section ${chapters.length + 1}`,
+        blockIndex: chapterStart,
+        level: 0,
+      });
+    }
+
+    entries.forEach(entry => {
+      let blockIndex = chapterStart;
+      const targetText = getFragmentText(doc, entry.fragment);
+      if (targetText) {
+        const offset = chapterBlocks.findIndex(block => {
+          const blockText = normalize(block.text);
+          return blockText.length > 0 && (targetText.startsWith(blockText) || blockText.startsWith(targetText));
+        });
+        if (offset >= 0) blockIndex = chapterStart + offset;
+      }
+      chapters.push({ title: entry.title, blockIndex, level: entry.level });
+    });
+  }
+
+  // Entries for empty spine items point past their chapter; keep them inside the document
+  chapters.forEach(chapter => {
+    chapter.blockIndex = Math.min(chapter.blockIndex, Math.max(blocks.length - 1, 0));
+  });
+  // Keep TOC order consistent with reading order
+  chapters.sort((a, b) => a.blockIndex - b.blockIndex);
+
+  return { blocks, chapters, title };
+};
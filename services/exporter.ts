@@ -0,0 +1,338 @@
+import { Block, Highlight, HighlightCategory, Note, ThemeColors } from '../types';
+import { hashText } from './text';
+import { detectDocumentLanguages, getTextDirection } from './language';
+import { getHighlightCategory, getHighlightColor, getCoveringHighlights } from './highlights';
+import { findNearestBlock, findNoteParagraph, getTextAnchor, createNote, reanchorNotes } from './notes';
+
+// Study digest export (Markdown, printable HTML) and a round-trippable JSON format.
+
+export const ANNOTATION_EXPORT_FORMAT = 'access-reader-annotations';
+export const ANNOTATION_EXPORT_VERSION = 2; // 2: notes are objects with tags and anchors
+
+export interface DigestSource {
+  title: string;
+  blocks: Block[];
+  notes: Note[];
+  highlights: Record<number, Highlight[]>;
+  categories?: HighlightCategory[]; // Names and colours for highlights; without them all look alike
+}
+
+interface DigestEntry {
+  index: number;
+  context: string;
+  notes: Note[]; // On the paragraph as a whole
+  highlights: { highlight: Highlight; note?: Note }[];
+}
+
+export interface AnnotationExport {
+  format: typeof ANNOTATION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  document: {
+    title: string;
+    fingerprint: string;
+    blockCount: number;
+  };
+  notes: Note[];
+  highlights: { paragraph: number; start: number; end: number; text: string; id: string; categoryId?: string; groupId?: string }[];
+  categories?: HighlightCategory[];
+}
+
+export interface AnnotationImport {
+  notes: Note[];
+  highlights: Record<number, Highlight[]>;
+  categories: HighlightCategory[]; // Categories the highlights were made with
+  documentMatches: boolean; // Fingerprint matched the open document
+  dropped: number; // Items that couldn't be placed in the open document
+}
+
+export const fingerprintBlocks = (blocks: Block[]) =>
+  hashText(blocks.map(block => block.text).join('\n'));
+
+// Paragraphs that carry a note or highlight, in reading order
+const collectEntries = ({ blocks, notes, highlights }: DigestSource): DigestEntry[] =>
+  blocks
+    .map((block, index) => {
+      const list = [...(highlights[index] || [])].sort((a, b) => a.start - b.start);
+      const written = notes.filter(note => note.paragraph === index && (note.text.trim() || note.tags.length > 0));
+      return {
+        index,
+        context: block.text,
+        notes: written.filter(note => !list.some(h => h.id === note.highlightId)),
+        highlights: list.map(highlight => ({ highlight, note: written.find(note => note.highlightId === highlight.id) })),
+      };
+    })
+    .filter(entry => entry.notes.length > 0 || entry.highlights.length > 0);
+
+const formatTags = (tags: string[]) => tags.map(tag => `#${tag}`).join(' ');
+
+const formatDate = (date: Date) => date.toLocaleString();
+
+// --- Markdown ---
+
+export const buildMarkdownDigest = (source: DigestSource): string => {
+  const entries = collectEntries(source);
+  const lines: string[] = [
+    `# Reading notes: ${source.title}`,
+    '',
+    `_Exported ${formatDate(new Date())} · ${entries.length} annotated paragraphs_`,
+    '',
+  ];
+
+  if (entries.length === 0) lines.push('No notes or highlights yet.', '');
+
+  entries.forEach(entry => {
+    lines.push(`## Paragraph ${entry.index + 1}`, '');
+    lines.push(...entry.context.split('\n').map(line => `> ${line}`), '');
+    if (entry.highlights.length > 0) {
+      lines.push('**Highlights**', '');
+      entry.highlights.forEach(({ highlight: h, note }) => {
+        const category = source.categories && getHighlightCategory(source.categories, h.categoryId);
+        lines.push(category ? `- “${h.text}” (${category.name})` : `- “${h.text}”`);
+        // Indented so the note's own lists stay inside the item
+        if (note?.text.trim()) lines.push('', ...note.text.trim().split('\n').map(line => `  ${line}`), '');
+        if (note && note.tags.length > 0) lines.push(`  Tags: ${formatTags(note.tags)}`);
+      });
+      lines.push('');
+    }
+    entry.notes.forEach(note => {
+      lines.push('**Note**', '', note.text.trim(), '');
+      if (note.tags.length > 0) lines.push(`Tags: ${formatTags(note.tags)}`, '');
+    });
+  });
+
+  return lines.join('\n');
+};
+
+// --- JSON ---
+
+export const buildJsonExport = (source: DigestSource): string => {
+  const data: AnnotationExport = {
+    format: ANNOTATION_EXPORT_FORMAT,
+    version: ANNOTATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    document: {
+      title: source.title,
+      fingerprint: fingerprintBlocks(source.blocks),
+      blockCount: source.blocks.length,
+    },
+    notes: source.notes.filter(note => note.text.trim() || note.tags.length > 0),
+    highlights: Object.entries(source.highlights).flatMap(([key, list]) =>
+      list.map(h => ({
+        paragraph: Number(key),
+        start: h.start,
+        end: h.end,
+        text: h.text,
+        id: h.id,
+        categoryId: h.categoryId,
+        groupId: h.groupId,
+      }))
+    ),
+    categories: source.categories,
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+// A version 1 note: plain text on a paragraph, with the paragraph's text as context
+const upgradeAnnotation = (item: any) =>
+  typeof item?.context === 'string' ? { ...item, tags: [], ...getTextAnchor(item.context) } : item;
+
+// Validates an export and maps it onto `blocks`, re-anchoring by text where paragraphs moved
+export const parseJsonExport = (json: string, blocks: Block[]): AnnotationImport => {
+  const data = JSON.parse(json);
+  if (!data || data.format !== ANNOTATION_EXPORT_FORMAT) {
+    throw new Error('This file is not an AccessReader annotations export.');
+  }
+  if (typeof data.version !== 'number' || data.version > ANNOTATION_EXPORT_VERSION) {
+    throw new Error('This export was made by a newer version of AccessReader.');
+  }
+
+  const documentMatches = data.document?.fingerprint === fingerprintBlocks(blocks);
+  const highlights: Record<number, Highlight[]> = {};
+  let dropped = 0;
+
+  (Array.isArray(data.highlights) ? data.highlights : []).forEach((item: any) => {
+    if (typeof item?.text !== 'string' || !item.text || typeof item.paragraph !== 'number') {
+      dropped++;
+      return;
+    }
+    const fits = (block: Block | undefined) =>
+      !!block && block.text.slice(item.start, item.end) === item.text;
+
+    let index = item.paragraph;
+    let start = item.start;
+    if (!fits(blocks[index])) {
+      // Same paragraph with shifted offsets, otherwise the nearest paragraph containing the text
+      index = findNearestBlock(blocks, item.paragraph, block => block.text.includes(item.text));
+      if (index < 0) {
+        dropped++;
+        return;
+      }
+      start = blocks[index].text.indexOf(item.text);
+    }
+
+    const highlight: Highlight = {
+      start,
+      end: start + item.text.length,
+      text: item.text,
+      id: typeof item.id === 'string' ? item.id : `${Date.now()}-${index}-${start}`,
+      categoryId: typeof item.categoryId === 'string' ? item.categoryId : undefined,
+      groupId: typeof item.groupId === 'string' ? item.groupId : undefined,
+    };
+    highlights[index] = [...(highlights[index] || []), highlight];
+  });
+
+  const items: any[] = data.version < 2
+    ? (Array.isArray(data.annotations) ? data.annotations : []).map(upgradeAnnotation)
+    : (Array.isArray(data.notes) ? data.notes : []);
+
+  const hashes = blocks.map(block => hashText(block.text));
+  const notes: Note[] = [];
+  items.forEach(item => {
+    if (typeof item?.text !== 'string' || typeof item.paragraph !== 'number' || typeof item.fingerprint !== 'string') {
+      dropped++;
+      return;
+    }
+    const note: Note = {
+      ...createNote(blocks, item.paragraph),
+      id: typeof item.id === 'string' ? item.id : `${Date.now()}-${item.paragraph}`,
+      highlightId: typeof item.highlightId === 'string' ? item.highlightId : undefined,
+      text: item.text,
+      tags: Array.isArray(item.tags) ? item.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+      fingerprint: item.fingerprint,
+      quote: typeof item.quote === 'string' ? item.quote : '',
+      ...(typeof item.createdAt === 'number' ? { createdAt: item.createdAt } : {}),
+      ...(typeof item.updatedAt === 'number' ? { updatedAt: item.updatedAt } : {}),
+    };
+    if (findNoteParagraph(note, blocks, highlights, hashes) < 0) {
+      dropped++;
+      return;
+    }
+    notes.push(note);
+  });
+
+  const categories = (Array.isArray(data.categories) ? data.categories : []).filter((item: any) =>
+    typeof item?.id === 'string' && typeof item.name === 'string' && item.name.trim() && typeof item.color === 'string'
+  ).map((item: any) => ({ id: item.id, name: item.name.trim(), color: getHighlightColor(item.color).id }));
+
+  return { notes: reanchorNotes(notes, blocks, highlights).notes, highlights, categories, documentMatches, dropped };
+};
+
+// --- Printable HTML ---
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Wraps highlighted ranges of a paragraph in <mark>, nesting where highlights overlap
+const markHighlights = (text: string, list: Highlight[], categories?: HighlightCategory[]) => {
+  const cuts = new Set([0, text.length]);
+  list.forEach(h => [h.start, h.end].forEach(cut => {
+    if (cut > 0 && cut < text.length) cuts.add(cut);
+  }));
+  const points = Array.from(cuts).sort((a, b) => a - b);
+
+  const open = (h: Highlight) => {
+    if (!categories) return '<mark>';
+    const category = getHighlightCategory(categories, h.categoryId);
+    return `<mark style="background: ${getHighlightColor(category.color).color}; color: #000" title="${escapeHtml(category.name)}">`;
+  };
+
+  return points.slice(0, -1).map((a, i) => {
+    const b = points[i + 1];
+    return getCoveringHighlights(list, a, b).reduceRight(
+      (html, h) => `${open(h)}${html}</mark>`,
+      escapeHtml(text.slice(a, b))
+    );
+  }).join('');
+};
+
+// Note text as sanitized HTML, or as escaped text if the Markdown libraries didn't load
+const renderNoteHtml = (note: Note) => {
+  const body = window.marked && window.DOMPurify
+    ? window.DOMPurify.sanitize(window.marked.parse(note.text, { gfm: true, breaks: true, async: false }))
+    : `<p>${escapeHtml(note.text).replace(/\n/g, '<br>')}</p>`;
+  const tags = note.tags.length > 0 ? `<p class="tags">${escapeHtml(formatTags(note.tags))}</p>` : '';
+  return body + tags;
+};
+
+export const buildPrintableHtml = (source: DigestSource, colors: ThemeColors, fontFamily: string): string => {
+  const entries = collectEntries(source);
+  // Quoted paragraphs keep their language so right-to-left text lays out correctly
+  const languages = detectDocumentLanguages(source.blocks);
+  const langAttributes = (language: string | null) =>
+    language ? ` lang="${language}" dir="${getTextDirection(language)}"` : '';
+
+  const body = entries.length === 0
+    ? '<p>No notes or highlights yet.</p>'
+    : entries.map(entry => `
+    <section>
+      <h2>Paragraph ${entry.index + 1}</h2>
+      <blockquote${langAttributes(languages.blocks[entry.index])}>${markHighlights(entry.context, entry.highlights.map(e => e.highlight), source.categories)}</blockquote>
+      ${entry.highlights.map(({ highlight, note }) => note
+        ? `<div class="note"><strong>Note on “${escapeHtml(highlight.text)}”</strong>${renderNoteHtml(note)}</div>`
+        : '').join('')}
+      ${entry.notes.map(note => `<div class="note"><strong>Note</strong>${renderNoteHtml(note)}</div>`).join('')}
+    </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Reading notes: ${escapeHtml(source.title)}</title>
+  <style>
+    body { background: ${colors.background}; color: ${colors.text}; font-family: ${fontFamily}; line-height: 1.6; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; }
+    h1 { border-bottom: 2px solid ${colors.accent}; padding-bottom: 0.5rem; }
+    h2 { font-size: 1rem; text-transform: uppercase; letter-spacing: 0.05em; opacity: 0.8; margin-top: 2rem; }
+    blockquote { margin: 0; padding: 0.5rem 1rem; border-inline-start: 4px solid ${colors.accent}; }
+    mark { background: ${colors.highlight}; color: inherit; padding: 0 0.1em; }
+    .note { margin-top: 0.75rem; padding: 0.75rem 1rem; border: 1px solid ${colors.accent}; border-radius: 0.5rem; }
+    .note p { margin: 0.25rem 0 0; }
+    .note .tags { opacity: 0.7; font-size: 0.9rem; }
+    .meta { opacity: 0.7; font-size: 0.9rem; }
+    section { break-inside: avoid; }
+    @media print {
+      body { margin: 0; max-width: none; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    }
+  </style>
+</head>
+<body>
+  <h1>Reading notes: ${escapeHtml(source.title)}</h1>
+  <p class="meta">Exported ${escapeHtml(formatDate(new Date()))} · ${entries.length} annotated paragraphs</p>
+  ${body}
+</body>
+</html>`;
+};
+
+// --- Files ---
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const printHtml = (html: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const printWindow = window.open(url, '_blank');
+  if (!printWindow) {
+    URL.revokeObjectURL(url);
+    throw new Error('The print window was blocked by the browser.');
+  }
+  printWindow.addEventListener('load', () => {
+    printWindow.print();
+    URL.revokeObjectURL(url);
+  });
+};
+
+export const toFileName = (title: string) =>
+  title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').slice(0, 80) || 'document';
@@ -0,0 +1,108 @@
+import { Block, BlockType, Highlight, HighlightCategory } from '../types';
+import { HIGHLIGHT_COLORS } from '../constants';
+
+// Highlight categories and the geometry of highlights: splitting a selection
+// into per-paragraph ranges and finding which highlights cover a piece of text.
+// Categories are shared by all documents and persisted in localStorage.
+
+export const HIGHLIGHT_CATEGORY_STORE_KEY = 'access-reader-highlight-categories';
+
+export const DEFAULT_HIGHLIGHT_CATEGORIES: HighlightCategory[] = [
+  { id: 'highlight', name: 'Highlight', color: 'yellow' },
+  { id: 'definition', name: 'Definition', color: 'blue' },
+  { id: 'question', name: 'Question', color: 'pink' },
+];
+
+// A point in the document's running text
+export interface TextPosition {
+  index: number; // Block
+  offset: number; // Character within the block's text
+}
+
+export interface HighlightRange {
+  index: number;
+  start: number;
+  end: number;
+}
+
+const isValidCategory = (value: any): value is HighlightCategory =>
+  !!value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  value.name.trim().length > 0 &&
+  HIGHLIGHT_COLORS.some(c => c.id === value.color);
+
+export const loadHighlightCategories = (): HighlightCategory[] => {
+  const saved = localStorage.getItem(HIGHLIGHT_CATEGORY_STORE_KEY);
+  if (!saved) return DEFAULT_HIGHLIGHT_CATEGORIES;
+  try {
+    const data = JSON.parse(saved);
+    const categories = Array.isArray(data) ? data.filter(isValidCategory) : [];
+    return categories.length > 0 ? categories : DEFAULT_HIGHLIGHT_CATEGORIES;
+  } catch (error) {
+    console.error('Ignoring unreadable highlight categories:', error);
+    return DEFAULT_HIGHLIGHT_CATEGORIES;
+  }
+};
+
+export const saveHighlightCategories = (categories: HighlightCategory[]) => {
+  try {
+    localStorage.setItem(HIGHLIGHT_CATEGORY_STORE_KEY, JSON.stringify(categories));
+  } catch (error) {
+    console.error('Failed to save highlight categories:', error);
+  }
+};
+
+// Category of a highlight; ones without a category, or whose category was deleted, use the first
+export const getHighlightCategory = (categories: HighlightCategory[], categoryId?: string): HighlightCategory =>
+  categories.find(c => c.id === categoryId) || categories[0];
+
+export const getHighlightColor = (colorId: string) =>
+  HIGHLIGHT_COLORS.find(c => c.id === colorId) || HIGHLIGHT_COLORS[0];
+
+// When a highlight was made. Older highlights have no createdAt, but their ids are timestamps.
+export const getHighlightTime = (h: Highlight): number | undefined => {
+  if (h.createdAt !== undefined) return h.createdAt;
+  const time = Number(h.id.split('-')[0]);
+  return Number.isFinite(time) && time > 0 ? time : undefined;
+};
+
+// Per-paragraph ranges covered by a selection from `start` to `end`. Tables and images
+// have no running text to mark, and whitespace at either end of a range is left out.
+export const getHighlightRanges = (blocks: Block[], start: TextPosition, end: TextPosition): HighlightRange[] => {
+  const ranges: HighlightRange[] = [];
+  for (let index = start.index; index <= end.index; index++) {
+    const block = blocks[index];
+    if (!block || block.type === BlockType.TABLE || block.type === BlockType.IMAGE) continue;
+    const from = index === start.index ? start.offset : 0;
+    const to = index === end.index ? end.offset : block.text.length;
+    const text = block.text.slice(from, to);
+    const trimmed = text.trim();
+    if (!trimmed) continue;
+    const leading = text.length - text.trimStart().length;
+    ranges.push({ index, start: from + leading, end: from + leading + trimmed.length });
+  }
+  return ranges;
+};
+
+// The same for every part of a highlight that runs across paragraphs
+export const getHighlightKey = (h: Highlight) => h.groupId || h.id;
+
+// Highlights in a document, counting one that runs across paragraphs once
+export const countHighlights = (highlights: Record<number, Highlight[]>) =>
+  new Set(Object.values(highlights).flat().map(getHighlightKey)).size;
+
+// Ids of the given highlights and of the other parts of their groups
+export const getHighlightGroupIds = (highlights: Record<number, Highlight[]>, ids: string[]) => {
+  const all = Object.values(highlights).flat();
+  const groups = new Set(all.filter(h => ids.includes(h.id) && h.groupId).map(h => h.groupId));
+  return all.filter(h => ids.includes(h.id) || (!!h.groupId && groups.has(h.groupId))).map(h => h.id);
+};
+
+// Highlights covering all of [from, to), in the order they were made
+export const getCoveringHighlights = (list: Highlight[], from: number, to: number) =>
+  list.filter(h => h.start <= from && h.end >= to);
+
+// Offsets where a highlight starts or ends within [from, to)
+export const getHighlightBoundaries = (list: Highlight[], from: number, to: number) =>
+  list.flatMap(h => [h.start, h.end]).filter(offset => offset > from && offset < to);
@@ -0,0 +1,186 @@
+import { Highlight, Note, ReaderSettings } from '../types';
+
+// Undo/redo for notes, highlights and settings. Each entry keeps only what it
+// changed: the notes and highlights as they were and became, and the values of
+// the settings that changed. Undoing a settings change therefore leaves the
+// other settings alone, e.g. after switching profiles. Changes with the same
+// key in quick succession (keystrokes in a note, a dragged slider) are merged
+// into one entry.
+
+const MAX_HISTORY = 100;
+const COALESCE_MS = 1500; // Pause after which typing in the same note starts a new step
+
+export interface HistoryState {
+  notes: Note[];
+  highlights: Record<number, Highlight[]>;
+  settings: ReaderSettings;
+}
+
+export interface HistorySnapshot {
+  notes?: Note[];
+  highlights?: Record<number, Highlight[]>;
+  settings?: Partial<ReaderSettings>; // Only the settings that changed
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string; // Of the latest change merged in, e.g. "Font size 24"
+  key?: string; // Entries with the same key are merged while they keep coming; none: never merged
+  time: number; // Last change merged into the entry
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+export interface HistoryStack {
+  past: HistoryEntry[]; // Oldest first; the last one is undone next
+  future: HistoryEntry[]; // Undone entries, the first one is redone next
+}
+
+export const EMPTY_HISTORY: HistoryStack = { past: [], future: [] };
+
+// Names for settings changes in the history list; others are "Settings"
+const SETTING_LABELS: Partial<Record<keyof ReaderSettings, string>> = {
+  fontSize: 'Font size',
+  lineHeight: 'Line height',
+  letterSpacing: 'Letter spacing',
+  wordSpacing: 'Word spacing',
+  paragraphSpacing: 'Paragraph spacing',
+  maxLineLength: 'Line length',
+  textAlign: 'Alignment',
+  theme: 'Theme',
+  customThemes: 'Custom themes',
+  customThemeId: 'Theme',
+  fontFamily: 'Font',
+  isFocusMode: 'Focus mode',
+  isLoupeActive: 'Magnifier',
+  loupeMode: 'Magnifier mode',
+  loupeZoom: 'Magnifier zoom',
+  loupeSize: 'Magnifier size',
+  isLoupeDocked: 'Docked magnifier',
+  isHoverZoom: 'Hover zoom',
+  isBionicReading: 'Bionic reading',
+  isReadingRuler: 'Reading ruler',
+  rulerHeight: 'Ruler height',
+  rulerTint: 'Ruler tint',
+  rulerOpacity: 'Ruler opacity',
+  autoScrollSpeed: 'Auto-scroll speed',
+  isAutoScrollGuide: 'Auto-scroll guide',
+  speechVoiceURI: 'Voice',
+  isAutoVoice: 'Voice per language',
+  speechRate: 'Speech rate',
+  speechPitch: 'Speech pitch',
+  speechVolume: 'Speech volume',
+  isSpokenWordHighlight: 'Spoken word highlight',
+  isSpokenSentenceHighlight: 'Spoken sentence highlight',
+  ocrLanguage: 'OCR language',
+  keyBindings: 'Keyboard shortcuts',
+  voiceLocale: 'Voice command language',
+  isVoiceFeedback: 'Spoken confirmations',
+  voiceShortcuts: 'Voice shortcuts',
+};
+
+const pickSettings = (settings: ReaderSettings, keys: (keyof ReaderSettings)[]): Partial<ReaderSettings> =>
+  Object.fromEntries(keys.map(key => [key, settings[key]]));
+
+export const getChangedSettings = (current: ReaderSettings, next: ReaderSettings) =>
+  (Object.keys(next) as (keyof ReaderSettings)[]).filter(key => next[key] !== current[key]);
+
+// e.g. "Focus mode on", "Font size 24" or "Theme, Font"
+export const describeSettingsChange = (current: ReaderSettings, next: ReaderSettings) => {
+  const keys = getChangedSettings(current, next);
+  const names = Array.from(new Set(keys.map(key => SETTING_LABELS[key] || 'Settings')));
+  if (keys.length !== 1) return names.join(', ');
+  const value = next[keys[0]];
+  if (typeof value === 'boolean') return `${names[0]} ${value ? 'on' : 'off'}`;
+  if (typeof value === 'number') return `${names[0]} ${Math.round(value * 100) / 100}`;
+  return names[0];
+};
+
+// Both snapshots in one, `overriding` winning where they overlap
+const combineSnapshots = (snapshot: HistorySnapshot, overriding: HistorySnapshot): HistorySnapshot => {
+  const combined = { ...snapshot, ...overriding };
+  if (snapshot.settings && overriding.settings) combined.settings = { ...snapshot.settings, ...overriding.settings };
+  return combined;
+};
+
+// Adds a change from `current` to `next` (only the parts given) to the history.
+// Redoing is no longer possible after a new change.
+export const recordChange = (
+  stack: HistoryStack,
+  current: HistoryState,
+  next: Partial<HistoryState>,
+  label: string,
+  key: string | undefined,
+  now: number
+): HistoryStack => {
+  const before: HistorySnapshot = {};
+  const after: HistorySnapshot = {};
+  if (next.notes && next.notes !== current.notes) {
+    before.notes = current.notes;
+    after.notes = next.notes;
+  }
+  if (next.highlights && next.highlights !== current.highlights) {
+    before.highlights = current.highlights;
+    after.highlights = next.highlights;
+  }
+  if (next.settings) {
+    const keys = getChangedSettings(current.settings, next.settings);
+    if (keys.length > 0) {
+      before.settings = pickSettings(current.settings, keys);
+      after.settings = pickSettings(next.settings, keys);
+    }
+  }
+  if (Object.keys(after).length === 0) return stack;
+
+  const last = stack.past[stack.past.length - 1];
+  if (key && last?.key === key && stack.future.length === 0 && now - last.time < COALESCE_MS) {
+    // The merged entry undoes to the oldest values and redoes to the newest
+    const merged: HistoryEntry = {
+      ...last,
+      label,
+      time: now,
+      before: combineSnapshots(before, last.before),
+      after: combineSnapshots(last.after, after),
+    };
+    return { past: [...stack.past.slice(0, -1), merged], future: [] };
+  }
+
+  const entry: HistoryEntry = { id: Math.max(now, (last?.id ?? 0) + 1), label, key, time: now, before, after };
+  return { past: [...stack.past, entry].slice(-MAX_HISTORY), future: [] };
+};
+
+const applySnapshot = (state: HistoryState, snapshot: HistorySnapshot): HistoryState => ({
+  notes: snapshot.notes ?? state.notes,
+  highlights: snapshot.highlights ?? state.highlights,
+  settings: snapshot.settings ? { ...state.settings, ...snapshot.settings } : state.settings,
+});
+
+// Undoes (negative `steps`) or redoes entries, as far as the history goes.
+// Returns the new stack and state, and the entries passed over.
+export const moveInHistory = (stack: HistoryStack, state: HistoryState, steps: number) => {
+  let { past, future } = stack;
+  let result = state;
+  const entries: HistoryEntry[] = [];
+  for (let i = 0; i < Math.abs(steps); i++) {
+    if (steps < 0 && past.length > 0) {
+      const entry = past[past.length - 1];
+      result = applySnapshot(result, entry.before);
+      past = past.slice(0, -1);
+      future = [entry, ...future];
+      entries.push(entry);
+    } else if (steps > 0 && future.length > 0) {
+      const entry = future[0];
+      result = applySnapshot(result, entry.after);
+      past = [...past, entry];
+      future = future.slice(1);
+      entries.push(entry);
+    }
+  }
+  return { stack: { past, future }, state: result, entries };
+};
+
+// Only the settings changes, e.g. when another document is opened
+export const keepSettingsHistory = (stack: HistoryStack): HistoryStack => {
+  const isSettingsOnly = (entry: HistoryEntry) => !entry.before.notes && !entry.before.highlights;
+  return { past: stack.past.filter(isSettingsOnly), future: stack.future.filter(isSettingsOnly) };
+};
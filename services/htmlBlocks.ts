@@ -0,0 +1,254 @@
+import { Block, BlockType, InlineSpan } from '../types';
+
+// Converts an HTML fragment into the Reader's block model.
+// Only text, structure, link targets and image sources are read; markup is never injected.
+
+type InlineFormat = Omit<InlineSpan, 'text'>;
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BODY', 'DETAILS', 'DIV', 'DL', 'DD', 'DT',
+  'FIELDSET', 'FIGURE', 'FIGCAPTION', 'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+  'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'UL',
+]);
+
+const SKIPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'IFRAME', 'OBJECT', 'EMBED', 'HEAD', 'SVG', 'CANVAS',
+  'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA',
+]);
+
+const isSafeUrl = (url: string, allowData: boolean) => {
+  const trimmed = url.trim().toLowerCase();
+  if (trimmed.startsWith('data:')) return allowData && trimmed.startsWith('data:image/');
+  return /^(https?:|mailto:|blob:|#)/.test(trimmed);
+};
+
+// XHTML documents (e.g. EPUB chapters) report lower-case tag names
+const tagOf = (el: Element) => el.tagName.toUpperCase();
+
+const hasBlockChildren = (el: Element) =>
+  Array.from(el.children).some(child => BLOCK_TAGS.has(tagOf(child)) || tagOf(child) === 'IMG');
+
+// --- Inline content ---
+
+const collectSpans = (node: Node, format: InlineFormat, out: InlineSpan[]) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').replace(/\s+/g, ' ');
+    if (text) out.push({ ...format, text });
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+  const el = node as Element;
+  const tag = tagOf(el);
+  if (SKIPPED_TAGS.has(tag) || tag === 'IMG') return;
+  if (tag === 'BR') {
+    out.push({ ...format, text: '\n' });
+    return;
+  }
+
+  const next: InlineFormat = { ...format };
+  if (tag === 'STRONG' || tag === 'B') next.bold = true;
+  if (tag === 'EM' || tag === 'I') next.italic = true;
+  if (tag === 'CODE' || tag === 'KBD' || tag === 'SAMP') next.code = true;
+  if (tag === 'A') {
+    const href = el.getAttribute('href');
+    if (href && isSafeUrl(href, false)) next.href = href;
+  }
+
+  el.childNodes.forEach(child => collectSpans(child, next, out));
+};
+
+const sameFormat = (a: InlineSpan, b: InlineSpan) =>
+  !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.code === !!b.code && a.href === b.href;
+
+// Collapses whitespace across span boundaries, trims the ends and merges equal runs
+export const normalizeSpans = (raw: InlineSpan[]): InlineSpan[] => {
+  const spans: InlineSpan[] = [];
+  let endsWithSpace = true; // Treat the start as whitespace so leading spaces are dropped
+
+  raw.forEach(span => {
+    let text = span.text;
+    const last = spans[spans.length - 1];
+    // A line break (<br>) takes the place of the space before it
+    if (text === '\n' && last) last.text = last.text.replace(/ +$/, '');
+    else if (endsWithSpace) text = text.replace(/^\s+/, '');
+    if (!text) return;
+    endsWithSpace = /\s$/.test(text);
+
+    if (last && sameFormat(last, span)) {
+      last.text += text;
+    } else {
+      spans.push({ ...span, text });
+    }
+  });
+
+  // Trim trailing whitespace
+  while (spans.length > 0) {
+    const last = spans[spans.length - 1];
+    last.text = last.text.replace(/\s+$/, '');
+    if (last.text) break;
+    spans.pop();
+  }
+
+  return spans;
+};
+
+const hasFormatting = (spans: InlineSpan[]) =>
+  spans.some(s => s.bold || s.italic || s.code || s.href);
+
+const makeTextBlock = (type: BlockType, nodes: Node[], extra: Partial<Block> = {}): Block | null => {
+  const raw: InlineSpan[] = [];
+  nodes.forEach(node => collectSpans(node, {}, raw));
+  const spans = normalizeSpans(raw);
+  const text = spans.map(s => s.text).join('');
+  if (!text) return null;
+
+  const block: Block = { type, text, ...extra };
+  if (hasFormatting(spans)) block.spans = spans;
+  return block;
+};
+
+// --- Block content ---
+
+const imageBlock = (img: Element): Block | null => {
+  const src = img.getAttribute('src') || '';
+  const alt = (img.getAttribute('alt') || img.getAttribute('title') || '').trim();
+  if (!src && !alt) return null;
+  return {
+    type: BlockType.IMAGE,
+    text: alt,
+    src: src && isSafeUrl(src, true) ? src : undefined,
+    alt,
+  };
+};
+
+const tableBlock = (table: Element): Block | null => {
+  // Rows of nested (layout) tables are part of their cell's text, not rows of this table
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter(tr => tr.closest('table') === table)
+    .map(tr => Array.from(tr.children)
+      .filter(cell => tagOf(cell) === 'TD' || tagOf(cell) === 'TH')
+      .map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim()))
+    .filter(row => row.some(cell => cell.length > 0));
+  if (rows.length === 0) return null;
+
+  // Spoken as "cell, cell. cell, cell."
+  const text = rows.map(row => row.filter(Boolean).join(', ')).join('. ');
+  return { type: BlockType.TABLE, text, rows };
+};
+
+const collectListItems = (list: Element, depth: number, out: Block[]) => {
+  const ordered = tagOf(list) === 'OL';
+  const startAttr = parseInt(list.getAttribute('start') || '1', 10);
+  let number = isNaN(startAttr) ? 1 : startAttr;
+
+  Array.from(list.children).forEach(li => {
+    if (tagOf(li) !== 'LI') return;
+
+    const inline: Node[] = [];
+    const nested: Element[] = [];
+    li.childNodes.forEach(child => {
+      if (child.nodeType === Node.ELEMENT_NODE && ['UL', 'OL'].includes(tagOf(child as Element))) {
+        nested.push(child as Element);
+      } else {
+        inline.push(child);
+      }
+    });
+
+    const block = makeTextBlock(BlockType.LIST_ITEM, inline, {
+      level: depth,
+      ordered,
+      number: ordered ? number : undefined,
+    });
+    if (block) out.push(block);
+    number++;
+
+    // Images inside list items still deserve their own block
+    li.querySelectorAll(':scope > img, :scope > p > img').forEach(img => {
+      const image = imageBlock(img);
+      if (image) out.push(image);
+    });
+
+    nested.forEach(child => collectListItems(child, depth + 1, out));
+  });
+};
+
+const collectBlocks = (container: Element, out: Block[], quoted = false) => {
+  let pendingInline: Node[] = [];
+
+  const flushInline = () => {
+    if (pendingInline.length === 0) return;
+    const block = makeTextBlock(quoted ? BlockType.QUOTE : BlockType.PARAGRAPH, pendingInline);
+    if (block) out.push(block);
+    pendingInline = [];
+  };
+
+  container.childNodes.forEach(node => {
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      pendingInline.push(node);
+      return;
+    }
+
+    const el = node as Element;
+    const tag = tagOf(el);
+
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    if (tag === 'IMG') {
+      flushInline();
+      const image = imageBlock(el);
+      if (image) out.push(image);
+      return;
+    }
+
+    if (!BLOCK_TAGS.has(tag)) {
+      // Inline element; may still wrap images
+      pendingInline.push(el);
+      if (el.querySelector('img')) {
+        flushInline();
+        el.querySelectorAll('img').forEach(img => {
+          const image = imageBlock(img);
+          if (image) out.push(image);
+        });
+      }
+      return;
+    }
+
+    flushInline();
+
+    if (/^H[1-6]$/.test(tag)) {
+      const block = makeTextBlock(BlockType.HEADING, [el], { level: Number(tag[1]) });
+      if (block) out.push(block);
+    } else if (tag === 'UL' || tag === 'OL') {
+      collectListItems(el, 0, out);
+    } else if (tag === 'BLOCKQUOTE') {
+      collectBlocks(el, out, true);
+    } else if (tag === 'TABLE') {
+      const block = tableBlock(el);
+      if (block) out.push(block);
+    } else if (tag === 'PRE') {
+      const text = (el.textContent || '').replace(/^\n/, '').replace(/\s+$/, '');
+      if (text.trim()) out.push({ type: BlockType.CODE, text, spans: [{ text, code: true }] });
+    } else if (tag === 'HR') {
+      // Thematic breaks carry no text
+    } else if (hasBlockChildren(el)) {
+      collectBlocks(el, out, quoted);
+    } else {
+      const block = makeTextBlock(quoted ? BlockType.QUOTE : BlockType.PARAGRAPH, [el]);
+      if (block) out.push(block);
+    }
+  });
+
+  flushInline();
+};
+
+export const elementToBlocks = (root: Element): Block[] => {
+  const blocks: Block[] = [];
+  collectBlocks(root, blocks);
+  return blocks;
+};
+
+export const htmlToBlocks = (html: string): Block[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return elementToBlocks(doc.body);
+};
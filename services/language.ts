@@ -0,0 +1,117 @@
+import { Block } from '../types';
+
+// Language detection for documents and paragraphs. Non-Latin scripts identify
+// the language (or a close family) by themselves; Latin-script text is told
+// apart by counting very common words. Results are ISO 639-1 codes.
+
+export interface DocumentLanguages {
+  document: string | null; // Main language, null if it couldn't be told
+  blocks: (string | null)[]; // Per block; falls back to the document language
+}
+
+// Scripts that identify a language by themselves
+const SCRIPT_LANGUAGES: { code: string; pattern: RegExp }[] = [
+  { code: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { code: 'zh', pattern: /\p{Script=Han}/gu },
+  { code: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { code: 'ar', pattern: /\p{Script=Arabic}/gu },
+  { code: 'he', pattern: /\p{Script=Hebrew}/gu },
+  { code: 'ru', pattern: /\p{Script=Cyrillic}/gu },
+  { code: 'el', pattern: /\p{Script=Greek}/gu },
+  { code: 'hi', pattern: /\p{Script=Devanagari}/gu },
+  { code: 'th', pattern: /\p{Script=Thai}/gu },
+];
+
+// The most frequent short words of each Latin-script language
+const COMMON_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'was', 'for', 'with', 'you', 'this', 'are', 'on'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'las', 'del', 'por', 'una', 'es', 'con', 'para', 'se'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'une', 'que', 'en', 'du', 'dans', 'pour', 'pas', 'qui'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'sich', 'auf', 'ich', 'dem'],
+  it: ['il', 'di', 'che', 'e', 'la', 'per', 'un', 'non', 'sono', 'della', 'una', 'del', 'gli', 'con', 'le'],
+  pt: ['o', 'a', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'com', 'não', 'uma', 'os', 'no'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'niet', 'op', 'te', 'zijn', 'voor', 'met', 'die', 'ik'],
+};
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur', 'yi', 'ps'];
+
+const MIN_COMMON_WORDS = 3; // Fewer hits than this is too little to go on
+const SAMPLE_LENGTH = 4000;
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+// The language with the most common-word hits, if it clearly leads the rest
+const detectLatinLanguage = (text: string): string | null => {
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  const scores = Object.entries(COMMON_WORDS)
+    .map(([code, common]) => ({ code, count: words.filter(word => common.includes(word)).length }))
+    .sort((a, b) => b.count - a.count);
+  const [best, runnerUp] = scores;
+  if (best.count < MIN_COMMON_WORDS || best.count < runnerUp.count * 1.5) return null;
+  return best.code;
+};
+
+// Language of a piece of text, or null if there isn't enough to tell
+export const detectLanguage = (text: string): string | null => {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const letters = countMatches(sample, /\p{L}/gu);
+  if (letters === 0) return null;
+
+  // Japanese mixes kana with Han, so a modest share of kana is enough
+  const scripts = SCRIPT_LANGUAGES
+    .map(({ code, pattern }) => ({ code, count: countMatches(sample, pattern) * (code === 'ja' ? 4 : 1) }))
+    .sort((a, b) => b.count - a.count);
+  if (scripts[0].count >= letters / 2) return scripts[0].code;
+  return detectLatinLanguage(sample);
+};
+
+// Main language of the document plus the language of each block. Blocks too short
+// to tell (headings, captions) take the document language.
+export const detectDocumentLanguages = (blocks: Block[]): DocumentLanguages => {
+  let sample = '';
+  for (const block of blocks) {
+    if (sample.length >= SAMPLE_LENGTH) break;
+    sample += `${block.text}\n`;
+  }
+  const document = detectLanguage(sample);
+  return {
+    document,
+    blocks: blocks.map(block => (block.text ? detectLanguage(block.text) : null) ?? document),
+  };
+};
+
+export const isRtlLanguage = (language: string | null | undefined) =>
+  !!language && RTL_LANGUAGES.includes(language.split('-')[0].toLowerCase());
+
+// Text direction for an element in `language`; unknown languages let the browser decide
+export const getTextDirection = (language: string | null | undefined): 'rtl' | 'ltr' | 'auto' =>
+  language ? (isRtlLanguage(language) ? 'rtl' : 'ltr') : 'auto';
+
+// English name of a language, e.g. "Spanish" for "es"
+export const getLanguageName = (language: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) || language;
+  } catch {
+    return language;
+  }
+};
+
+// Whether a voice speaks `language`, ignoring the region ("en-GB" speaks "en")
+export const isVoiceForLanguage = (voice: SpeechSynthesisVoice, language: string) =>
+  voice.lang.replace('_', '-').split('-')[0].toLowerCase() === language.split('-')[0].toLowerCase();
+
+// Best voice for `language`: the preferred one if it speaks it, else the system default,
+// a local voice or any voice for the language
+export const findVoiceForLanguage = (
+  voices: SpeechSynthesisVoice[],
+  language: string,
+  preferred?: SpeechSynthesisVoice
+): SpeechSynthesisVoice | undefined => {
+  if (preferred && isVoiceForLanguage(preferred, language)) return preferred;
+  const candidates = voices.filter(voice => isVoiceForLanguage(voice, language));
+  return candidates.find(v => v.default) || candidates.find(v => v.localService) || candidates[0];
+};
+
+// Language of the text at a DOM node, from the nearest lang attribute
+export const getNodeLanguage = (node: Node): string | undefined =>
+  node.parentElement?.closest('[lang]')?.getAttribute('lang') || undefined;
@@ -0,0 +1,107 @@
+import { LibraryDocument } from '../types';
+import { textToBlocks } from './loaders';
+import { notesFromAnnotations } from './notes';
+
+// IndexedDB-backed store for opened documents and their study data.
+const DB_NAME = 'access-reader';
+const DB_VERSION = 1;
+const STORE_NAME = 'documents';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Wraps a single-store request in a promise
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Documents saved by earlier versions stored plain text, had no chapters and kept notes as plain text by paragraph
+const normalizeDocument = (raw: any): LibraryDocument => {
+  const { content, annotations, noteTimes, ...rest } = raw;
+  const blocks = Array.isArray(raw.blocks) ? raw.blocks : textToBlocks(typeof content === 'string' ? content : '');
+  return {
+    ...rest,
+    blocks,
+    chapters: Array.isArray(raw.chapters) ? raw.chapters : [],
+    lastScrollPosition: raw.lastScrollPosition || null,
+    readingStats: raw.readingStats || { wordsRead: 0, activeMs: 0 },
+    notes: Array.isArray(raw.notes) ? raw.notes : notesFromAnnotations(annotations || {}, noteTimes || {}, blocks),
+  };
+};
+
+export const listDocuments = async (): Promise<LibraryDocument[]> => {
+  const docs = await withStore<any[]>('readonly', store => store.getAll());
+  // Most recently used first
+  return docs.map(normalizeDocument).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getDocument = async (id: string): Promise<LibraryDocument | undefined> => {
+  const raw = await withStore<any>('readonly', store => store.get(id));
+  return raw ? normalizeDocument(raw) : undefined;
+};
+
+export const saveDocument = async (doc: LibraryDocument): Promise<void> => {
+  await withStore('readwrite', store => store.put(doc));
+};
+
+export const updateDocument = async (
+  id: string,
+  changes: Partial<Omit<LibraryDocument, 'id'>>
+): Promise<void> => {
+  // Read and write in one transaction, so a rename or delete in between can't be undone
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (!request.result) return;
+      store.put({ ...normalizeDocument(request.result), ...changes, updatedAt: Date.now() });
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const deleteDocument = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,310 @@
+import { Block, BlockType, ExtractedDocument } from '../types';
+import { htmlToBlocks } from './htmlBlocks';
+import { ProgressHandler, createOcrSession, hasPdfPageImage, renderPdfPageToCanvas } from './ocr';
+
+// Turn each supported source format into the Reader's block model.
+
+const LIST_MARKER = /^\s*(?:([•●▪◦‣∙·\-–*])|(\d{1,3})[.)])\s+/;
+
+const getIndent = (line: string) => line.match(/^\s*/)?.[0].length || 0;
+
+// List markers of each line. A number only counts in a run: a line numbered n needs n - 1 or
+// n + 1 on the nearest numbered line at its indent, before or after it, so a sentence that
+// happens to start with "42. " stays text. Up to `maxGap` unmarked lines may come between
+// (an item wrapped over several lines); items of other lists in between are passed over.
+const matchListMarkers = (lines: string[], maxGap: number): (RegExpMatchArray | null)[] => {
+  const markers = lines.map(line => line.match(LIST_MARKER));
+  const numberAt = (i: number) => (markers[i]?.[2] ? Number(markers[i]?.[2]) : undefined);
+
+  const findNeighbour = (i: number, step: number) => {
+    let gap = 0;
+    for (let j = i + step; j >= 0 && j < lines.length; j += step) {
+      if (!markers[j]) {
+        if (++gap > maxGap) return undefined;
+      } else if (numberAt(j) !== undefined && getIndent(lines[j]) === getIndent(lines[i])) {
+        return numberAt(j);
+      }
+    }
+    return undefined;
+  };
+
+  return markers.map((marker, i) => {
+    const number = numberAt(i);
+    if (number === undefined) return marker;
+    return findNeighbour(i, -1) === number - 1 || findNeighbour(i, 1) === number + 1 ? marker : null;
+  });
+};
+
+// --- Plain text ---
+
+export const textToBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = text.split('\n').filter(line => line.trim().length > 0);
+  // Each line is its own paragraph, so numbered items must be on consecutive lines
+  const markers = matchListMarkers(lines, 0);
+
+  lines.forEach((line, i) => {
+    const marker = markers[i];
+    if (marker) {
+      blocks.push({
+        type: BlockType.LIST_ITEM,
+        text: line.slice(marker[0].length).trim(),
+        level: Math.min(Math.floor(getIndent(line) / 2), 4),
+        ordered: !!marker[2],
+        number: marker[2] ? Number(marker[2]) : undefined,
+      });
+    } else {
+      blocks.push({ type: BlockType.PARAGRAPH, text: line.trim() });
+    }
+  });
+
+  return blocks;
+};
+
+// --- PDF ---
+
+interface PdfLine {
+  text: string;
+  size: number; // Approximate font size in PDF units
+  y: number; // Baseline, increasing upwards
+  pageIndex: number;
+}
+
+// Groups positioned text items into visual lines
+const collectPdfLines = (items: any[], pageIndex: number): PdfLine[] => {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+  let lastRight = 0;
+
+  const pushCurrent = () => {
+    if (current && current.text.trim()) {
+      lines.push({ ...current, text: current.text.replace(/\s+/g, ' ').trim() });
+    }
+    current = null;
+  };
+
+  items.forEach(item => {
+    if (typeof item.str !== 'string') return; // Marked content markers
+    const [, , c, d, x, y] = item.transform;
+    const size = Math.hypot(c, d) || item.height || 0;
+
+    if (current && Math.abs(current.y - y) > Math.max(current.size, size) * 0.5) {
+      pushCurrent();
+    }
+
+    if (!current) {
+      current = { text: item.str, size, y, pageIndex };
+    } else {
+      // Insert a space only where the items are visually apart
+      const gap = x - lastRight;
+      const needsSpace = gap > size * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+      current.text += (needsSpace ? ' ' : '') + item.str;
+      current.size = Math.max(current.size, size);
+    }
+    lastRight = x + (item.width || 0);
+
+    if (item.hasEOL) pushCurrent();
+  });
+  pushCurrent();
+
+  return lines;
+};
+
+// Most common font size, weighted by characters
+const findBodySize = (lines: PdfLine[]) => {
+  const weights = new Map<number, number>();
+  lines.forEach(line => {
+    const key = Math.round(line.size * 2) / 2;
+    weights.set(key, (weights.get(key) || 0) + line.text.length);
+  });
+  let best = 0;
+  let bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  });
+  return best;
+};
+
+const endsSentence = (text: string) => /[.!?:;"”')\]]$/.test(text);
+
+const joinLine = (text: string, next: string) => {
+  // Re-join words hyphenated across a line break
+  if (/[a-z]-$/i.test(text) && /^[a-z]/.test(next)) return text.slice(0, -1) + next;
+  return `${text} ${next}`;
+};
+
+const pdfLinesToBlocks = (lines: PdfLine[], bodySize = findBodySize(lines)): Block[] => {
+  const headingSizes = Array.from(new Set(
+    lines
+      .filter(line => line.size >= bodySize * 1.2 && line.text.length < 150)
+      .map(line => Math.round(line.size * 2) / 2)
+  )).sort((a, b) => b - a);
+
+  // Items may wrap over a few lines before the next number
+  const markers = matchListMarkers(lines.map(line => line.text), 4);
+  const blocks: Block[] = [];
+  let previous: PdfLine | null = null;
+
+  lines.forEach((line, i) => {
+    const last = blocks[blocks.length - 1];
+    const roundedSize = Math.round(line.size * 2) / 2;
+    const headingRank = headingSizes.indexOf(roundedSize);
+    const marker = markers[i];
+
+    const samePage = previous !== null && previous.pageIndex === line.pageIndex;
+    const lineGap = samePage && previous ? previous.y - line.y : 0;
+    const closeToPrevious = samePage && previous !== null
+      && lineGap > 0 && lineGap < Math.max(previous.size, line.size) * 1.8;
+    const sameSize = previous !== null && Math.abs(previous.size - line.size) < 0.5;
+
+    if (headingRank >= 0) {
+      if (last && last.type === BlockType.HEADING && closeToPrevious && sameSize) {
+        last.text = `${last.text} ${line.text}`;
+      } else {
+        blocks.push({ type: BlockType.HEADING, text: line.text, level: Math.min(headingRank + 1, 6) });
+      }
+    } else if (marker) {
+      blocks.push({
+        type: BlockType.LIST_ITEM,
+        text: line.text.slice(marker[0].length).trim(),
+        level: 0,
+        ordered: !!marker[2],
+        number: marker[2] ? Number(marker[2]) : undefined,
+      });
+    } else {
+      // Continue the previous paragraph or list item when the line follows on visually,
+      // or when a paragraph runs over a page break mid-sentence
+      const continuesOnNextPage = !samePage && last?.type === BlockType.PARAGRAPH && !endsSentence(last.text);
+      const canContinue = last && (last.type === BlockType.PARAGRAPH || last.type === BlockType.LIST_ITEM);
+
+      if (canContinue && ((closeToPrevious && sameSize) || continuesOnNextPage)) {
+        last.text = joinLine(last.text, line.text);
+      } else {
+        blocks.push({ type: BlockType.PARAGRAPH, text: line.text });
+      }
+    }
+
+    previous = line;
+  });
+
+  return blocks;
+};
+
+export interface PdfExtractOptions {
+  ocrLanguage?: string; // Pages without a text layer are OCR'd when set
+  onProgress?: ProgressHandler;
+}
+
+const formatPageList = (pageIndexes: number[]) => pageIndexes.map(i => i + 1).join(', ');
+
+export const extractPdfDocument = async (
+  pdf: any,
+  { ocrLanguage, onProgress }: PdfExtractOptions = {}
+): Promise<ExtractedDocument> => {
+  const pageLines: PdfLine[][] = [];
+  // Scanned pages: no text layer at all, only an image. Any text the page has is kept, and
+  // blank pages (no text, no image) are left alone.
+  const textlessPages: number[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    onProgress?.(`Reading page ${i} of ${pdf.numPages}`, (i - 1) / pdf.numPages);
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const lines = collectPdfLines(textContent.items, i - 1);
+    pageLines.push(lines);
+    if (lines.length === 0 && await hasPdfPageImage(page)) textlessPages.push(i - 1);
+  }
+
+  const warnings: string[] = [];
+  const ocrBlocks = new Map<number, Block[]>();
+
+  if (textlessPages.length > 0 && ocrLanguage && window.Tesseract) {
+    const session = await createOcrSession(ocrLanguage, onProgress || (() => {}));
+    // A page OCR fails on is left out rather than failing the whole document
+    const failed: number[] = [];
+    try {
+      for (let n = 0; n < textlessPages.length; n++) {
+        const pageIndex = textlessPages[n];
+        try {
+          const canvas = await renderPdfPageToCanvas(await pdf.getPage(pageIndex + 1));
+          const blocks = await session.recognize(canvas, progress => {
+            onProgress?.(
+              `Recognizing text: page ${pageIndex + 1} (${n + 1} of ${textlessPages.length} scanned)`,
+              (n + progress) / textlessPages.length
+            );
+          });
+          ocrBlocks.set(pageIndex, blocks);
+        } catch (err) {
+          console.error(`Error recognizing PDF page ${pageIndex + 1}:`, err);
+          failed.push(pageIndex);
+        }
+      }
+    } finally {
+      await session.terminate();
+    }
+
+    if (failed.length > 0) {
+      warnings.push(`Text recognition failed on page(s) ${formatPageList(failed)}, so their text is missing.`);
+    }
+    const unreadable = textlessPages.filter(i => !failed.includes(i) && (ocrBlocks.get(i) || []).length === 0);
+    if (unreadable.length > 0) {
+      warnings.push(`No text could be recognized on page(s) ${formatPageList(unreadable)}.`);
+    }
+  } else if (textlessPages.length > 0) {
+    warnings.push(
+      `Page(s) ${formatPageList(textlessPages)} have no text layer (probably scanned) and OCR is unavailable, so their text is missing.`
+    );
+  }
+
+  // Assemble in page order; text pages share one font-size baseline
+  const bodySize = findBodySize(pageLines.flat());
+  const blocks: Block[] = [];
+  let pending: PdfLine[] = [];
+  const flushPending = () => {
+    blocks.push(...pdfLinesToBlocks(pending, bodySize));
+    pending = [];
+  };
+
+  pageLines.forEach((lines, i) => {
+    const recognized = ocrBlocks.get(i);
+    if (recognized && recognized.length > 0) {
+      flushPending();
+      blocks.push(...recognized);
+    } else {
+      pending.push(...lines);
+    }
+  });
+  flushPending();
+
+  return { blocks, warnings: warnings.length > 0 ? warnings : undefined };
+};
+
+// --- DOCX ---
+
+export const extractDocxBlocks = async (arrayBuffer: ArrayBuffer): Promise<Block[]> => {
+  const result = await window.mammoth.convertToHtml({ arrayBuffer });
+  return htmlToBlocks(result.value);
+};
+
+// --- Markdown & HTML ---
+
+// Strips scripts, event handlers and other active content before conversion
+const sanitizeHtml = (html: string): string =>
+  window.DOMPurify.sanitize(html, { USE_PROFILES: { html: true } });
+
+// `breaks` turns single newlines into line breaks, as people expect in notes
+export const extractMarkdownBlocks = (markdown: string, { breaks = false }: { breaks?: boolean } = {}): Block[] => {
+  // CommonMark with GitHub extensions (tables, strikethrough, autolinks)
+  const html = window.marked.parse(markdown, { gfm: true, breaks, async: false });
+  return htmlToBlocks(sanitizeHtml(html));
+};
+
+export const extractHtmlDocument = (html: string): ExtractedDocument => {
+  const title = new DOMParser().parseFromString(html, 'text/html').title.trim();
+  return {
+    blocks: htmlToBlocks(sanitizeHtml(html)),
+    title: title || undefined,
+  };
+};
@@ -0,0 +1,157 @@
+import { getWordRanges } from './text';
+import { getNodeLanguage } from './language';
+
+// Text under the pointer for the magnifier: the single word, or the whole
+// rendered line around it so the reader keeps the surrounding context.
+
+export interface LoupeText {
+  before: string; // Rest of the line before the word (empty in word mode)
+  word: string;
+  after: string;
+  language?: string; // From the text's lang attribute, so the magnifier can set its direction
+}
+
+// UI elements whose label is magnified when the pointer is not over plain text
+const LABELLED_TAGS = ['BUTTON', 'LABEL', 'A', 'H1', 'H2', 'H3', 'SPAN', 'MARK'];
+const MAX_LABEL_LENGTH = 50;
+
+// Word boundaries around `offset`; a position just after a word counts as inside it
+const getWordBounds = (text: string, offset: number, language?: string) => {
+  const words = getWordRanges(text, language);
+  const word = words.find(w => w.start <= offset && offset < w.end) || words.find(w => w.end === offset);
+  return word || { start: offset, end: offset };
+};
+
+// Text position under a viewport point
+export const getCaretAt = (x: number, y: number): { node: Text; offset: number } | null => {
+  // @ts-ignore - caretRangeFromPoint is WebKit/Blink only
+  if (document.caretRangeFromPoint) {
+    // @ts-ignore
+    const range: Range | null = document.caretRangeFromPoint(x, y);
+    if (range && range.startContainer.nodeType === Node.TEXT_NODE) {
+      return { node: range.startContainer as Text, offset: range.startOffset };
+    }
+    return null;
+  }
+  // Fallback for some browsers
+  // @ts-ignore
+  if (document.caretPositionFromPoint) {
+    // @ts-ignore
+    const pos = document.caretPositionFromPoint(x, y);
+    if (pos && pos.offsetNode.nodeType === Node.TEXT_NODE) {
+      return { node: pos.offsetNode as Text, offset: pos.offset };
+    }
+  }
+  return null;
+};
+
+// Short label of an interactive element, for pointing at buttons and headings
+const getLabelAt = (x: number, y: number) => {
+  const el = document.elementFromPoint(x, y) as HTMLElement | null;
+  if (!el || !LABELLED_TAGS.includes(el.tagName)) return '';
+  const label = el.innerText || el.getAttribute('aria-label') || '';
+  return label.length > MAX_LABEL_LENGTH ? label.substring(0, MAX_LABEL_LENGTH) + '...' : label;
+};
+
+export const getWordAt = (x: number, y: number): LoupeText | null => {
+  const caret = getCaretAt(x, y);
+  let word = '';
+  let language: string | undefined;
+  if (caret) {
+    const text = caret.node.textContent || '';
+    language = getNodeLanguage(caret.node);
+    const { start, end } = getWordBounds(text, caret.offset, language);
+    word = text.slice(start, end).trim();
+  }
+  if (!word) word = getLabelAt(x, y);
+  return word ? { before: '', word, after: '', language } : null;
+};
+
+// --- Line context ---
+
+const charRange = document.createRange();
+
+const getCharRect = (node: Text, index: number) => {
+  charRange.setStart(node, index);
+  charRange.setEnd(node, index + 1);
+  return charRange.getBoundingClientRect();
+};
+
+// Nearest ancestor laid out as a block; inline marks (bionic, highlights) split lines into many text nodes
+const findBlockAncestor = (node: Node): HTMLElement | null => {
+  let el = node.parentElement;
+  while (el && el !== document.body && window.getComputedStyle(el).display.startsWith('inline')) {
+    el = el.parentElement;
+  }
+  return el;
+};
+
+// First index in [0, length) for which `isPast` holds, assuming it is monotonic along the text
+const searchIndex = (length: number, isPast: (index: number) => boolean) => {
+  let low = 0;
+  let high = length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (isPast(mid)) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+};
+
+// Characters of `node` whose vertical midpoint falls within the line
+const getLineSlice = (node: Text, lineTop: number, lineBottom: number) => {
+  const length = node.length;
+  const midOf = (index: number) => {
+    const rect = getCharRect(node, index);
+    return (rect.top + rect.bottom) / 2;
+  };
+  const start = searchIndex(length, index => midOf(index) >= lineTop);
+  const end = searchIndex(length, index => midOf(index) > lineBottom);
+  return { start, end: Math.max(start, end) };
+};
+
+export const getLineAt = (x: number, y: number): LoupeText | null => {
+  const caret = getCaretAt(x, y);
+  if (!caret) return getWordAt(x, y);
+
+  const { node, offset } = caret;
+  const text = node.textContent || '';
+  if (!text.trim()) return getWordAt(x, y);
+  const lineRect = getCharRect(node, Math.min(offset, text.length - 1));
+  if (lineRect.height === 0) return getWordAt(x, y);
+
+  const block = findBlockAncestor(node);
+  if (!block) return getWordAt(x, y);
+
+  const language = getNodeLanguage(node);
+  const { start: wordStart, end: wordEnd } = getWordBounds(text, offset, language);
+  const result: LoupeText = { before: '', word: '', after: '', language };
+  let isAfterCaret = false;
+
+  const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+  const nodeRange = document.createRange();
+  for (let current = walker.nextNode() as Text | null; current; current = walker.nextNode() as Text | null) {
+    if (current === node) {
+      const { start, end } = getLineSlice(current, lineRect.top, lineRect.bottom);
+      result.before += text.slice(start, Math.max(start, wordStart));
+      result.word = text.slice(wordStart, wordEnd);
+      result.after += text.slice(Math.min(Math.max(wordEnd, start), end), end);
+      isAfterCaret = true;
+      continue;
+    }
+    // Skip nodes that don't touch the line without measuring each character
+    nodeRange.selectNodeContents(current);
+    const touchesLine = Array.from(nodeRange.getClientRects())
+      .some(rect => rect.top < lineRect.bottom && rect.bottom > lineRect.top);
+    if (!touchesLine) continue;
+    const { start, end } = getLineSlice(current, lineRect.top, lineRect.bottom);
+    const piece = (current.textContent || '').slice(start, end);
+    if (isAfterCaret) result.after += piece;
+    else result.before += piece;
+  }
+
+  result.before = result.before.replace(/\s+/g, ' ').trimStart();
+  result.after = result.after.replace(/\s+/g, ' ').trimEnd();
+  if (!result.word.trim() && !result.before.trim() && !result.after.trim()) return null;
+  return result;
+};
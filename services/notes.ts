@@ -0,0 +1,149 @@
+import { Block, Highlight, Note } from '../types';
+import { hashText } from './text';
+import { extractMarkdownBlocks, textToBlocks } from './loaders';
+
+// Notes on paragraphs and highlights. Each note keeps a fingerprint of its
+// paragraph and a quote of the text it is about, so it can be re-anchored when
+// the document is extracted again with paragraphs split or merged differently.
+
+const QUOTE_LENGTH = 80;
+const MIN_PREFIX_LENGTH = 20; // Shorter paragraphs are too common to identify a split one
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Nearest block (by distance from `near`) that satisfies `matches`, or -1
+export const findNearestBlock = (blocks: Block[], near: number, matches: (block: Block, index: number) => boolean) => {
+  for (let distance = 0; distance < blocks.length; distance++) {
+    for (const candidate of [near - distance, near + distance]) {
+      if (candidate >= 0 && candidate < blocks.length && matches(blocks[candidate], candidate)) return candidate;
+    }
+  }
+  return -1;
+};
+
+// Anchor for a note on a paragraph with `text`, quoting `quoted` (the highlight) if given
+export const getTextAnchor = (text: string, quoted = text) => ({
+  fingerprint: hashText(text),
+  quote: quoted.slice(0, QUOTE_LENGTH),
+});
+
+// What a note on `paragraph` (or on `highlight` in it) is anchored to, from the current text
+export const getNoteAnchor = (blocks: Block[], paragraph: number, highlight?: Highlight) =>
+  getTextAnchor(blocks[paragraph]?.text || '', highlight?.text);
+
+export const createNote = (blocks: Block[], paragraph: number, highlight?: Highlight): Note => {
+  const now = Date.now();
+  return {
+    id: `${now}-${paragraph}${highlight ? `-${highlight.id}` : ''}`,
+    paragraph,
+    highlightId: highlight?.id,
+    text: '',
+    tags: [],
+    ...getNoteAnchor(blocks, paragraph, highlight),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// The note on a paragraph (no highlightId) or on one of its highlights
+export const findNote = (notes: Note[], paragraph: number, highlightId?: string) =>
+  notes.find(note => note.paragraph === paragraph && note.highlightId === highlightId);
+
+// Notes saved before they were objects: plain text keyed by paragraph
+export const notesFromAnnotations = (
+  annotations: Record<number, string>,
+  times: Record<number, number>,
+  blocks: Block[]
+): Note[] =>
+  Object.entries(annotations)
+    .filter(([, text]) => typeof text === 'string' && text.trim().length > 0)
+    .map(([key, text]) => {
+      const paragraph = Number(key);
+      const time = times[paragraph] || Date.now();
+      return { ...createNote(blocks, paragraph), text, createdAt: time, updatedAt: time };
+    });
+
+// Block a note belongs to: its highlight's paragraph, its own paragraph if that text is
+// unchanged, else the nearest paragraph with the same text, containing the quote, or
+// (when paragraphs were split) starting the quote. -1 if the text is gone.
+export const findNoteParagraph = (
+  note: Note,
+  blocks: Block[],
+  highlights: Record<number, Highlight[]>,
+  hashes = blocks.map(block => hashText(block.text))
+): number => {
+  if (note.highlightId) {
+    const entry = Object.entries(highlights).find(([, list]) => list.some(h => h.id === note.highlightId));
+    if (entry) return Number(entry[0]);
+  }
+  if (hashes[note.paragraph] === note.fingerprint) return note.paragraph;
+  const sameText = findNearestBlock(blocks, note.paragraph, (_, index) => hashes[index] === note.fingerprint);
+  if (sameText >= 0) return sameText;
+
+  const quote = normalizeText(note.quote);
+  if (!quote) return -1;
+  return findNearestBlock(blocks, note.paragraph, block => {
+    const text = normalizeText(block.text);
+    return text.includes(quote) || (text.length >= MIN_PREFIX_LENGTH && quote.startsWith(text));
+  });
+};
+
+// Moves notes onto the paragraphs their text is in now. Notes whose text can't be found
+// stay where they were and are counted as lost; ones whose highlight is gone join the
+// paragraph's note.
+export const reanchorNotes = (notes: Note[], blocks: Block[], highlights: Record<number, Highlight[]>) => {
+  let lost = 0;
+  const hashes = blocks.map(block => hashText(block.text));
+  const reanchored = notes.map(note => {
+    const paragraph = findNoteParagraph(note, blocks, highlights, hashes);
+    if (paragraph < 0) {
+      lost++;
+      return note;
+    }
+    const highlight = note.highlightId ? highlights[paragraph]?.find(h => h.id === note.highlightId) : undefined;
+    if (paragraph === note.paragraph && highlight?.id === note.highlightId) return note;
+    return { ...note, paragraph, highlightId: highlight?.id, ...getNoteAnchor(blocks, paragraph, highlight) };
+  });
+  return { notes: mergeNotes([], reanchored), lost };
+};
+
+// Adds `incoming` notes to `notes`. One for a paragraph or highlight that already has
+// a note is appended to it, unless its text is already there.
+export const mergeNotes = (notes: Note[], incoming: Note[]): Note[] => {
+  const merged = [...notes];
+  incoming.forEach(note => {
+    const i = merged.findIndex(n => n.paragraph === note.paragraph && n.highlightId === note.highlightId);
+    if (i < 0) {
+      merged.push(note);
+      return;
+    }
+    const current = merged[i];
+    const text = current.text.includes(note.text.trim()) ? current.text : `${current.text.trimEnd()}\n\n${note.text}`;
+    merged[i] = {
+      ...current,
+      text,
+      tags: note.tags.reduce(addTag, current.tags),
+      updatedAt: Math.max(current.updatedAt, note.updatedAt),
+    };
+  });
+  return merged;
+};
+
+// Tags are matched ignoring case and a leading #
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').replace(/\s+/g, '-');
+
+export const addTag = (tags: string[], tag: string) => {
+  const normalized = normalizeTag(tag);
+  if (!normalized || tags.some(t => t.toLowerCase() === normalized.toLowerCase())) return tags;
+  return [...tags, normalized];
+};
+
+// Formatted note text as blocks with inline spans, the same model documents use. A single
+// newline (typed, or a dictated "new line") is a line break. Without the Markdown libraries
+// the text is shown as typed.
+export const parseNoteText = (text: string): Block[] =>
+  window.marked && window.DOMPurify ? extractMarkdownBlocks(text, { breaks: true }) : textToBlocks(text);
+
+// Note text without its formatting, for lists and search
+export const getNotePlainText = (text: string) =>
+  parseNoteText(text).map(block => block.text).join(' ').trim();
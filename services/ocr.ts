@@ -0,0 +1,143 @@
+import { Block, BlockType, ExtractedDocument } from '../types';
+
+// In-browser OCR using Tesseract (WASM, runs inside its own web worker).
+
+export type ProgressHandler = (message: string, progress: number) => void; // progress 0 - 1
+
+export interface OcrSession {
+  recognize: (image: HTMLCanvasElement | Blob, onProgress?: (progress: number) => void) => Promise<Block[]>;
+  terminate: () => Promise<void>;
+}
+
+const joinOcrLine = (text: string, next: string) => {
+  if (/[a-z]-$/i.test(text) && /^[a-z]/.test(next)) return text.slice(0, -1) + next;
+  return text ? `${text} ${next}` : next;
+};
+
+// Tesseract separates paragraphs with blank lines and wraps lines as printed
+export const ocrTextToBlocks = (text: string): Block[] =>
+  text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').map(line => line.trim()).filter(Boolean).reduce(joinOcrLine, ''))
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => ({ type: BlockType.PARAGRAPH, text: paragraph }));
+
+// Loads the engine and language data once; `onLoadProgress` reports that download
+export const createOcrSession = async (language: string, onLoadProgress: ProgressHandler): Promise<OcrSession> => {
+  let pageProgress: ((progress: number) => void) | undefined;
+  onLoadProgress(`Loading OCR (${language})...`, 0);
+
+  const worker = await window.Tesseract.createWorker(language, 1, {
+    logger: (m: { status: string; progress: number }) => {
+      if (m.status === 'recognizing text') {
+        pageProgress?.(m.progress);
+      } else {
+        onLoadProgress(`Loading OCR (${language})...`, m.progress);
+      }
+    },
+  });
+
+  return {
+    recognize: async (image, onProgress) => {
+      pageProgress = onProgress;
+      const { data } = await worker.recognize(image);
+      pageProgress = undefined;
+      return ocrTextToBlocks(data.text || '');
+    },
+    terminate: () => worker.terminate(),
+  };
+};
+
+export const renderPdfPageToCanvas = async (page: any, scale = 2): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+  return canvas;
+};
+
+// Whether the page paints an image, as a scan does. A page without text or images is
+// blank on purpose and has nothing to recognize.
+export const hasPdfPageImage = async (page: any): Promise<boolean> => {
+  const OPS = window.pdfjsLib?.OPS;
+  if (!OPS) return true;
+  const imageOps = [
+    OPS.paintImageXObject,
+    OPS.paintImageXObjectRepeat,
+    OPS.paintInlineImageXObject,
+    OPS.paintInlineImageXObjectGroup,
+    OPS.paintImageMaskXObject,
+    OPS.paintImageMaskXObjectGroup,
+    OPS.paintImageMaskXObjectRepeat,
+    OPS.paintJpegXObject,
+  ].filter(op => op !== undefined);
+  const { fnArray }: { fnArray: number[] } = await page.getOperatorList();
+  return fnArray.some(op => imageOps.includes(op));
+};
+
+// --- Images ---
+
+const isTiff = (file: File) => /image\/tiff/.test(file.type) || /\.tiff?$/i.test(file.name);
+
+// Browsers can't decode TIFF natively; decode every page to a canvas. Pages in a
+// compression UTIF can't read are skipped with a warning instead of failing the import.
+const decodeTiffPages = async (file: File): Promise<{ pages: HTMLCanvasElement[]; warnings: string[] }> => {
+  const buffer = await file.arrayBuffer();
+  const ifds = window.UTIF.decode(buffer);
+  const pages: HTMLCanvasElement[] = [];
+  const warnings: string[] = [];
+  ifds.forEach((ifd: any, i: number) => {
+    try {
+      window.UTIF.decodeImage(buffer, ifd);
+      const rgba: Uint8Array = window.UTIF.toRGBA8(ifd);
+      const canvas = document.createElement('canvas');
+      canvas.width = ifd.width;
+      canvas.height = ifd.height;
+      const context = canvas.getContext('2d');
+      context?.putImageData(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height), 0, 0);
+      pages.push(canvas);
+    } catch (err) {
+      console.error(`Error decoding TIFF page ${i + 1}:`, err);
+      warnings.push(`Page ${i + 1} of the TIFF uses an unsupported compression and was skipped.`);
+    }
+  });
+  return { pages, warnings };
+};
+
+export const extractImageDocument = async (
+  file: File,
+  language: string,
+  onProgress: ProgressHandler
+): Promise<ExtractedDocument> => {
+  const { pages, warnings }: { pages: (HTMLCanvasElement | Blob)[]; warnings: string[] } =
+    isTiff(file) ? await decodeTiffPages(file) : { pages: [file], warnings: [] };
+  if (pages.length === 0) return { blocks: [], warnings };
+  const session = await createOcrSession(language, onProgress);
+
+  try {
+    const blocks: Block[] = [];
+    // A page OCR fails on is left out rather than failing the whole image
+    const failed: number[] = [];
+    for (let i = 0; i < pages.length; i++) {
+      const label = pages.length > 1 ? `page ${i + 1} of ${pages.length}` : file.name;
+      try {
+        blocks.push(...await session.recognize(pages[i], progress => {
+          onProgress(`Recognizing text: ${label}`, (i + progress) / pages.length);
+        }));
+      } catch (err) {
+        console.error(`Error recognizing ${label}:`, err);
+        failed.push(i + 1);
+      }
+    }
+
+    if (failed.length === pages.length) throw new Error('Text recognition failed on every page.');
+    if (failed.length > 0) {
+      warnings.push(`Text recognition failed on page(s) ${failed.join(', ')}, so their text is missing.`);
+    }
+    if (blocks.length === 0) warnings.push('No text could be recognized in this image.');
+    return { blocks, warnings: warnings.length > 0 ? warnings : undefined };
+  } finally {
+    await session.terminate();
+  }
+};
@@ -0,0 +1,287 @@
+import { ReaderSettings, SettingsProfile, CustomTheme, ThemeColors, ThemeMode, FontFamily, TextAlign, LoupeMode, KeyBindings, VoiceShortcut, DEFAULT_SETTINGS } from '../types';
+import { isHexColor } from './contrast';
+import { SHORTCUT_COMMANDS } from './shortcuts';
+import { VOICE_COMMANDS, VOICE_LOCALES } from './voiceCommands';
+
+// Named settings profiles, persisted as one versioned object in localStorage.
+// Everything read back from storage or an imported file goes through
+// validateSettings, so a corrupt or outdated object falls back to defaults
+// field by field instead of breaking the app.
+
+export const PROFILE_STORE_KEY = 'access-reader-profiles';
+const LEGACY_SETTINGS_KEY = 'access-reader-settings'; // Single settings object used before profiles
+export const PROFILE_SCHEMA_VERSION = 2;
+
+export const PROFILE_EXPORT_FORMAT = 'access-reader-profiles';
+
+export interface ProfileStore {
+  version: number;
+  activeProfileId: string;
+  profiles: SettingsProfile[];
+}
+
+export interface ProfileExport {
+  format: typeof PROFILE_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  profiles: { name: string; settings: ReaderSettings }[];
+}
+
+// Numeric settings are clamped into the range the controls can produce
+const NUMBER_RANGES: Partial<Record<keyof ReaderSettings, [number, number]>> = {
+  fontSize: [12, 72],
+  lineHeight: [1, 3],
+  letterSpacing: [0, 0.5],
+  wordSpacing: [0, 1],
+  paragraphSpacing: [0, 4],
+  maxLineLength: [0, 200],
+  autoScrollSpeed: [30, 600],
+  speechRate: [0.5, 2],
+  speechPitch: [0, 2],
+  speechVolume: [0, 1],
+  rulerHeight: [1, 6],
+  rulerOpacity: [0, 0.95],
+  loupeZoom: [1.5, 6],
+  loupeSize: [160, 480],
+};
+
+const ENUM_VALUES: Partial<Record<keyof ReaderSettings, string[]>> = {
+  theme: Object.values(ThemeMode),
+  fontFamily: Object.values(FontFamily),
+  textAlign: Object.values(TextAlign),
+  loupeMode: Object.values(LoupeMode),
+  voiceLocale: ['', ...VOICE_LOCALES.map(locale => locale.code)],
+};
+
+// String settings that must hold a hex colour
+const COLOR_SETTINGS: (keyof ReaderSettings)[] = ['rulerTint'];
+
+const COLOR_KEYS: (keyof ThemeColors)[] = ['background', 'text', 'highlight', 'selection', 'accent', 'focusRing'];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const createProfileId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const validateCustomTheme = (raw: unknown): CustomTheme | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !isRecord(raw.colors)) return null;
+  const colors = raw.colors;
+  if (!COLOR_KEYS.every(key => typeof colors[key] === 'string' && isHexColor(colors[key]))) return null;
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Untitled theme',
+    colors: COLOR_KEYS.reduce((acc, key) => ({ ...acc, [key]: colors[key] }), {} as ThemeColors),
+  };
+};
+
+// Remapped shortcuts for known commands only; an empty list (all keys removed) is kept
+const validateKeyBindings = (raw: unknown): KeyBindings => {
+  if (!isRecord(raw)) return {};
+  const bindings: KeyBindings = {};
+  SHORTCUT_COMMANDS.forEach(({ id }) => {
+    const value = raw[id];
+    if (Array.isArray(value)) bindings[id] = value.filter((binding): binding is string => typeof binding === 'string' && !!binding);
+  });
+  return bindings;
+};
+
+const validateVoiceShortcut = (raw: unknown): VoiceShortcut | null => {
+  if (!isRecord(raw) || typeof raw.phrase !== 'string' || !raw.phrase.trim()) return null;
+  if (!VOICE_COMMANDS.some(command => command.id === raw.command)) return null;
+  return { phrase: raw.phrase, command: raw.command as string };
+};
+
+// Builds a complete ReaderSettings from untrusted input. Unknown keys are
+// dropped; missing or invalid values take the default.
+export const validateSettings = (raw: unknown): ReaderSettings => {
+  if (!isRecord(raw)) return { ...DEFAULT_SETTINGS };
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+
+  (Object.keys(DEFAULT_SETTINGS) as (keyof ReaderSettings)[]).forEach(key => {
+    const fallback = DEFAULT_SETTINGS[key];
+    const value = raw[key];
+    if (value === undefined) return;
+
+    if (key === 'customThemes') {
+      if (Array.isArray(value)) {
+        settings.customThemes = value.map(validateCustomTheme).filter((theme): theme is CustomTheme => !!theme);
+      }
+      return;
+    }
+    if (key === 'keyBindings') {
+      settings.keyBindings = validateKeyBindings(value);
+      return;
+    }
+    if (key === 'voiceShortcuts') {
+      if (Array.isArray(value)) {
+        settings.voiceShortcuts = value.map(validateVoiceShortcut).filter((shortcut): shortcut is VoiceShortcut => !!shortcut);
+      }
+      return;
+    }
+    if (key === 'customThemeId') {
+      if (typeof value === 'string' || value === null) settings.customThemeId = value;
+      return;
+    }
+    if (typeof fallback === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return;
+      const range = NUMBER_RANGES[key];
+      settings[key] = range ? Math.min(Math.max(value, range[0]), range[1]) : value;
+      return;
+    }
+    if (typeof value !== typeof fallback) return;
+    const allowed = ENUM_VALUES[key];
+    if (allowed && !allowed.includes(value)) return;
+    if (COLOR_SETTINGS.includes(key) && !isHexColor(value)) return;
+    settings[key] = value;
+  });
+
+  const result = settings as unknown as ReaderSettings;
+  // A custom theme that no longer exists falls back to the light theme
+  if (result.theme === ThemeMode.CUSTOM && !result.customThemes.some(theme => theme.id === result.customThemeId)) {
+    result.theme = ThemeMode.LIGHT;
+    result.customThemeId = null;
+  }
+  return result;
+};
+
+// Changes to individual settings, keyed by the schema version they upgrade from.
+// Version 0 is the legacy bare settings object stored before profiles existed.
+const SETTINGS_MIGRATIONS: Record<number, (settings: Record<string, any>) => Record<string, any>> = {
+  // Up to version 1 autoScrollSpeed 0 meant "off"; it is now a words-per-minute rate
+  1: ({ autoScrollSpeed, ...rest }) => autoScrollSpeed === 0 ? rest : { ...rest, autoScrollSpeed },
+};
+
+const migrateSettings = (raw: unknown, fromVersion: number): unknown => {
+  let settings = raw;
+  for (let version = fromVersion; version < PROFILE_SCHEMA_VERSION; version++) {
+    const step = SETTINGS_MIGRATIONS[version];
+    if (step && isRecord(settings)) settings = step(settings);
+  }
+  return settings;
+};
+
+const validateProfile = (raw: unknown, fromVersion: number): SettingsProfile | null => {
+  if (!isRecord(raw)) return null;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createProfileId(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Untitled profile',
+    settings: validateSettings(migrateSettings(raw.settings, fromVersion)),
+  };
+};
+
+export const createProfile = (name: string, settings: ReaderSettings): SettingsProfile => ({
+  id: createProfileId(),
+  name,
+  settings: { ...settings },
+});
+
+export const createDefaultStore = (settings: ReaderSettings = DEFAULT_SETTINGS): ProfileStore => {
+  const profile = createProfile('Default', settings);
+  return { version: PROFILE_SCHEMA_VERSION, activeProfileId: profile.id, profiles: [profile] };
+};
+
+// Upgrades a stored object to the current schema. A legacy settings object
+// (version 0) becomes the single "Default" profile.
+export const migrateProfileStore = (raw: unknown, fromVersion: number): ProfileStore => {
+  const data: any = fromVersion === 0
+    ? { activeProfileId: null, profiles: [{ name: 'Default', settings: raw }] }
+    : raw;
+
+  if (!isRecord(data) || !Array.isArray(data.profiles)) return createDefaultStore();
+  const seen = new Set<string>();
+  const profiles = data.profiles
+    .map((profile: unknown) => validateProfile(profile, fromVersion))
+    .filter((profile: SettingsProfile | null): profile is SettingsProfile => {
+      if (!profile || seen.has(profile.id)) return false;
+      seen.add(profile.id);
+      return true;
+    });
+  if (profiles.length === 0) return createDefaultStore();
+
+  const activeProfileId = profiles.some((profile: SettingsProfile) => profile.id === data.activeProfileId)
+    ? data.activeProfileId
+    : profiles[0].id;
+  return { version: PROFILE_SCHEMA_VERSION, activeProfileId, profiles };
+};
+
+const readJson = (key: string): unknown => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error(`Ignoring unreadable ${key}:`, error);
+    return undefined;
+  }
+};
+
+export const loadProfileStore = (): ProfileStore => {
+  try {
+    const stored = readJson(PROFILE_STORE_KEY);
+    if (isRecord(stored) && typeof stored.version === 'number' && stored.version <= PROFILE_SCHEMA_VERSION) {
+      return migrateProfileStore(stored, stored.version);
+    }
+    if (stored !== undefined) {
+      console.error('Ignoring stored profiles with an unknown version:', stored);
+    }
+    const legacy = readJson(LEGACY_SETTINGS_KEY);
+    return legacy !== undefined ? migrateProfileStore(legacy, 0) : createDefaultStore();
+  } catch (error) {
+    console.error('Failed to load settings profiles:', error);
+    return createDefaultStore();
+  }
+};
+
+export const saveProfileStore = (store: ProfileStore) => {
+  try {
+    localStorage.setItem(PROFILE_STORE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('Failed to save settings profiles:', error);
+  }
+};
+
+export const getActiveProfile = (store: ProfileStore): SettingsProfile =>
+  store.profiles.find(profile => profile.id === store.activeProfileId) || store.profiles[0];
+
+// Adds " (2)", " (3)"... so imported or copied profiles stay distinguishable
+export const getUniqueProfileName = (name: string, profiles: SettingsProfile[]) => {
+  const names = new Set(profiles.map(profile => profile.name));
+  if (!names.has(name)) return name;
+  let n = 2;
+  while (names.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+};
+
+// --- Import / export ---
+
+export const buildProfileExport = (profiles: SettingsProfile[]): string => {
+  const data: ProfileExport = {
+    format: PROFILE_EXPORT_FORMAT,
+    version: PROFILE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles: profiles.map(profile => ({ name: profile.name, settings: profile.settings })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+// Returns validated profiles with fresh ids, ready to add to the store
+export const parseProfileExport = (json: string): SettingsProfile[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== PROFILE_EXPORT_FORMAT) {
+    throw new Error('This file is not an AccessReader settings profile.');
+  }
+  if (typeof data.version !== 'number' || data.version > PROFILE_SCHEMA_VERSION) {
+    throw new Error('This profile was made by a newer version of AccessReader.');
+  }
+  if (!Array.isArray(data.profiles) || data.profiles.length === 0) {
+    throw new Error('This file does not contain any profiles.');
+  }
+  return data.profiles
+    .map((raw: unknown) => validateProfile(isRecord(raw) ? { ...raw, id: undefined } : raw, data.version))
+    .filter((profile: SettingsProfile | null): profile is SettingsProfile => !!profile);
+};
@@ -0,0 +1,44 @@
+import { Block, ReadingStats } from '../types';
+import { getWordRanges } from './text';
+
+// Reading progress and time-remaining estimates.
+
+// Used until enough reading has been measured
+export const DEFAULT_WORDS_PER_MINUTE = 200;
+export const MIN_MEASURED_WORDS = 150;
+
+// Samples outside these bounds are idling or skimming/jumping, not reading
+export const MAX_SAMPLE_IDLE_MS = 2 * 60 * 1000;
+const MIN_PLAUSIBLE_WPM = 30;
+const MAX_PLAUSIBLE_WPM = 1000;
+
+export const EMPTY_READING_STATS: ReadingStats = { wordsRead: 0, activeMs: 0 };
+
+// Words before each block; the last entry is the document total
+export const getCumulativeWordCounts = (blocks: Block[]): number[] => {
+  const counts = [0];
+  blocks.forEach(block => counts.push(counts[counts.length - 1] + getWordRanges(block.text).length));
+  return counts;
+};
+
+export const isPlausibleReadingSample = (words: number, ms: number) => {
+  if (words <= 0 || ms <= 0 || ms > MAX_SAMPLE_IDLE_MS) return false;
+  const wordsPerMinute = words / (ms / 60000);
+  return wordsPerMinute >= MIN_PLAUSIBLE_WPM && wordsPerMinute <= MAX_PLAUSIBLE_WPM;
+};
+
+export const getReadingSpeed = (stats: ReadingStats) => {
+  if (stats.wordsRead < MIN_MEASURED_WORDS || stats.activeMs <= 0) {
+    return { wordsPerMinute: DEFAULT_WORDS_PER_MINUTE, isMeasured: false };
+  }
+  return { wordsPerMinute: stats.wordsRead / (stats.activeMs / 60000), isMeasured: true };
+};
+
+export const formatTimeRemaining = (minutes: number) => {
+  if (minutes < 1) return 'less than a minute';
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+};
@@ -0,0 +1,65 @@
+import { Block } from '../types';
+import { TextRange } from './text';
+
+// Find-in-document over the blocks' plain text.
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface SearchMatch extends TextRange {
+  index: number; // Block index
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+};
+
+// Keeps a very broad pattern (e.g. `.` on a long PDF) from flooding the reader with marks
+export const MAX_SEARCH_MATCHES = 5000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters and digits of any script count as word characters, unlike \b
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+// Throws a SyntaxError when `query` is an invalid regular expression
+export const buildSearchPattern = (query: string, { caseSensitive, wholeWord, regex }: SearchOptions): RegExp => {
+  let source = regex ? query : escapeRegExp(query);
+  if (wholeWord) source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+  return new RegExp(source, `gu${caseSensitive ? '' : 'i'}`);
+};
+
+export const findMatches = (blocks: Block[], query: string, options: SearchOptions): SearchMatch[] => {
+  if (!query) return [];
+  const pattern = buildSearchPattern(query, options);
+  const matches: SearchMatch[] = [];
+
+  for (let index = 0; index < blocks.length; index++) {
+    const text = blocks[index].text;
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        // Empty matches (e.g. `a*`) would never advance
+        pattern.lastIndex++;
+        continue;
+      }
+      matches.push({ index, start: match.index, end: match.index + match[0].length });
+      if (matches.length >= MAX_SEARCH_MATCHES) return matches;
+    }
+  }
+
+  return matches;
+};
+
+// First match in or after block `index`, wrapping to the start
+export const findMatchFrom = (matches: SearchMatch[], index: number): number => {
+  if (matches.length === 0) return -1;
+  const found = matches.findIndex(match => match.index >= index);
+  return found >= 0 ? found : 0;
+};
@@ -0,0 +1,218 @@
+import { KeyBindings } from '../types';
+
+// Keyboard shortcuts. Every command has default bindings; remapped ones are
+// stored per profile in ReaderSettings.keyBindings. A binding is a normalised
+// string such as "Ctrl+F", "Shift+ArrowDown" or "?".
+
+export type ShortcutId =
+  | 'search'
+  | 'nextParagraph'
+  | 'previousParagraph'
+  | 'pageDown'
+  | 'readAll'
+  | 'readParagraph'
+  | 'pauseSpeech'
+  | 'stopSpeech'
+  | 'toggleMarker'
+  | 'toggleMagnifier'
+  | 'toggleRuler'
+  | 'rulerDown'
+  | 'rulerUp'
+  | 'toggleFocusMode'
+  | 'toggleBionic'
+  | 'toggleAutoScroll'
+  | 'toggleCaret'
+  | 'nextTheme'
+  | 'increaseFontSize'
+  | 'decreaseFontSize'
+  | 'undo'
+  | 'redo'
+  | 'showShortcuts'
+  | 'autoScrollPause'
+  | 'autoScrollFaster'
+  | 'autoScrollSlower'
+  | 'autoScrollStop'
+  | 'caretNextWord'
+  | 'caretPreviousWord'
+  | 'caretNextLine'
+  | 'caretPreviousLine'
+  | 'caretParagraphStart'
+  | 'caretParagraphEnd'
+  | 'caretSpeakWord'
+  | 'caretSpeakSentence'
+  | 'caretExit';
+
+// Scoped commands only run while their mode is on, and then take precedence over global ones
+export type ShortcutScope = 'global' | 'autoScroll' | 'caret';
+
+export interface ShortcutCommand {
+  id: ShortcutId;
+  label: string;
+  category: string;
+  scope: ShortcutScope;
+  defaults: string[];
+}
+
+export interface ShortcutConflict {
+  binding: string;
+  scope: ShortcutScope;
+  commands: ShortcutId[];
+}
+
+export const SHORTCUT_SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: 'Anywhere',
+  autoScroll: 'While auto-scrolling',
+  caret: 'While caret browsing',
+};
+
+export const SHORTCUT_COMMANDS: ShortcutCommand[] = [
+  { id: 'search', label: 'Find in document', category: 'Navigation', scope: 'global', defaults: ['Ctrl+F'] },
+  { id: 'nextParagraph', label: 'Next paragraph', category: 'Navigation', scope: 'global', defaults: ['ArrowDown', 'N'] },
+  { id: 'previousParagraph', label: 'Previous paragraph', category: 'Navigation', scope: 'global', defaults: ['ArrowUp', 'P'] },
+  { id: 'pageDown', label: 'Scroll down a page', category: 'Navigation', scope: 'global', defaults: ['Space'] },
+
+  { id: 'readAll', label: 'Read all from the current paragraph', category: 'Read aloud', scope: 'global', defaults: ['R'] },
+  { id: 'readParagraph', label: 'Read the current paragraph', category: 'Read aloud', scope: 'global', defaults: ['L'] },
+  { id: 'pauseSpeech', label: 'Pause or resume reading', category: 'Read aloud', scope: 'global', defaults: ['K'] },
+  { id: 'stopSpeech', label: 'Stop reading', category: 'Read aloud', scope: 'global', defaults: ['S'] },
+
+  { id: 'toggleMarker', label: 'Marker mode', category: 'Reading tools', scope: 'global', defaults: ['M'] },
+  { id: 'toggleMagnifier', label: 'Magnifier', category: 'Reading tools', scope: 'global', defaults: ['Z'] },
+  { id: 'toggleRuler', label: 'Reading ruler', category: 'Reading tools', scope: 'global', defaults: ['U'] },
+  { id: 'rulerDown', label: 'Move the reading ruler down a line', category: 'Reading tools', scope: 'global', defaults: ['Shift+ArrowDown'] },
+  { id: 'rulerUp', label: 'Move the reading ruler up a line', category: 'Reading tools', scope: 'global', defaults: ['Shift+ArrowUp'] },
+  { id: 'toggleFocusMode', label: 'Focus mode', category: 'Reading tools', scope: 'global', defaults: ['F'] },
+  { id: 'toggleBionic', label: 'Bionic reading', category: 'Reading tools', scope: 'global', defaults: ['B'] },
+  { id: 'toggleAutoScroll', label: 'Start or stop auto-scroll', category: 'Reading tools', scope: 'global', defaults: ['A'] },
+  { id: 'toggleCaret', label: 'Caret browsing', category: 'Reading tools', scope: 'global', defaults: ['C'] },
+
+  { id: 'nextTheme', label: 'Next theme', category: 'Appearance', scope: 'global', defaults: ['T'] },
+  { id: 'increaseFontSize', label: 'Larger text', category: 'Appearance', scope: 'global', defaults: ['Ctrl+=', 'Ctrl+Plus'] },
+  { id: 'decreaseFontSize', label: 'Smaller text', category: 'Appearance', scope: 'global', defaults: ['Ctrl+-'] },
+
+  { id: 'undo', label: 'Undo the last change to notes, highlights or settings', category: 'Editing', scope: 'global', defaults: ['Ctrl+Z'] },
+  { id: 'redo', label: 'Redo', category: 'Editing', scope: 'global', defaults: ['Ctrl+Shift+Z', 'Ctrl+Y'] },
+
+  { id: 'autoScrollPause', label: 'Pause or resume', category: 'Auto-scroll', scope: 'autoScroll', defaults: ['Space'] },
+  { id: 'autoScrollFaster', label: 'Faster', category: 'Auto-scroll', scope: 'autoScroll', defaults: ['Plus', '='] },
+  { id: 'autoScrollSlower', label: 'Slower', category: 'Auto-scroll', scope: 'autoScroll', defaults: ['-', '_'] },
+  { id: 'autoScrollStop', label: 'Stop', category: 'Auto-scroll', scope: 'autoScroll', defaults: ['Escape'] },
+
+  { id: 'caretNextWord', label: 'Next word', category: 'Caret browsing', scope: 'caret', defaults: ['ArrowRight'] },
+  { id: 'caretPreviousWord', label: 'Previous word', category: 'Caret browsing', scope: 'caret', defaults: ['ArrowLeft'] },
+  { id: 'caretNextLine', label: 'Line below', category: 'Caret browsing', scope: 'caret', defaults: ['ArrowDown'] },
+  { id: 'caretPreviousLine', label: 'Line above', category: 'Caret browsing', scope: 'caret', defaults: ['ArrowUp'] },
+  { id: 'caretParagraphStart', label: 'Start of paragraph', category: 'Caret browsing', scope: 'caret', defaults: ['Home'] },
+  { id: 'caretParagraphEnd', label: 'End of paragraph', category: 'Caret browsing', scope: 'caret', defaults: ['End'] },
+  { id: 'caretSpeakWord', label: 'Speak the word', category: 'Caret browsing', scope: 'caret', defaults: ['Enter'] },
+  { id: 'caretSpeakSentence', label: 'Speak the sentence', category: 'Caret browsing', scope: 'caret', defaults: ['Shift+Enter'] },
+  { id: 'caretExit', label: 'Leave caret browsing', category: 'Caret browsing', scope: 'caret', defaults: ['Escape'] },
+
+  { id: 'showShortcuts', label: 'Show keyboard shortcuts', category: 'Help', scope: 'global', defaults: ['?'] },
+];
+
+// Needed to move between controls, so they can't be taken over
+export const RESERVED_BINDINGS = ['Tab', 'Shift+Tab'];
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'AltGraph', 'Meta', 'OS', 'CapsLock', 'Dead', 'Unidentified'];
+
+// Display names for keys whose binding name isn't what is printed on the key
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Plus: '+',
+  Escape: 'Esc',
+};
+
+export const getShortcutCommand = (id: ShortcutId) =>
+  SHORTCUT_COMMANDS.find(command => command.id === id) as ShortcutCommand;
+
+// Binding for a key press, or null for a lone modifier. Ctrl and Cmd are treated alike.
+// Shift is part of printed symbols ("?", "+") but is kept for letters and named keys.
+export const getEventBinding = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const isSymbol = e.key.length === 1 && e.key !== ' ' && e.key.toLowerCase() === e.key.toUpperCase();
+  let key = e.key;
+  if (key === ' ') key = 'Space';
+  else if (key === '+') key = 'Plus';
+  else if (key.length === 1) key = key.toUpperCase();
+
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && !isSymbol) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+export const getBindings = (keyBindings: KeyBindings, id: ShortcutId): string[] =>
+  keyBindings[id] ?? getShortcutCommand(id).defaults;
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.isContentEditable);
+
+// Command in `scope` bound to the key press. Keys typed into fields only count with Ctrl or Alt,
+// and keys pressed inside a dialog belong to the dialog.
+export const findShortcut = (e: KeyboardEvent, keyBindings: KeyBindings, scope: ShortcutScope): ShortcutId | null => {
+  const binding = getEventBinding(e);
+  if (!binding) return null;
+  if (isTypingTarget(e.target) && !/^(Ctrl|Alt)\+/.test(binding)) return null;
+  if (e.target instanceof Element && e.target.closest('[role="dialog"]')) return null;
+  const command = SHORTCUT_COMMANDS.find(c => c.scope === scope && getBindings(keyBindings, c.id).includes(binding));
+  return command ? command.id : null;
+};
+
+// Bindings used by more than one command that can run at the same time
+export const findShortcutConflicts = (keyBindings: KeyBindings): ShortcutConflict[] => {
+  const owners = new Map<string, ShortcutConflict>();
+  SHORTCUT_COMMANDS.forEach(command => {
+    getBindings(keyBindings, command.id).forEach(binding => {
+      const key = `${command.scope}:${binding}`;
+      const entry = owners.get(key) || { binding, scope: command.scope, commands: [] };
+      entry.commands.push(command.id);
+      owners.set(key, entry);
+    });
+  });
+  return Array.from(owners.values()).filter(entry => entry.commands.length > 1);
+};
+
+// Commands in the same scope that already use `binding`
+export const getBindingOwners = (keyBindings: KeyBindings, binding: string, scope: ShortcutScope): ShortcutId[] =>
+  SHORTCUT_COMMANDS
+    .filter(command => command.scope === scope && getBindings(keyBindings, command.id).includes(binding))
+    .map(command => command.id);
+
+// Stores `bindings` for a command, dropping the override when it matches the defaults
+export const setBindings = (keyBindings: KeyBindings, id: ShortcutId, bindings: string[]): KeyBindings => {
+  const { [id]: _previous, ...rest } = keyBindings;
+  const defaults = getShortcutCommand(id).defaults;
+  const isDefault = bindings.length === defaults.length && bindings.every((binding, i) => binding === defaults[i]);
+  return isDefault ? rest : { ...rest, [id]: bindings };
+};
+
+// Adds `binding` to a command and takes it away from commands in the same scope
+export const assignBinding = (keyBindings: KeyBindings, id: ShortcutId, binding: string): KeyBindings => {
+  const { scope } = getShortcutCommand(id);
+  let result = keyBindings;
+  getBindingOwners(keyBindings, binding, scope).filter(owner => owner !== id).forEach(owner => {
+    result = setBindings(result, owner, getBindings(result, owner).filter(b => b !== binding));
+  });
+  const current = getBindings(result, id);
+  return current.includes(binding) ? result : setBindings(result, id, [...current, binding]);
+};
+
+// Keys of a binding as shown to the user, e.g. ["Ctrl", "+"]. A "+" key is stored as "Plus",
+// so splitting on "+" is safe.
+export const getBindingKeys = (binding: string): string[] =>
+  binding.split('+').map(key => KEY_LABELS[key] || key);
+
+export const formatBinding = (binding: string) => getBindingKeys(binding).join(' + ');
+
+// Key hint for tooltips, e.g. " (Ctrl + F)", or nothing when the command has no key
+export const getShortcutHint = (keyBindings: KeyBindings, id: ShortcutId) => {
+  const [binding] = getBindings(keyBindings, id);
+  return binding ? ` (${formatBinding(binding)})` : '';
+};
@@ -0,0 +1,90 @@
+// Helpers for locating words and sentences inside a block's plain text.
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const wordSegmenters = new Map<string, Intl.Segmenter>();
+
+// Word segmentation follows the language's rules (dictionary-based for Chinese, Japanese
+// and Thai, which don't put spaces between words). Segmenters are reused per language.
+const getWordSegmenter = (language?: string | null): Intl.Segmenter | null => {
+  if (typeof Intl.Segmenter !== 'function') return null;
+  const key = language || '';
+  let segmenter = wordSegmenters.get(key);
+  if (!segmenter) {
+    try {
+      segmenter = new Intl.Segmenter(language || undefined, { granularity: 'word' });
+    } catch {
+      segmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+    }
+    wordSegmenters.set(key, segmenter);
+  }
+  return segmenter;
+};
+
+// Words and the text between them, covering all of `text`. Without Intl.Segmenter
+// words are runs of non-space characters.
+export const getWordSegments = (text: string, language?: string | null): { text: string; isWord: boolean }[] => {
+  const segmenter = getWordSegmenter(language);
+  if (!segmenter) {
+    return text.split(/(\s+)/).filter(Boolean).map(part => ({ text: part, isWord: !/^\s+$/.test(part) }));
+  }
+  return Array.from(segmenter.segment(text), segment => ({ text: segment.segment, isWord: !!segment.isWordLike }));
+};
+
+export const getWordRanges = (text: string, language?: string | null): TextRange[] => {
+  const ranges: TextRange[] = [];
+  let offset = 0;
+  getWordSegments(text, language).forEach(segment => {
+    if (segment.isWord) ranges.push({ start: offset, end: offset + segment.text.length });
+    offset += segment.text.length;
+  });
+  return ranges;
+};
+
+export const getSentenceRanges = (text: string): TextRange[] => {
+  const ranges: TextRange[] = [];
+  // A sentence runs up to terminal punctuation plus any closing quotes or brackets
+  const pattern = /[^.!?。！？؟।]+(?:[.!?。！？؟।]+["”’')\]]*|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (trimmed) {
+      const start = match.index + leading;
+      ranges.push({ start, end: start + trimmed.length });
+    }
+  }
+  return ranges;
+};
+
+// Index of the range containing `offset`, or the nearest one starting before it (-1 if none)
+export const findRangeIndexAt = (ranges: TextRange[], offset: number): number => {
+  let found = -1;
+  for (let i = 0; i < ranges.length; i++) {
+    if (ranges[i].start > offset) break;
+    found = i;
+  }
+  return found;
+};
+
+export const findRangeAt = (ranges: TextRange[], offset: number): TextRange | null => {
+  const index = findRangeIndexAt(ranges, offset);
+  return index >= 0 ? ranges[index] : null;
+};
+
+// Short, stable fingerprint of some text (32-bit FNV-1a, hex)
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
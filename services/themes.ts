@@ -0,0 +1,24 @@
+import { ReaderSettings, ThemeColors, ThemeMode, CustomTheme } from '../types';
+import { THEME_COLORS } from '../constants';
+
+// Resolves the active colours and exposes them as CSS variables, which the
+// ThemeMode.CUSTOM classes in each component read via `var(--theme-*)`.
+
+export const getActiveCustomTheme = (settings: ReaderSettings): CustomTheme | undefined =>
+  settings.customThemes.find(theme => theme.id === settings.customThemeId);
+
+export const resolveThemeColors = (settings: ReaderSettings): ThemeColors => {
+  if (settings.theme === ThemeMode.CUSTOM) {
+    return getActiveCustomTheme(settings)?.colors || THEME_COLORS[ThemeMode.LIGHT];
+  }
+  return THEME_COLORS[settings.theme] || THEME_COLORS[ThemeMode.LIGHT];
+};
+
+export const getThemeVariables = (colors: ThemeColors): Record<string, string> => ({
+  '--theme-background': colors.background,
+  '--theme-text': colors.text,
+  '--theme-highlight': colors.highlight,
+  '--theme-selection': colors.selection,
+  '--theme-accent': colors.accent,
+  '--theme-focus-ring': colors.focusRing,
+});
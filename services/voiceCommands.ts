@@ -0,0 +1,666 @@
+import { VoiceShortcut } from '../types';
+
+// Voice command grammar. Each locale lists the phrases for every command as
+// small patterns that must match the whole utterance, so "next" inside an
+// unrelated sentence no longer navigates. Pattern syntax:
+//   (a|b)      one of several words or phrases
+//   [words]    optional (not nested)
+//   {number}   a number, spoken as digits or words ("twelve", "twenty one")
+//   {text}     any text, e.g. a search term
+// Matching ignores case, accents and punctuation.
+
+export type VoiceCommandId =
+  | 'nextParagraph'
+  | 'previousParagraph'
+  | 'goToParagraph'
+  | 'firstParagraph'
+  | 'lastParagraph'
+  | 'readAll'
+  | 'readParagraph'
+  | 'pauseReading'
+  | 'resumeReading'
+  | 'stopReading'
+  | 'startScrolling'
+  | 'stopScrolling'
+  | 'pauseScrolling'
+  | 'scrollFaster'
+  | 'scrollSlower'
+  | 'scrollSpeed'
+  | 'fontSize'
+  | 'biggerText'
+  | 'smallerText'
+  | 'magnifierOn'
+  | 'magnifierOff'
+  | 'focusOn'
+  | 'focusOff'
+  | 'bionicOn'
+  | 'bionicOff'
+  | 'rulerOn'
+  | 'rulerOff'
+  | 'caretOn'
+  | 'caretOff'
+  | 'find'
+  | 'startDictation'
+  | 'undo'
+  | 'redo'
+  | 'help';
+
+export type VoiceArgument = 'number' | 'text';
+
+export interface VoiceCommand {
+  id: VoiceCommandId;
+  label: string;
+  argument?: VoiceArgument; // Custom phrases for this command must include the slot
+}
+
+export interface VoiceCommandMatch {
+  id: VoiceCommandId;
+  number?: number;
+  text?: string;
+}
+
+export interface VoiceGrammar {
+  language: string; // ISO 639-1 code the grammar is for
+  numbers: Record<string, number>; // Number words; 100 and 1000 multiply what came before
+  numberJoiners: string[]; // Words between number words ("twenty and one")
+  numberMultipliers?: string[]; // Number words that multiply a single digit before them ("quatre-vingt" is 80)
+  fillers: string[]; // Politeness words ignored at either end of a command
+  phrases: Record<VoiceCommandId, string[]>;
+  responses: Record<VoiceCommandId, string>; // Spoken confirmations; {number} and {text} are filled in
+  notUnderstood: string;
+  nothingToUndo: string;
+  nothingToRedo: string;
+}
+
+export const VOICE_COMMANDS: VoiceCommand[] = [
+  { id: 'nextParagraph', label: 'Next paragraph' },
+  { id: 'previousParagraph', label: 'Previous paragraph' },
+  { id: 'goToParagraph', label: 'Go to paragraph…', argument: 'number' },
+  { id: 'firstParagraph', label: 'Go to the start' },
+  { id: 'lastParagraph', label: 'Go to the end' },
+  { id: 'readAll', label: 'Read all' },
+  { id: 'readParagraph', label: 'Read the paragraph' },
+  { id: 'pauseReading', label: 'Pause reading' },
+  { id: 'resumeReading', label: 'Resume reading' },
+  { id: 'stopReading', label: 'Stop reading' },
+  { id: 'startScrolling', label: 'Start auto-scroll' },
+  { id: 'stopScrolling', label: 'Stop auto-scroll' },
+  { id: 'pauseScrolling', label: 'Pause auto-scroll' },
+  { id: 'scrollFaster', label: 'Scroll faster' },
+  { id: 'scrollSlower', label: 'Scroll slower' },
+  { id: 'scrollSpeed', label: 'Set scroll speed…', argument: 'number' },
+  { id: 'fontSize', label: 'Set font size…', argument: 'number' },
+  { id: 'biggerText', label: 'Bigger text' },
+  { id: 'smallerText', label: 'Smaller text' },
+  { id: 'magnifierOn', label: 'Magnifier on' },
+  { id: 'magnifierOff', label: 'Magnifier off' },
+  { id: 'focusOn', label: 'Focus mode on' },
+  { id: 'focusOff', label: 'Focus mode off' },
+  { id: 'bionicOn', label: 'Bionic reading on' },
+  { id: 'bionicOff', label: 'Bionic reading off' },
+  { id: 'rulerOn', label: 'Reading ruler on' },
+  { id: 'rulerOff', label: 'Reading ruler off' },
+  { id: 'caretOn', label: 'Caret browsing on' },
+  { id: 'caretOff', label: 'Caret browsing off' },
+  { id: 'find', label: 'Find…', argument: 'text' },
+  { id: 'startDictation', label: 'Dictate a note' },
+  { id: 'undo', label: 'Undo the last change' },
+  { id: 'redo', label: 'Redo' },
+  { id: 'help', label: 'List some commands' },
+];
+
+// Recognition languages with a command set. '' in settings follows the browser language.
+export const VOICE_LOCALES = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'fr-FR', label: 'Français' },
+];
+
+const DEFAULT_VOICE_LOCALE = 'en-US';
+
+const ENGLISH: VoiceGrammar = {
+  language: 'en',
+  numbers: {
+    zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18,
+    nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+    hundred: 100, thousand: 1000,
+  },
+  numberJoiners: ['and'],
+  fillers: ['please', 'ok', 'okay', 'hey', 'now', 'can you', 'could you'],
+  phrases: {
+    nextParagraph: ['[go to the] next [paragraph]', '[go] forward'],
+    previousParagraph: ['[go to the] previous [paragraph]', '[go] back'],
+    goToParagraph: ['[(go|jump|skip) to] paragraph [number] {number}'],
+    firstParagraph: ['[go to the] (top|start|beginning)', 'first paragraph'],
+    lastParagraph: ['[go to the] (end|bottom)', 'last paragraph'],
+    readAll: ['read (all|everything)', 'start reading', 'read from here'],
+    readParagraph: ['read [this] paragraph', 'read this'],
+    pauseReading: ['pause [reading]'],
+    resumeReading: ['(resume|continue) [reading]', 'keep reading'],
+    stopReading: ['stop [reading]', '(be quiet|quiet|silence)'],
+    startScrolling: ['(start|begin) scrolling', 'scroll', '(auto scroll|autoscroll) [on]'],
+    stopScrolling: ['stop scrolling', '(auto scroll|autoscroll|scrolling) off'],
+    pauseScrolling: ['pause scrolling', 'hold'],
+    scrollFaster: ['[scroll] faster'],
+    scrollSlower: ['[scroll] slower'],
+    scrollSpeed: ['[set] scroll speed [to] {number}', 'scroll at {number} [words per minute]'],
+    fontSize: ['[set] (font|text) size [to] {number}'],
+    biggerText: ['(bigger|larger) text', 'text (bigger|larger)', 'zoom in'],
+    smallerText: ['smaller text', 'text smaller', 'zoom out'],
+    magnifierOn: ['(magnifier|lens) on', '(turn on|show) [the] (magnifier|lens)'],
+    magnifierOff: ['(magnifier|lens) off', '(turn off|hide) [the] (magnifier|lens)'],
+    focusOn: ['focus [mode] on', '(turn on|enable) focus [mode]'],
+    focusOff: ['focus [mode] off', '(turn off|disable) focus [mode]'],
+    bionicOn: ['bionic [reading] on', '(turn on|enable) bionic [reading]'],
+    bionicOff: ['bionic [reading] off', '(turn off|disable) bionic [reading]'],
+    rulerOn: ['[reading] ruler on', '(turn on|show) [the] [reading] ruler'],
+    rulerOff: ['[reading] ruler off', '(turn off|hide) [the] [reading] ruler'],
+    caretOn: ['caret [browsing] on', 'start caret browsing'],
+    caretOff: ['caret [browsing] off', 'stop caret browsing'],
+    find: ['(find|search for|search) {text}'],
+    startDictation: ['(start|begin) dictation', 'dictate', 'take [a] note'],
+    help: ['help', 'what can i say', '[show] commands'],
+    undo: ['undo [that]', 'undo [the] last change'],
+    redo: ['redo [that]'],
+  },
+  responses: {
+    nextParagraph: 'Paragraph {number}',
+    previousParagraph: 'Paragraph {number}',
+    goToParagraph: 'Paragraph {number}',
+    firstParagraph: 'Start of the document',
+    lastParagraph: 'End of the document',
+    readAll: 'Reading',
+    readParagraph: 'Reading paragraph',
+    pauseReading: 'Paused',
+    resumeReading: 'Resuming',
+    stopReading: 'Stopped',
+    startScrolling: 'Scrolling',
+    stopScrolling: 'Scrolling stopped',
+    pauseScrolling: 'Scrolling paused',
+    scrollFaster: 'Scroll speed {number}',
+    scrollSlower: 'Scroll speed {number}',
+    scrollSpeed: 'Scroll speed {number}',
+    fontSize: 'Font size {number}',
+    biggerText: 'Font size {number}',
+    smallerText: 'Font size {number}',
+    magnifierOn: 'Magnifier on',
+    magnifierOff: 'Magnifier off',
+    focusOn: 'Focus mode on',
+    focusOff: 'Focus mode off',
+    bionicOn: 'Bionic reading on',
+    bionicOff: 'Bionic reading off',
+    rulerOn: 'Reading ruler on',
+    rulerOff: 'Reading ruler off',
+    caretOn: 'Caret browsing on',
+    caretOff: 'Caret browsing off',
+    find: 'Searching for {text}',
+    startDictation: 'Dictating into paragraph {number}. Say stop dictation to finish.',
+    help: 'You can say next, previous, go to paragraph 5, read all, stop, font size 30, or find followed by a word.',
+    undo: 'Undone: {text}',
+    redo: 'Redone: {text}',
+  },
+  notUnderstood: 'Not a command',
+  nothingToUndo: 'Nothing to undo',
+  nothingToRedo: 'Nothing to redo',
+};
+
+const SPANISH: VoiceGrammar = {
+  language: 'es',
+  numbers: {
+    cero: 0, un: 1, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9,
+    diez: 10, once: 11, doce: 12, trece: 13, catorce: 14, quince: 15, 'dieciséis': 16, diecisiete: 17,
+    dieciocho: 18, diecinueve: 19, veinte: 20, treinta: 30, cuarenta: 40, cincuenta: 50, sesenta: 60,
+    setenta: 70, ochenta: 80, noventa: 90, cien: 100, ciento: 100, mil: 1000,
+  },
+  numberJoiners: ['y'],
+  fillers: ['por favor', 'vale', 'oye', 'ahora'],
+  phrases: {
+    nextParagraph: ['(siguiente|adelante)', '[ir al] párrafo siguiente'],
+    previousParagraph: ['(anterior|atrás|volver)', '[ir al] párrafo anterior'],
+    goToParagraph: ['[(ir|ve|vete) al] párrafo [número] {number}'],
+    firstParagraph: ['[ir al] (principio|inicio)', 'primer párrafo'],
+    lastParagraph: ['[ir al] final', 'último párrafo'],
+    readAll: ['(lee|leer) todo', '(empieza|empezar) a leer'],
+    readParagraph: ['(lee|leer) [este] párrafo'],
+    pauseReading: ['(pausa|pausar) [la lectura]'],
+    resumeReading: ['(continúa|continuar|reanudar|sigue)'],
+    stopReading: ['(para|parar|detener|detente|silencio)'],
+    startScrolling: ['(desplazar|desplazamiento automático)', '(empieza|empezar) a desplazar'],
+    stopScrolling: ['(para|parar|detener) [el] desplazamiento', 'desplazamiento (apagado|desactivado)'],
+    pauseScrolling: ['(pausa|pausar) [el] desplazamiento'],
+    scrollFaster: ['más rápido'],
+    scrollSlower: ['más lento'],
+    scrollSpeed: ['velocidad [de desplazamiento] {number}'],
+    fontSize: ['tamaño [de] (letra|fuente|texto) {number}'],
+    biggerText: ['(letra|texto) más grande', '(aumentar|agrandar) [el] (letra|texto)'],
+    smallerText: ['(letra|texto) más pequeño', '(reducir|achicar) [el] (letra|texto)'],
+    magnifierOn: ['(activar|encender|mostrar) [la] lupa', 'lupa activada'],
+    magnifierOff: ['(desactivar|apagar|ocultar) [la] lupa', 'lupa desactivada'],
+    focusOn: ['(activar) [el] modo (enfoque|concentración)'],
+    focusOff: ['(desactivar) [el] modo (enfoque|concentración)'],
+    bionicOn: ['(activar) [la] lectura biónica'],
+    bionicOff: ['(desactivar) [la] lectura biónica'],
+    rulerOn: ['(activar|mostrar) [la] regla [de lectura]'],
+    rulerOff: ['(desactivar|ocultar) [la] regla [de lectura]'],
+    caretOn: ['activar [el] cursor'],
+    caretOff: ['desactivar [el] cursor'],
+    find: ['(busca|buscar) {text}'],
+    startDictation: ['(empezar|iniciar) [el] dictado', 'dictar', 'tomar [una] nota'],
+    help: ['ayuda', 'qué puedo decir'],
+    undo: ['deshacer [eso]', 'deshacer [el] último cambio'],
+    redo: ['rehacer [eso]'],
+  },
+  responses: {
+    nextParagraph: 'Párrafo {number}',
+    previousParagraph: 'Párrafo {number}',
+    goToParagraph: 'Párrafo {number}',
+    firstParagraph: 'Principio del documento',
+    lastParagraph: 'Final del documento',
+    readAll: 'Leyendo',
+    readParagraph: 'Leyendo el párrafo',
+    pauseReading: 'En pausa',
+    resumeReading: 'Continuando',
+    stopReading: 'Detenido',
+    startScrolling: 'Desplazando',
+    stopScrolling: 'Desplazamiento detenido',
+    pauseScrolling: 'Desplazamiento en pausa',
+    scrollFaster: 'Velocidad {number}',
+    scrollSlower: 'Velocidad {number}',
+    scrollSpeed: 'Velocidad {number}',
+    fontSize: 'Tamaño de letra {number}',
+    biggerText: 'Tamaño de letra {number}',
+    smallerText: 'Tamaño de letra {number}',
+    magnifierOn: 'Lupa activada',
+    magnifierOff: 'Lupa desactivada',
+    focusOn: 'Modo enfoque activado',
+    focusOff: 'Modo enfoque desactivado',
+    bionicOn: 'Lectura biónica activada',
+    bionicOff: 'Lectura biónica desactivada',
+    rulerOn: 'Regla activada',
+    rulerOff: 'Regla desactivada',
+    caretOn: 'Cursor activado',
+    caretOff: 'Cursor desactivado',
+    find: 'Buscando {text}',
+    startDictation: 'Dictando en el párrafo {number}. Di terminar dictado para acabar.',
+    help: 'Puedes decir siguiente, anterior, párrafo 5, leer todo, parar, tamaño de letra 30 o buscar y una palabra.',
+    undo: 'Deshecho: {text}',
+    redo: 'Rehecho: {text}',
+  },
+  notUnderstood: 'No es un comando',
+  nothingToUndo: 'Nada que deshacer',
+  nothingToRedo: 'Nada que rehacer',
+};
+
+const GERMAN: VoiceGrammar = {
+  language: 'de',
+  numbers: {
+    null: 0, ein: 1, eins: 1, eine: 1, zwei: 2, drei: 3, vier: 4, 'fünf': 5, sechs: 6, sieben: 7, acht: 8,
+    neun: 9, zehn: 10, elf: 11, 'zwölf': 12, dreizehn: 13, vierzehn: 14, 'fünfzehn': 15, sechzehn: 16,
+    siebzehn: 17, achtzehn: 18, neunzehn: 19, zwanzig: 20, 'dreißig': 30, vierzig: 40, 'fünfzig': 50,
+    sechzig: 60, siebzig: 70, achtzig: 80, neunzig: 90, hundert: 100, tausend: 1000,
+  },
+  numberJoiners: ['und'],
+  fillers: ['bitte', 'okay', 'ok', 'jetzt'],
+  phrases: {
+    nextParagraph: ['weiter', 'vorwärts', 'nächster [absatz]'],
+    previousParagraph: ['zurück', 'vorheriger [absatz]'],
+    goToParagraph: ['[(gehe|geh|springe) zu] absatz [nummer] {number}'],
+    firstParagraph: ['[zum] anfang', 'erster absatz'],
+    lastParagraph: ['[zum] ende', 'letzter absatz'],
+    readAll: ['alles (vorlesen|lesen)', 'vorlesen starten', 'lies alles'],
+    readParagraph: ['absatz vorlesen', 'lies [diesen] absatz'],
+    pauseReading: ['pause', 'anhalten', 'pausieren'],
+    resumeReading: ['weiterlesen', 'fortsetzen'],
+    stopReading: ['(stopp|stop|ruhe|aufhören)'],
+    startScrolling: ['[automatisch] scrollen', 'scrollen starten'],
+    stopScrolling: ['scrollen (stoppen|beenden|aus)'],
+    pauseScrolling: ['scrollen pausieren'],
+    scrollFaster: ['[scroll] schneller'],
+    scrollSlower: ['[scroll] langsamer'],
+    scrollSpeed: ['[scroll]geschwindigkeit {number}'],
+    fontSize: ['schriftgröße {number}'],
+    biggerText: ['größere schrift', 'schrift größer'],
+    smallerText: ['kleinere schrift', 'schrift kleiner'],
+    magnifierOn: ['lupe (an|ein)'],
+    magnifierOff: ['lupe aus'],
+    focusOn: ['fokus[modus] (an|ein)'],
+    focusOff: ['fokus[modus] aus'],
+    bionicOn: ['bionisch[es lesen] (an|ein)'],
+    bionicOff: ['bionisch[es lesen] aus'],
+    rulerOn: ['[lese]lineal (an|ein)'],
+    rulerOff: ['[lese]lineal aus'],
+    caretOn: ['[text]cursor (an|ein)'],
+    caretOff: ['[text]cursor aus'],
+    find: ['(suche|suchen|finde) {text}'],
+    startDictation: ['diktat starten', 'diktieren', 'notiz diktieren'],
+    help: ['hilfe', 'was kann ich sagen'],
+    undo: ['rückgängig [machen]', 'letzte änderung rückgängig [machen]'],
+    redo: ['wiederherstellen', 'änderung wiederherstellen'],
+  },
+  responses: {
+    nextParagraph: 'Absatz {number}',
+    previousParagraph: 'Absatz {number}',
+    goToParagraph: 'Absatz {number}',
+    firstParagraph: 'Anfang des Dokuments',
+    lastParagraph: 'Ende des Dokuments',
+    readAll: 'Lese vor',
+    readParagraph: 'Lese den Absatz',
+    pauseReading: 'Pausiert',
+    resumeReading: 'Geht weiter',
+    stopReading: 'Gestoppt',
+    startScrolling: 'Scrollen',
+    stopScrolling: 'Scrollen gestoppt',
+    pauseScrolling: 'Scrollen pausiert',
+    scrollFaster: 'Geschwindigkeit {number}',
+    scrollSlower: 'Geschwindigkeit {number}',
+    scrollSpeed: 'Geschwindigkeit {number}',
+    fontSize: 'Schriftgröße {number}',
+    biggerText: 'Schriftgröße {number}',
+    smallerText: 'Schriftgröße {number}',
+    magnifierOn: 'Lupe an',
+    magnifierOff: 'Lupe aus',
+    focusOn: 'Fokusmodus an',
+    focusOff: 'Fokusmodus aus',
+    bionicOn: 'Bionisches Lesen an',
+    bionicOff: 'Bionisches Lesen aus',
+    rulerOn: 'Leselineal an',
+    rulerOff: 'Leselineal aus',
+    caretOn: 'Textcursor an',
+    caretOff: 'Textcursor aus',
+    find: 'Suche {text}',
+    startDictation: 'Diktat in Absatz {number}. Sagen Sie Diktat beenden, um aufzuhören.',
+    help: 'Sie können weiter, zurück, Absatz 5, alles vorlesen, stopp, Schriftgröße 30 oder suche und ein Wort sagen.',
+    undo: 'Rückgängig gemacht: {text}',
+    redo: 'Wiederhergestellt: {text}',
+  },
+  notUnderstood: 'Kein Befehl',
+  nothingToUndo: 'Nichts rückgängig zu machen',
+  nothingToRedo: 'Nichts wiederherzustellen',
+};
+
+const FRENCH: VoiceGrammar = {
+  language: 'fr',
+  numbers: {
+    'zéro': 0, un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8, neuf: 9,
+    dix: 10, onze: 11, douze: 12, treize: 13, quatorze: 14, quinze: 15, seize: 16, vingt: 20, trente: 30,
+    quarante: 40, cinquante: 50, soixante: 60, vingts: 20, cent: 100, mille: 1000,
+  },
+  numberJoiners: ['et'],
+  numberMultipliers: ['vingt', 'vingts'],
+  fillers: ["s'il te plait", "s'il vous plait", "d'accord", 'maintenant'],
+  phrases: {
+    nextParagraph: ['suivant', 'paragraphe suivant', 'avancer'],
+    previousParagraph: ['précédent', 'paragraphe précédent', 'retour'],
+    goToParagraph: ['[aller au] paragraphe [numéro] {number}'],
+    firstParagraph: ['[aller au] début', 'premier paragraphe'],
+    lastParagraph: ['[aller à la] fin', 'dernier paragraphe'],
+    readAll: ['(tout lire|lire tout)', 'commencer la lecture'],
+    readParagraph: ['lire [ce] paragraphe'],
+    pauseReading: ['pause'],
+    resumeReading: ['(reprendre|continuer)'],
+    stopReading: ['(stop|arrête|arrêter|silence)'],
+    startScrolling: ['(défilement|défiler)', '(démarrer|lancer) [le] défilement'],
+    stopScrolling: ['(arrêter|arrête) [le] défilement'],
+    pauseScrolling: ['pause [du] défilement'],
+    scrollFaster: ['plus vite'],
+    scrollSlower: ['(moins vite|plus lent)'],
+    scrollSpeed: ['vitesse [de défilement] {number}'],
+    fontSize: ['taille [du] texte {number}', 'taille [de] police {number}'],
+    biggerText: ['texte plus grand', 'agrandir [le] texte'],
+    smallerText: ['texte plus petit', 'réduire [le] texte'],
+    magnifierOn: ['(activer|afficher) [la] loupe'],
+    magnifierOff: ['(désactiver|masquer) [la] loupe'],
+    focusOn: ['activer [le] mode (focus|concentration)'],
+    focusOff: ['désactiver [le] mode (focus|concentration)'],
+    bionicOn: ['activer [la] lecture bionique'],
+    bionicOff: ['désactiver [la] lecture bionique'],
+    rulerOn: ['(activer|afficher) [la] règle [de lecture]'],
+    rulerOff: ['(désactiver|masquer) [la] règle [de lecture]'],
+    caretOn: ['activer [le] curseur'],
+    caretOff: ['désactiver [le] curseur'],
+    find: ['(cherche|chercher|rechercher) {text}'],
+    startDictation: ['(commencer|démarrer) [la] dictée', 'dicter', 'prendre [une] note'],
+    help: ['aide', 'que puis-je dire'],
+    undo: ['annuler [ça]', 'annuler [la] dernière modification'],
+    redo: ['rétablir [ça]', 'refaire'],
+  },
+  responses: {
+    nextParagraph: 'Paragraphe {number}',
+    previousParagraph: 'Paragraphe {number}',
+    goToParagraph: 'Paragraphe {number}',
+    firstParagraph: 'Début du document',
+    lastParagraph: 'Fin du document',
+    readAll: 'Lecture',
+    readParagraph: 'Lecture du paragraphe',
+    pauseReading: 'En pause',
+    resumeReading: 'Reprise',
+    stopReading: 'Arrêté',
+    startScrolling: 'Défilement',
+    stopScrolling: 'Défilement arrêté',
+    pauseScrolling: 'Défilement en pause',
+    scrollFaster: 'Vitesse {number}',
+    scrollSlower: 'Vitesse {number}',
+    scrollSpeed: 'Vitesse {number}',
+    fontSize: 'Taille du texte {number}',
+    biggerText: 'Taille du texte {number}',
+    smallerText: 'Taille du texte {number}',
+    magnifierOn: 'Loupe activée',
+    magnifierOff: 'Loupe désactivée',
+    focusOn: 'Mode focus activé',
+    focusOff: 'Mode focus désactivé',
+    bionicOn: 'Lecture bionique activée',
+    bionicOff: 'Lecture bionique désactivée',
+    rulerOn: 'Règle activée',
+    rulerOff: 'Règle désactivée',
+    caretOn: 'Curseur activé',
+    caretOff: 'Curseur désactivé',
+    find: 'Recherche de {text}',
+    startDictation: 'Dictée dans le paragraphe {number}. Dites terminer la dictée pour finir.',
+    help: 'Vous pouvez dire suivant, précédent, paragraphe 5, tout lire, stop, taille du texte 30 ou chercher suivi d\'un mot.',
+    undo: 'Annulé : {text}',
+    redo: 'Rétabli : {text}',
+  },
+  notUnderstood: "Ce n'est pas une commande",
+  nothingToUndo: 'Rien à annuler',
+  nothingToRedo: 'Rien à rétablir',
+};
+
+const GRAMMARS = [ENGLISH, SPANISH, GERMAN, FRENCH];
+
+// Lower case without accents; hyphens become spaces so "twenty-one" reads as two number words
+const foldText = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/-/g, ' ');
+
+const normalizeTranscript = (text: string) =>
+  foldText(text).replace(/[^\p{L}\p{N}\s']/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Locale used for recognition: the setting, else the browser language if it has a command set
+export const resolveVoiceLocale = (setting: string): string => {
+  if (setting) return setting;
+  const browser = typeof navigator !== 'undefined' ? navigator.language : '';
+  const exact = VOICE_LOCALES.find(locale => locale.code.toLowerCase() === browser.toLowerCase());
+  if (exact) return exact.code;
+  const sameLanguage = VOICE_LOCALES.find(locale => locale.code.split('-')[0] === browser.split('-')[0]);
+  return sameLanguage ? sameLanguage.code : DEFAULT_VOICE_LOCALE;
+};
+
+export const getVoiceGrammar = (locale: string): VoiceGrammar =>
+  GRAMMARS.find(grammar => grammar.language === locale.split('-')[0].toLowerCase()) || ENGLISH;
+
+const getNumberSource = (grammar: VoiceGrammar) => {
+  const words = Object.keys(grammar.numbers).map(foldText).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  const joiners = grammar.numberJoiners.map(escapeRegExp).join('|');
+  return `\\d+|(?:${words})(?:\\s+(?:(?:${joiners})\\s+)?(?:${words}))*`;
+};
+
+const patternCache = new Map<string, RegExp | null>();
+
+// Compiles a pattern to a whole-utterance regular expression, or null if it is malformed
+const compilePattern = (pattern: string, grammar: VoiceGrammar): RegExp | null => {
+  const cacheKey = `${grammar.language}:${pattern}`;
+  const cached = patternCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  // An optional group takes the space next to it, so "[go to] paragraph" also matches "paragraph"
+  const folded = foldText(pattern).trim().replace(/\s+/g, ' ')
+    .replace(/ \[([^\]]*)\]/g, '[ $1]')
+    .replace(/^\[([^\]]*)\] /, '[$1 ]');
+
+  let source = '';
+  for (let i = 0; i < folded.length; i++) {
+    const char = folded[i];
+    if (char === '[') source += '(?:';
+    else if (char === ']') source += ')?';
+    else if (char === '(') source += '(?:';
+    else if (char === ')' || char === '|') source += char;
+    else if (char === ' ') source += '\\s+';
+    else if (char === '{') {
+      const end = folded.indexOf('}', i);
+      if (end < 0) break;
+      const slot = folded.slice(i + 1, end);
+      source += slot === 'number' ? `(?<number>${getNumberSource(grammar)})` : '(?<text>.+)';
+      i = end;
+    }
+    else source += escapeRegExp(char);
+  }
+
+  let regex: RegExp | null = null;
+  try {
+    regex = new RegExp(`^${source}$`, 'u');
+  } catch {
+    regex = null;
+  }
+  patternCache.set(cacheKey, regex);
+  return regex;
+};
+
+// Value of a number spoken as digits or words, e.g. "two hundred and fifty"
+const parseSpokenNumber = (text: string, grammar: VoiceGrammar): number => {
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+  const numbers = Object.fromEntries(Object.entries(grammar.numbers).map(([word, value]) => [foldText(word), value]));
+  const multipliers = (grammar.numberMultipliers || []).map(foldText);
+  let total = 0;
+  let current = 0;
+  let digit = 0; // The last word, if it was a single digit added on
+  for (const word of text.split(/\s+/)) {
+    if (grammar.numberJoiners.includes(word)) {
+      digit = 0;
+      continue;
+    }
+    const value = numbers[word];
+    if (value === undefined) return NaN;
+    const lastDigit = digit;
+    digit = value > 0 && value < 10 ? value : 0;
+    if (lastDigit && multipliers.includes(word)) current += lastDigit * (value - 1);
+    else if (value === 100) current = (current || 1) * 100;
+    else if (value === 1000) {
+      total += (current || 1) * 1000;
+      current = 0;
+    }
+    else current += value;
+  }
+  return total + current;
+};
+
+// Drops politeness words from either end ("please go back" → "go back")
+const stripFillers = (text: string, grammar: VoiceGrammar) => {
+  const fillers = grammar.fillers.map(normalizeTranscript);
+  let result = text;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const filler of fillers) {
+      if (result.startsWith(`${filler} `)) {
+        result = result.slice(filler.length + 1);
+        changed = true;
+      }
+      if (result.endsWith(` ${filler}`)) {
+        result = result.slice(0, -filler.length - 1);
+        changed = true;
+      }
+    }
+  }
+  return result;
+};
+
+const matchPattern = (text: string, pattern: string, id: VoiceCommandId, grammar: VoiceGrammar): VoiceCommandMatch | null => {
+  const match = compilePattern(pattern, grammar)?.exec(text);
+  if (!match) return null;
+  const result: VoiceCommandMatch = { id };
+  if (match.groups?.number !== undefined) {
+    const value = parseSpokenNumber(match.groups.number, grammar);
+    if (!Number.isFinite(value)) return null;
+    result.number = value;
+  }
+  if (match.groups?.text !== undefined) result.text = match.groups.text;
+  return result;
+};
+
+// Whether an utterance matches one of `patterns` (used for dictation's editing phrases)
+export const matchesVoicePhrase = (transcript: string, patterns: string[], grammar: VoiceGrammar) => {
+  const text = stripFillers(normalizeTranscript(transcript), grammar);
+  return patterns.some(pattern => !!compilePattern(pattern, grammar)?.test(text));
+};
+
+// Command for a recognised utterance. The user's own phrases win over the built-in ones.
+export const matchVoiceCommand = (
+  transcript: string,
+  grammar: VoiceGrammar,
+  shortcuts: VoiceShortcut[] = []
+): VoiceCommandMatch | null => {
+  const text = stripFillers(normalizeTranscript(transcript), grammar);
+  if (!text) return null;
+
+  for (const shortcut of shortcuts) {
+    const command = VOICE_COMMANDS.find(c => c.id === shortcut.command);
+    const match = command && matchPattern(text, shortcut.phrase, command.id, grammar);
+    if (match) return match;
+  }
+  for (const command of VOICE_COMMANDS) {
+    for (const pattern of grammar.phrases[command.id]) {
+      const match = matchPattern(text, pattern, command.id, grammar);
+      if (match) return match;
+    }
+  }
+  return null;
+};
+
+// Spoken confirmation for a command, with the value that was actually applied
+export const getVoiceResponse = (grammar: VoiceGrammar, id: VoiceCommandId, values: { number?: number; text?: string } = {}) =>
+  grammar.responses[id]
+    .replace('{number}', values.number !== undefined ? String(values.number) : '')
+    .replace('{text}', values.text ?? '')
+    .trim();
+
+export const getNotUnderstoodResponse = (grammar: VoiceGrammar) => grammar.notUnderstood;
+
+// Said when undo or redo has nothing left to go back or forward to
+export const getHistoryEndResponse = (grammar: VoiceGrammar, id: 'undo' | 'redo') =>
+  id === 'undo' ? grammar.nothingToUndo : grammar.nothingToRedo;
+
+// Simplest way to say a command, for hints: optional words dropped and the first alternative taken
+export const getVoiceExample = (grammar: VoiceGrammar, id: VoiceCommandId) =>
+  grammar.phrases[id][0]
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/\(([^|)]*)[^)]*\)/g, '$1')
+    .replace('{number}', '5')
+    .replace('{text}', '…')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Why a custom phrase can't be used, or null if it is fine
+export const getVoicePhraseError = (phrase: string, id: VoiceCommandId, locale: string): string | null => {
+  const command = VOICE_COMMANDS.find(c => c.id === id);
+  if (!command) return 'Choose a command.';
+  if (!phrase.trim()) return 'Type the words to say.';
+  if (command.argument && !phrase.includes(`{${command.argument}}`)) {
+    return `Include {${command.argument}} where you will say the ${command.argument}.`;
+  }
+  if (!compilePattern(phrase, getVoiceGrammar(locale))) return 'Check the brackets in the phrase.';
+  return null;
+};
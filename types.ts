@@ -4,6 +4,7 @@ export enum ThemeMode {
   SEPIA = 'sepia',
   HIGH_CONTRAST = 'high-contrast', // Yellow on Black
   INK = 'ink', // E-Ink / Paper style
+  CUSTOM = 'custom', // User-defined colours, see ReaderSettings.customThemes
 }
 
 export enum FontFamily {
@@ -11,6 +12,77 @@ export enum FontFamily {
   SERIF = 'serif',
   MONO = 'mono',
   SYSTEM = 'system-ui',
+  DYSLEXIC = 'opendyslexic', // OpenDyslexic
+  HYPERLEGIBLE = 'atkinson', // Atkinson Hyperlegible
+  LEXEND = 'lexend',
+}
+
+export enum LoupeMode {
+  WORD = 'word', // The word under the pointer
+  LINE = 'line', // The whole rendered line around it
+  REGION = 'region', // Pixel magnification of the page, including images and controls
+}
+
+export enum TextAlign {
+  START = 'start',
+  JUSTIFY = 'justify',
+  CENTER = 'center',
+}
+
+export enum DocumentFormat {
+  TEXT = 'txt',
+  PDF = 'pdf',
+  DOCX = 'docx',
+  EPUB = 'epub',
+  MARKDOWN = 'md',
+  HTML = 'html',
+  IMAGE = 'image', // Scanned image, text recognized by OCR
+}
+
+export enum BlockType {
+  HEADING = 'heading',
+  PARAGRAPH = 'paragraph',
+  LIST_ITEM = 'list-item',
+  QUOTE = 'quote',
+  TABLE = 'table',
+  IMAGE = 'image',
+  CODE = 'code', // Preformatted text, whitespace preserved
+}
+
+// A run of inline text sharing the same formatting
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+export interface Block {
+  type: BlockType;
+  text: string; // Plain text; highlight offsets and speech use this
+  spans?: InlineSpan[]; // Formatting runs, concatenating to `text`
+  level?: number; // Heading level (1-6) or list nesting depth (0-based)
+  ordered?: boolean; // List items only
+  number?: number; // Position within an ordered list
+  rows?: string[][]; // Table cells, first row treated as header
+  src?: string; // Image source
+  alt?: string; // Image alternative text
+}
+
+// Table of contents entry pointing at the block where a chapter or section starts
+export interface Chapter {
+  title: string;
+  blockIndex: number;
+  level: number; // Nesting depth, 0 = top level
+}
+
+// Output of a format loader, before it becomes a library document
+export interface ExtractedDocument {
+  blocks: Block[];
+  chapters?: Chapter[];
+  title?: string; // Title from the file's own metadata
+  warnings?: string[]; // Shown to the user once the document opens
 }
 
 export interface Highlight {
@@ -18,32 +90,166 @@ export interface Highlight {
   end: number;
   text: string;
   id: string;
+  createdAt?: number; // Missing on highlights made before this was recorded
+  categoryId?: string; // Unknown or missing ids show as the first category
+  groupId?: string; // Shared by the parts of a highlight that runs across paragraphs
+}
+
+// User-named highlight colour, e.g. "Definition" in blue
+export interface HighlightCategory {
+  id: string;
+  name: string;
+  color: string; // Id of an entry in HIGHLIGHT_COLORS
+}
+
+// A note on a paragraph, or on one highlight in it. Notes remember the text they were
+// written against, so they can be found again when paragraphs are split differently.
+export interface Note {
+  id: string;
+  paragraph: number; // Block index
+  highlightId?: string; // Anchored to this highlight rather than the whole paragraph
+  text: string; // Markdown: **bold**, *italic*, lists and [links](https://…)
+  tags: string[];
+  fingerprint: string; // hashText of the paragraph when the note was last saved
+  quote: string; // Start of the paragraph, or the highlighted text
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Where the Reader was scrolled to, anchored to a paragraph so it survives font size changes
+export interface ScrollPosition {
+  paragraphIndex: number; // Paragraph at the top of the view
+  offset: number; // Pixels scrolled past that paragraph's top
+}
+
+// Accumulated reading activity, used to measure reading speed
+export interface ReadingStats {
+  wordsRead: number;
+  activeMs: number;
+}
+
+export interface LibraryDocument {
+  id: string;
+  title: string;
+  format: DocumentFormat;
+  blocks: Block[];
+  chapters: Chapter[];
+  notes: Note[];
+  highlights: Record<number, Highlight[]>;
+  lastParagraphIndex: number | null; // Last active paragraph
+  lastScrollPosition: ScrollPosition | null;
+  readingStats: ReadingStats;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ThemeColors {
+  background: string; // Hex colours, e.g. '#fdf6e3'
+  text: string;
+  highlight: string;
+  selection: string;
+  accent: string;
+  focusRing: string;
+}
+
+export interface CustomTheme {
+  id: string;
+  name: string;
+  colors: ThemeColors;
 }
 
 export interface ReaderSettings {
   fontSize: number; // in pixels (base)
   lineHeight: number; // unitless (e.g., 1.5)
   letterSpacing: number; // in em
+  wordSpacing: number; // in em
+  paragraphSpacing: number; // in em of the base font size
+  maxLineLength: number; // in characters (ch), 0 = full width
+  textAlign: TextAlign;
   theme: ThemeMode;
+  customThemes: CustomTheme[];
+  customThemeId: string | null; // Applied when theme is CUSTOM
   fontFamily: FontFamily;
   isFocusMode: boolean; // Dims non-active paragraphs
   isLoupeActive: boolean; // Cursor follower magnifier
+  loupeMode: LoupeMode;
+  loupeZoom: number; // Magnification factor
+  loupeSize: number; // Lens size in px (height of the docked panel)
+  isLoupeDocked: boolean; // Show the magnifier in a panel above the text instead of at the pointer
   isHoverZoom: boolean; // Hovering a paragraph scales it up slightly
   isBionicReading: boolean; // Highlights initial letters of words
-  autoScrollSpeed: number; // 0 = off
+  isReadingRuler: boolean; // Line-level band that masks the text around the line being read
+  rulerHeight: number; // Band height in lines of body text
+  rulerTint: string; // Hex colour of the band
+  rulerOpacity: number; // 0 - 1, how strongly the text outside the band is masked
+  autoScrollSpeed: number; // Auto-scroll (teleprompter) rate in words per minute
+  isAutoScrollGuide: boolean; // Show a reading guide line while auto-scrolling
   speechVoiceURI: string; // Preferred voice for TTS
+  isAutoVoice: boolean; // Read each paragraph with a voice for its detected language
+  speechRate: number; // 0.5 - 2, 1 = normal
+  speechPitch: number; // 0 - 2, 1 = normal
+  speechVolume: number; // 0 - 1
+  isSpokenWordHighlight: boolean; // Karaoke-style highlight of the word being read aloud
+  isSpokenSentenceHighlight: boolean; // Also tint the sentence being read aloud
+  ocrLanguage: string; // Tesseract language code(s), e.g. 'eng' or 'eng+deu'
+  keyBindings: KeyBindings;
+  voiceLocale: string; // Speech recognition language, e.g. 'en-GB'; '' follows the browser
+  isVoiceFeedback: boolean; // Speak a short confirmation after each voice command
+  voiceShortcuts: VoiceShortcut[];
+}
+
+// Remapped keyboard shortcuts by command id (see services/shortcuts.ts); commands not listed use their defaults
+export type KeyBindings = Record<string, string[]>;
+
+// A user-defined voice phrase for a command (see services/voiceCommands.ts for the pattern syntax)
+export interface VoiceShortcut {
+  phrase: string;
+  command: string;
+}
+
+// A named set of reader settings, e.g. "Evening" or "Low vision"
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: ReaderSettings;
 }
 
 export const DEFAULT_SETTINGS: ReaderSettings = {
   fontSize: 22,
   lineHeight: 1.8,
   letterSpacing: 0.02,
+  wordSpacing: 0,
+  paragraphSpacing: 1.5,
+  maxLineLength: 0,
+  textAlign: TextAlign.START,
   theme: ThemeMode.LIGHT,
+  customThemes: [],
+  customThemeId: null,
   fontFamily: FontFamily.SANS,
   isFocusMode: false,
   isLoupeActive: false,
+  loupeMode: LoupeMode.WORD,
+  loupeZoom: 2.5,
+  loupeSize: 256,
+  isLoupeDocked: false,
   isHoverZoom: true,
   isBionicReading: false,
-  autoScrollSpeed: 0,
+  isReadingRuler: false,
+  rulerHeight: 1.5,
+  rulerTint: '#fde047',
+  rulerOpacity: 0.6,
+  autoScrollSpeed: 150,
+  isAutoScrollGuide: true,
   speechVoiceURI: '',
+  isAutoVoice: true,
+  speechRate: 1,
+  speechPitch: 1,
+  speechVolume: 1,
+  isSpokenWordHighlight: true,
+  isSpokenSentenceHighlight: false,
+  ocrLanguage: 'eng',
+  keyBindings: {},
+  voiceLocale: '',
+  isVoiceFeedback: true,
+  voiceShortcuts: [],
 };
\ No newline at end of file